@@ -0,0 +1,60 @@
+import vt323Latin from '@fontsource/vt323/files/vt323-latin-400-normal.woff2';
+import vt323Vietnamese from '@fontsource/vt323/files/vt323-vietnamese-400-normal.woff2';
+
+// --- Bundled Assets & Preloading ---
+// Art ships with the build so the game works offline. Levels name a bundled background
+// ('meadow') or give an image URL (custom level packs).
+const BACKGROUND_FILES = import.meta.glob('./backgrounds/*.svg', { eager: true, query: '?url', import: 'default' }) as Record<string, string>;
+
+export const BACKGROUNDS: Record<string, string> = Object.fromEntries(
+  Object.entries(BACKGROUND_FILES).map(([path, url]) => [path.replace(/^.*\/|\.svg$/g, ''), url])
+);
+
+// Shown when a level's background cannot be loaded
+export const FALLBACK_BACKGROUND = BACKGROUNDS.fallback;
+
+const failedImages = new Set<string>();
+
+export const resolveBackground = (background: string) => {
+  const url = BACKGROUNDS[background] || background;
+  return failedImages.has(url) ? FALLBACK_BACKGROUND : url;
+};
+
+const loadImage = (url: string) => new Promise<void>(resolve => {
+  const image = new Image();
+  image.onload = () => resolve();
+  image.onerror = () => {
+    failedImages.add(url);
+    resolve();
+  };
+  image.src = url;
+});
+
+// Resolves once every image has loaded or failed and the given fonts are ready; never rejects
+export const preloadAssets = async (imageUrls: string[], fonts: string[], onProgress: (loaded: number, total: number) => void) => {
+  const tasks = [
+    ...imageUrls.map(loadImage),
+    ...fonts.map(font => document.fonts.load(font).then(() => {}, () => {}))
+  ];
+  let loaded = 0;
+  onProgress(0, tasks.length);
+  await Promise.all(tasks.map(task => task.then(() => onProgress(++loaded, tasks.length))));
+};
+
+// --- Fonts ---
+// Press Start 2P has no Vietnamese letters, so Vietnamese text uses VT323, a pixel font that has
+// them. Its capitals are 56% of the em against Press Start 2P's full em, so it is scaled to match.
+// The family is VIETNAMESE_PIXEL_FONT in the renderers.
+const VT323_FACES = [
+  { url: vt323Latin, range: 'U+0000-00FF,U+0131,U+0152-0153,U+02BB-02BC,U+02C6,U+02DA,U+02DC,U+0304,U+0308,U+0329,U+2000-206F,U+20AC,U+2122,U+2191,U+2193,U+2212,U+2215,U+FEFF,U+FFFD' },
+  { url: vt323Vietnamese, range: 'U+0102-0103,U+0110-0111,U+0128-0129,U+0168-0169,U+01A0-01A1,U+01AF-01B0,U+0300-0301,U+0303-0304,U+0308-0309,U+0323,U+0329,U+1EA0-1EF9,U+20AB' }
+];
+
+export const VIETNAMESE_FONT_FACES = VT323_FACES.map(({ url, range }) => `
+  @font-face {
+    font-family: 'Pixel Vietnamese';
+    font-display: swap;
+    src: url(${url}) format('woff2');
+    size-adjust: 178%;
+    unicode-range: ${range};
+  }`).join('');
@@ -0,0 +1,267 @@
+import { noteFrequency, Track, TRACKS, Voice } from './tracks';
+
+// --- Audio System (Retro 8-bit) ---
+export type SfxType = 'shoot' | 'hit' | 'wrong' | 'freeze' | 'fireball' | 'slow' | 'timesup' | 'gameover' | 'sticker';
+
+export type AudioChannel = 'music' | 'sfx';
+
+export type AudioSettings = Record<AudioChannel, { volume: number, muted: boolean }>;
+
+const AUDIO_SETTINGS_KEY = 'magicMathAudio';
+
+const DEFAULT_AUDIO_SETTINGS: AudioSettings = {
+  music: { volume: 0.6, muted: false },
+  sfx: { volume: 0.8, muted: false }
+};
+
+// Sequencer timing: wake up every LOOKAHEAD_MS and schedule everything due in the next SCHEDULE_AHEAD seconds
+// on the audio clock, so a busy main thread delays the timer but never the notes
+const LOOKAHEAD_MS = 25;
+const SCHEDULE_AHEAD = 0.1;
+// Tempo multiplier at full intensity (an enemy at the castle line)
+const MAX_SPEEDUP = 0.5;
+
+const VOICE_VOLUME: Record<Voice, number> = { lead: 0.05, bass: 0.07, drums: 0.12 };
+
+const loadAudioSettings = (): AudioSettings => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(AUDIO_SETTINGS_KEY) || 'null');
+    const channel = (name: AudioChannel) => {
+      const value = saved?.[name];
+      return {
+        volume: typeof value?.volume === 'number' ? Math.min(1, Math.max(0, value.volume)) : DEFAULT_AUDIO_SETTINGS[name].volume,
+        muted: typeof value?.muted === 'boolean' ? value.muted : DEFAULT_AUDIO_SETTINGS[name].muted
+      };
+    };
+    return { music: channel('music'), sfx: channel('sfx') };
+  } catch (e) {
+    return DEFAULT_AUDIO_SETTINGS;
+  }
+};
+
+export class SoundManager {
+  ctx: AudioContext | null = null;
+  musicBus: GainNode | null = null;
+  sfxBus: GainNode | null = null;
+  noiseBuffer: AudioBuffer | null = null;
+  settings: AudioSettings = loadAudioSettings();
+
+  // Sequencer state
+  track: Track | null = null;
+  patterns: Partial<Record<Voice, string[]>> = {};
+  step: number = 0;
+  nextStepTime: number = 0;
+  schedulerId: number | null = null;
+  // 0..1: how close the nearest enemy is to the castle; speeds the music up
+  intensity: number = 0;
+
+  init() {
+    if (!this.ctx) {
+      this.ctx = new (window.AudioContext || (window as any).webkitAudioContext)();
+      this.musicBus = this.ctx.createGain();
+      this.sfxBus = this.ctx.createGain();
+      this.musicBus.connect(this.ctx.destination);
+      this.sfxBus.connect(this.ctx.destination);
+      this.applyVolume('music');
+      this.applyVolume('sfx');
+    }
+    if (this.ctx.state === 'suspended') {
+      this.ctx.resume();
+    }
+  }
+
+  // --- Volume ---
+  updateSettings(channel: AudioChannel, changes: Partial<AudioSettings[AudioChannel]>) {
+    this.settings = { ...this.settings, [channel]: { ...this.settings[channel], ...changes } };
+    localStorage.setItem(AUDIO_SETTINGS_KEY, JSON.stringify(this.settings));
+    this.applyVolume(channel);
+  }
+
+  applyVolume(channel: AudioChannel) {
+    const bus = channel === 'music' ? this.musicBus : this.sfxBus;
+    if (!bus || !this.ctx) return;
+    const { volume, muted } = this.settings[channel];
+    // Short ramp so slider moves don't click
+    bus.gain.setTargetAtTime(muted ? 0 : volume, this.ctx.currentTime, 0.02);
+  }
+
+  // --- Sound Effects ---
+  playTone(freq: number, type: OscillatorType, duration: number, volume: number = 0.1) {
+    if (!this.ctx || !this.sfxBus) return;
+    const osc = this.ctx.createOscillator();
+    const gain = this.ctx.createGain();
+    osc.type = type;
+    osc.frequency.setValueAtTime(freq, this.ctx.currentTime);
+    osc.connect(gain);
+    gain.connect(this.sfxBus);
+    gain.gain.setValueAtTime(volume, this.ctx.currentTime);
+    gain.gain.exponentialRampToValueAtTime(0.01, this.ctx.currentTime + duration);
+    osc.start();
+    osc.stop(this.ctx.currentTime + duration);
+  }
+
+  playSFX(type: SfxType) {
+    this.init();
+    if (type === 'shoot') {
+      this.playTone(600, 'square', 0.1, 0.05);
+      setTimeout(() => this.playTone(800, 'square', 0.1, 0.05), 50);
+    } else if (type === 'hit') {
+      this.playTone(150, 'sawtooth', 0.2, 0.1);
+    } else if (type === 'wrong') {
+      this.playTone(110, 'square', 0.15, 0.08);
+      setTimeout(() => this.playTone(90, 'square', 0.2, 0.08), 120);
+    } else if (type === 'freeze') {
+      [1200, 1500, 1800, 2400].forEach((freq, i) => setTimeout(() => this.playTone(freq, 'sine', 0.15, 0.06), i * 60));
+    } else if (type === 'fireball') {
+      this.playTone(220, 'sawtooth', 0.3, 0.12);
+      setTimeout(() => this.playTone(90, 'sawtooth', 0.5, 0.15), 200);
+    } else if (type === 'slow') {
+      [600, 450, 300].forEach((freq, i) => setTimeout(() => this.playTone(freq, 'triangle', 0.3, 0.1), i * 200));
+    } else if (type === 'timesup') {
+      this.playTone(880, 'square', 0.5, 0.1);
+      setTimeout(() => this.playTone(440, 'square', 0.5, 0.1), 300);
+    } else if (type === 'gameover') {
+      this.playTone(300, 'sawtooth', 0.3, 0.2);
+      setTimeout(() => this.playTone(250, 'sawtooth', 0.3, 0.2), 300);
+      setTimeout(() => this.playTone(200, 'sawtooth', 0.6, 0.2), 600);
+    } else if (type === 'sticker') {
+      [523, 659, 784, 1047].forEach((freq, i) => setTimeout(() => this.playTone(freq, 'square', 0.15, 0.06), i * 90));
+    }
+  }
+
+  // --- Music Sequencer ---
+  playBGM(trackId: number) {
+    this.init();
+    this.stopBGM();
+
+    const track = TRACKS[trackId];
+    if (!track) return;
+    this.track = track;
+    this.patterns = {};
+    (Object.keys(track.voices) as Voice[]).forEach(voice => {
+      this.patterns[voice] = (track.voices[voice] as string).split(/\s+/).filter(Boolean);
+    });
+    this.step = 0;
+    this.intensity = 0;
+    this.resumeBGM();
+  }
+
+  stopBGM() {
+    this.pauseBGM();
+    this.track = null;
+  }
+
+  // Stops scheduling but keeps the position; SFX keep working while the music is paused
+  pauseBGM() {
+    if (this.schedulerId !== null) clearInterval(this.schedulerId);
+    this.schedulerId = null;
+  }
+
+  resumeBGM() {
+    if (!this.ctx || !this.track || this.schedulerId !== null) return;
+    this.nextStepTime = this.ctx.currentTime + 0.05;
+    this.scheduleAhead();
+    this.schedulerId = window.setInterval(() => this.scheduleAhead(), LOOKAHEAD_MS);
+  }
+
+  setIntensity(intensity: number) {
+    this.intensity = Math.min(1, Math.max(0, intensity));
+  }
+
+  stepDuration() {
+    if (!this.track) return 0;
+    const bpm = this.track.bpm * (1 + MAX_SPEEDUP * this.intensity);
+    return 60 / bpm / this.track.stepsPerBeat;
+  }
+
+  scheduleAhead() {
+    if (!this.ctx || !this.track) return;
+    while (this.nextStepTime < this.ctx.currentTime + SCHEDULE_AHEAD) {
+      this.scheduleStep(this.step, this.nextStepTime);
+      this.nextStepTime += this.stepDuration();
+      this.step++;
+    }
+  }
+
+  scheduleStep(step: number, time: number) {
+    const stepDuration = this.stepDuration();
+    (Object.keys(this.patterns) as Voice[]).forEach(voice => {
+      const pattern = this.patterns[voice] as string[];
+      const index = step % pattern.length;
+      const token = pattern[index];
+      if (voice === 'drums') {
+        this.playDrum(token, time);
+        return;
+      }
+      const freq = noteFrequency(token);
+      if (freq === null) return;
+      let length = 1;
+      while (pattern[(index + length) % pattern.length] === '-' && length < pattern.length) length++;
+      this.playNote(voice, freq, time, length * stepDuration);
+    });
+  }
+
+  playNote(voice: Voice, freq: number, time: number, duration: number) {
+    if (!this.ctx || !this.musicBus) return;
+    const osc = this.ctx.createOscillator();
+    const gain = this.ctx.createGain();
+    osc.type = voice === 'bass' ? 'triangle' : 'square';
+    osc.frequency.setValueAtTime(freq, time);
+    osc.connect(gain);
+    gain.connect(this.musicBus);
+    // Hold, then a quick release so consecutive notes stay separate
+    const release = Math.min(0.05, duration / 2);
+    gain.gain.setValueAtTime(VOICE_VOLUME[voice], time);
+    gain.gain.setValueAtTime(VOICE_VOLUME[voice], time + duration - release);
+    gain.gain.linearRampToValueAtTime(0, time + duration);
+    osc.start(time);
+    osc.stop(time + duration);
+  }
+
+  playDrum(token: string, time: number) {
+    if (!this.ctx || !this.musicBus) return;
+    const volume = VOICE_VOLUME.drums;
+    if (token === 'k') {
+      // Kick: a sine dropping quickly in pitch
+      const osc = this.ctx.createOscillator();
+      const gain = this.ctx.createGain();
+      osc.frequency.setValueAtTime(150, time);
+      osc.frequency.exponentialRampToValueAtTime(40, time + 0.12);
+      gain.gain.setValueAtTime(volume * 2, time);
+      gain.gain.exponentialRampToValueAtTime(0.001, time + 0.15);
+      osc.connect(gain);
+      gain.connect(this.musicBus);
+      osc.start(time);
+      osc.stop(time + 0.15);
+    } else if (token === 's' || token === 'h') {
+      // Snare and hi-hat: filtered noise bursts
+      const isSnare = token === 's';
+      const source = this.ctx.createBufferSource();
+      const filter = this.ctx.createBiquadFilter();
+      const gain = this.ctx.createGain();
+      const duration = isSnare ? 0.15 : 0.05;
+      source.buffer = this.getNoiseBuffer();
+      filter.type = 'highpass';
+      filter.frequency.setValueAtTime(isSnare ? 1000 : 7000, time);
+      gain.gain.setValueAtTime(isSnare ? volume : volume / 2, time);
+      gain.gain.exponentialRampToValueAtTime(0.001, time + duration);
+      source.connect(filter);
+      filter.connect(gain);
+      gain.connect(this.musicBus);
+      source.start(time);
+      source.stop(time + duration);
+    }
+  }
+
+  getNoiseBuffer() {
+    if (!this.noiseBuffer && this.ctx) {
+      const length = this.ctx.sampleRate;
+      this.noiseBuffer = this.ctx.createBuffer(1, length, this.ctx.sampleRate);
+      const data = this.noiseBuffer.getChannelData(0);
+      for (let i = 0; i < length; i++) data[i] = Math.random() * 2 - 1;
+    }
+    return this.noiseBuffer;
+  }
+}
+
+export const soundManager = new SoundManager();
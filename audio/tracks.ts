@@ -0,0 +1,61 @@
+// --- Chiptune Tracks ---
+// Patterns are space-separated steps: a note name ('C4', 'F#3'), '.' for a rest or '-' to hold the
+// previous note one more step. Drums use 'k' kick, 's' snare and 'h' hi-hat.
+// Voices loop independently, so a pattern may be shorter than the others.
+export type Voice = 'lead' | 'bass' | 'drums';
+
+export type Track = {
+  bpm: number,
+  stepsPerBeat: number,
+  voices: Partial<Record<Voice, string>>
+};
+
+// Keyed by the level's `music` number; 0 is the title screen
+export const TRACKS: Record<number, Track> = {
+  0: { // Menu: Relaxed / Title Screen
+    bpm: 150,
+    stepsPerBeat: 2,
+    voices: {
+      lead: 'E4 B3 C4 D4 C4 B3 A3 - A3 C4 E4 D4 C4 B3 - .',
+      bass: 'A2 - - - E2 - - - A2 - - - E2 - - -'
+    }
+  },
+  1: { // Meadow: bright and bouncy
+    bpm: 132,
+    stepsPerBeat: 2,
+    voices: {
+      lead: 'C5 . E5 G5 E5 . C5 . D5 . F5 A5 G5 - . . C5 . E5 G5 A5 G5 E5 C5 D5 . B4 . C5 - - .',
+      bass: 'C3 . G2 . C3 . G2 . F2 . C3 . G2 . B2 . C3 . G2 . A2 . E2 . F2 . G2 . C3 . . .',
+      drums: 'k . h . s . h . k . h . s . h h'
+    }
+  },
+  2: { // Desert: driving minor
+    bpm: 144,
+    stepsPerBeat: 2,
+    voices: {
+      lead: 'A4 . C5 E5 D5 C5 B4 . G4 . B4 D5 C5 B4 A4 . A4 . C5 E5 F5 E5 D5 C5 B4 . G#4 . A4 - - .',
+      bass: 'A2 A2 . A2 G2 G2 . G2 F2 F2 . F2 E2 E2 . E2',
+      drums: 'k . h k s . h . k . h k s . h s'
+    }
+  },
+  3: { // Volcano: tense and fast
+    bpm: 156,
+    stepsPerBeat: 2,
+    voices: {
+      lead: 'D5 . D5 F5 E5 . D5 C5 A4 . A4 C5 D5 - - . D5 . F5 A5 G5 F5 E5 D5 C#5 . E5 . D5 - - .',
+      bass: 'D2 D3 D2 D3 D2 D3 D2 D3 A#1 A#2 A#1 A#2 A1 A2 A1 A2',
+      drums: 'k h s h k k s h k h s h k k s s'
+    }
+  }
+};
+
+const SEMITONES: Record<string, number> = { C: 0, D: 2, E: 4, F: 5, G: 7, A: 9, B: 11 };
+
+// 'A4' → 440 Hz; returns null for anything that is not a note
+export const noteFrequency = (name: string): number | null => {
+  const match = /^([A-G])(#|b)?(-?\d)$/.exec(name);
+  if (!match) return null;
+  const accidental = match[2] === '#' ? 1 : match[2] === 'b' ? -1 : 0;
+  const midi = 12 * (parseInt(match[3], 10) + 1) + SEMITONES[match[1]] + accidental;
+  return 440 * Math.pow(2, (midi - 69) / 12);
+};
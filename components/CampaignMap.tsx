@@ -0,0 +1,63 @@
+import React from 'react';
+import { levelColors, Palette } from '../game/accessibility';
+import { CAMPAIGN, CampaignProgress, isStageUnlocked, MAX_STARS, Stage } from '../game/campaign';
+import { LevelDefinition } from '../game/levels';
+import { Messages } from '../i18n';
+
+type CampaignMapProps = {
+  levels: LevelDefinition[],
+  progress: CampaignProgress,
+  palette: Palette,
+  onPlay: (stage: Stage) => void,
+  onClose: () => void,
+  t: Messages
+};
+
+export const starText = (stars: number) => '★'.repeat(stars) + '☆'.repeat(MAX_STARS - stars);
+
+// --- Campaign Map (start screen) ---
+const CampaignMap = ({ levels, progress, palette, onPlay, onClose, t }: CampaignMapProps) => {
+  // One row of stages per campaign level
+  const rows = CAMPAIGN.reduce<Stage[][]>((rows, stage) => {
+    (rows[stage.levelIndex] = rows[stage.levelIndex] || []).push(stage);
+    return rows;
+  }, []);
+
+  return (
+    <div className="screen" style={{zIndex: 105}} role="dialog" aria-modal="true" aria-labelledby="campaign-title">
+      <h1 id="campaign-title" style={{fontSize: '20px', marginBottom: '20px'}}>{t.campaign}</h1>
+      {rows.map((stages, levelIndex) => {
+        const index = Math.min(levelIndex, levels.length - 1);
+        const colors = levelColors(levels[index], index, palette);
+        return (
+          <div key={levelIndex} style={{marginBottom: '20px'}}>
+            <div style={{fontSize: '10px', color: '#bdc3c7', marginBottom: '10px', textAlign: 'center'}}>{t.levelTitle(levelIndex + 1)}</div>
+            <div style={{display: 'flex', justifyContent: 'center', flexWrap: 'wrap'}}>
+              {stages.map(stage => {
+                const isUnlocked = isStageUnlocked(progress, stage);
+                const stars = progress[stage.id] || 0;
+                return (
+                  <button
+                    key={stage.id}
+                    className="btn"
+                    disabled={!isUnlocked}
+                    aria-label={isUnlocked ? `${t.stageLabel(stage.id)}: ${t.starCount(stars)}` : `${t.stageLabel(stage.id)}: ${t.locked}`}
+                    onClick={() => onPlay(stage)}
+                    style={{background: isUnlocked ? colors.button : '#555', minWidth: '110px', cursor: isUnlocked ? 'pointer' : 'default'}}>
+                    {stage.id}
+                    <span aria-hidden="true" style={{display: 'block', fontSize: '12px', marginTop: '8px', color: '#f1c40f'}}>
+                      {isUnlocked ? starText(stars) : '🔒'}
+                    </span>
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        );
+      })}
+      <button className="btn" onClick={onClose}>{t.close}</button>
+    </div>
+  );
+};
+
+export default CampaignMap;
@@ -0,0 +1,56 @@
+import React from 'react';
+import { dailyStreak, dateKey, DailyResults } from '../game/daily';
+import { Messages } from '../i18n';
+
+type DailyChallengeProps = {
+  results: DailyResults,
+  today: Date,
+  onPlay: () => void,
+  t: Messages
+};
+
+const CELL = 26;
+
+// --- Daily Challenge & Streak Calendar (start screen) ---
+const DailyChallenge = ({ results, today, onPlay, t }: DailyChallengeProps) => {
+  const todayKey = dateKey(today);
+  const year = today.getFullYear();
+  const month = today.getMonth();
+  const daysInMonth = new Date(year, month + 1, 0).getDate();
+  // Blank cells before the 1st, weeks starting on Monday
+  const offset = (new Date(year, month, 1).getDay() + 6) % 7;
+  const days = Array.from({ length: daysInMonth }, (_, i) => new Date(year, month, i + 1));
+
+  return (
+    <div style={{marginBottom: '20px', display: 'flex', flexDirection: 'column', alignItems: 'center'}}>
+      <button className="btn" style={{background: '#e67e22'}} onClick={onPlay}>
+        {t.dailyChallenge}
+        <span style={{display: 'block', fontSize: '10px', marginTop: '8px'}}>{todayKey in results ? t.dailyDone(results[todayKey]) : t.dailyOneAttempt}</span>
+      </button>
+      <div style={{fontSize: '10px', color: '#f1c40f', margin: '10px 0'}}>{t.dailyStreak(dailyStreak(results, today))}</div>
+      <div style={{fontSize: '10px', color: '#bdc3c7', marginBottom: '5px'}}>{t.monthTitle(today.getTime())}</div>
+      <div style={{display: 'grid', gridTemplateColumns: `repeat(7, ${CELL}px)`, gap: '2px', fontSize: '8px', textAlign: 'center'}}>
+        {t.weekdays.map((day, i) => <div key={`w${i}`} aria-hidden="true" style={{color: '#95a5a6'}}>{day}</div>)}
+        {offset > 0 && <div style={{gridColumn: `span ${offset}`}} />}
+        {days.map(date => {
+          const key = dateKey(date);
+          const isDone = key in results;
+          return (
+            <div
+              key={key}
+              aria-label={isDone ? `${t.shortDate(date.getTime())}: ${t.dailyPlayed}` : t.shortDate(date.getTime())}
+              style={{
+                height: `${CELL}px`,
+                lineHeight: `${CELL - 4}px`,
+                color: isDone ? '#000' : '#fff',
+                background: isDone ? 'var(--color-good)' : 'rgba(255,255,255,0.08)',
+                border: `2px solid ${key === todayKey ? '#f1c40f' : 'transparent'}`
+              }}>{t.number(date.getDate())}</div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default DailyChallenge;
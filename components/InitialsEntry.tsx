@@ -0,0 +1,73 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { INITIALS_ALPHABET, INITIALS_LENGTH, sanitizeInitials } from '../game/leaderboard';
+import { Messages } from '../i18n';
+
+type InitialsEntryProps = {
+  // Starting letters, e.g. from the player's name
+  defaultInitials: string,
+  onSubmit: (initials: string) => void,
+  t: Messages
+};
+
+// --- Arcade-style Initials Entry (game-over screen) ---
+// Type letters, or move between slots and roll each letter up and down with the arrows / buttons
+const InitialsEntry = ({ defaultInitials, onSubmit, t }: InitialsEntryProps) => {
+  const [letters, setLetters] = useState(() => sanitizeInitials(defaultInitials).padEnd(INITIALS_LENGTH, 'A').split(''));
+  const [slot, setSlot] = useState(0);
+  const boxRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => boxRef.current?.focus(), []);
+
+  const roll = (index: number, by: number) => {
+    const next = [...letters];
+    const position = INITIALS_ALPHABET.indexOf(next[index]);
+    next[index] = INITIALS_ALPHABET[(position + by + INITIALS_ALPHABET.length) % INITIALS_ALPHABET.length];
+    setLetters(next);
+    setSlot(index);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    // Enter on a ▲/▼ button rolls that letter
+    if (e.target !== e.currentTarget && e.key === 'Enter') return;
+    const typed = sanitizeInitials(e.key.length === 1 ? e.key : '');
+    if (typed) {
+      const next = [...letters];
+      next[slot] = typed;
+      setLetters(next);
+      setSlot(Math.min(INITIALS_LENGTH - 1, slot + 1));
+    } else if (e.key === 'ArrowUp') {
+      roll(slot, 1);
+    } else if (e.key === 'ArrowDown') {
+      roll(slot, -1);
+    } else if (e.key === 'ArrowLeft' || e.key === 'Backspace') {
+      setSlot(Math.max(0, slot - 1));
+    } else if (e.key === 'ArrowRight') {
+      setSlot(Math.min(INITIALS_LENGTH - 1, slot + 1));
+    } else if (e.key === 'Enter') {
+      onSubmit(letters.join(''));
+    } else {
+      return;
+    }
+    e.preventDefault();
+  };
+
+  return (
+    <div className="retro-box" style={{marginBottom: '20px', textAlign: 'center', color: '#fff'}} ref={boxRef} role="group" aria-label={t.enterInitials} tabIndex={0} onKeyDown={handleKeyDown}>
+      <div style={{fontSize: '12px', color: '#f1c40f', marginBottom: '10px'}}>{t.newHighScore}</div>
+      <div style={{display: 'flex', justifyContent: 'center', gap: '10px'}}>
+        {letters.map((letter, i) => (
+          <div key={i} style={{display: 'flex', flexDirection: 'column', alignItems: 'center'}}>
+            <button className="btn diff-btn" style={{margin: 0}} aria-label={t.nextLetter} onClick={() => roll(i, 1)}>▲</button>
+            <div
+              onClick={() => setSlot(i)}
+              style={{fontSize: '28px', padding: '8px', borderBottom: `4px solid ${i === slot ? '#f1c40f' : 'transparent'}`}}>{letter}</div>
+            <button className="btn diff-btn" style={{margin: 0}} aria-label={t.previousLetter} onClick={() => roll(i, -1)}>▼</button>
+          </div>
+        ))}
+      </div>
+      <button className="btn" style={{marginTop: '15px'}} onClick={() => onSubmit(letters.join(''))}>{t.ok}</button>
+    </div>
+  );
+};
+
+export default InitialsEntry;
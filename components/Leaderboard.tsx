@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import { BOARD_MODES, BoardKey, getBoard, LeaderboardEntry, Leaderboards } from '../game/leaderboard';
+import { LevelDefinition } from '../game/levels';
+import { DIFFICULTIES } from '../game/save';
+import { levelName, Messages } from '../i18n';
+
+type LeaderboardTableProps = {
+  entries: LeaderboardEntry[],
+  // Row of the entry just added
+  highlight?: number,
+  t: Messages
+};
+
+type LeaderboardProps = {
+  levels: LevelDefinition[],
+  boards: Leaderboards,
+  initialKey: BoardKey,
+  onClose: () => void,
+  t: Messages
+};
+
+const cellStyle: React.CSSProperties = {padding: '4px 8px', textAlign: 'right'};
+
+// --- Top-10 Table (leaderboard screen & game-over screen) ---
+export const LeaderboardTable = ({ entries, highlight, t }: LeaderboardTableProps) => {
+  if (entries.length === 0) {
+    return <div style={{fontSize: '10px', color: '#95a5a6', margin: '20px 0'}}>{t.noScores}</div>;
+  }
+  return (
+    <table className="retro-box" style={{fontSize: '10px', color: '#fff', borderCollapse: 'collapse', marginBottom: '20px'}}>
+      <thead>
+        <tr style={{color: '#bdc3c7'}}>
+          <th style={cellStyle}>#</th>
+          <th style={{...cellStyle, textAlign: 'left'}}>{t.playerName}</th>
+          <th style={cellStyle}>{t.score}</th>
+          <th style={cellStyle}>{t.accuracy}</th>
+          <th style={cellStyle}>{t.time}</th>
+          <th style={cellStyle}>{t.date}</th>
+        </tr>
+      </thead>
+      <tbody>
+        {entries.map((entry, i) => (
+          <tr key={i} style={{color: i === highlight ? '#f1c40f' : undefined}}>
+            <td style={cellStyle}>{t.number(i + 1)}</td>
+            <td style={{...cellStyle, textAlign: 'left'}}>{entry.initials}</td>
+            <td style={cellStyle}>{t.number(entry.score)}</td>
+            <td style={cellStyle}>{t.number(Math.round(entry.accuracy * 100))}%</td>
+            <td style={cellStyle}>{t.seconds(Math.floor(entry.timeSurvived))}</td>
+            <td style={cellStyle}>{t.shortDate(entry.date)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+};
+
+// --- Leaderboard Screen (start screen) ---
+const Leaderboard = ({ levels, boards, initialKey, onClose, t }: LeaderboardProps) => {
+  const [key, setKey] = useState<BoardKey>(initialKey);
+
+  const tab = (isActive: boolean, label: string, onSelect: () => void, id: string | number) => (
+    <button key={id} role="tab" aria-selected={isActive} className={`btn diff-btn ${isActive ? 'active' : ''}`} onClick={onSelect}>{label}</button>
+  );
+
+  return (
+    <div className="screen" style={{zIndex: 105}} role="dialog" aria-modal="true" aria-labelledby="leaderboard-title">
+      <h1 id="leaderboard-title" style={{fontSize: '20px', marginBottom: '20px'}}>{t.leaderboard}</h1>
+      <div role="tablist" aria-label={t.level} style={{display: 'flex', justifyContent: 'center', flexWrap: 'wrap', gap: '10px 0', marginBottom: '10px'}}>
+        {levels.map((level, index) => tab(key.levelId === level.id, levelName(t, level, index), () => setKey({ ...key, levelId: level.id }), level.id))}
+      </div>
+      <div role="tablist" aria-label={t.selectDifficulty} style={{display: 'flex', justifyContent: 'center', marginBottom: '10px'}}>
+        {DIFFICULTIES.map(difficulty => tab(key.difficulty === difficulty, t.difficulties[difficulty], () => setKey({ ...key, difficulty }), difficulty))}
+      </div>
+      <div role="tablist" aria-label={t.winConditionLabel} style={{display: 'flex', justifyContent: 'center', marginBottom: '20px'}}>
+        {BOARD_MODES.map(mode => tab(key.mode === mode, t.winConditions[mode], () => setKey({ ...key, mode }), mode))}
+      </div>
+      <div role="tabpanel">
+        <LeaderboardTable entries={getBoard(boards, key)} t={t} />
+      </div>
+      <button className="btn" onClick={onClose}>{t.close}</button>
+    </div>
+  );
+};
+
+export default Leaderboard;
@@ -0,0 +1,47 @@
+import React from 'react';
+import { Problem } from '../game/problems';
+import { numberLineFor } from '../game/visualAids';
+import { Messages } from '../i18n';
+
+type NumberLineHintProps = {
+  problem: Problem,
+  t: Messages
+};
+
+const WIDTH = 320;
+// Fits in the gap under the answer field
+const HEIGHT = 36;
+const MARGIN = 12;
+const AXIS_Y = 22;
+
+// --- Hint Number Line (under the answer field in practice mode) ---
+// Hops start at the first number; the landing point is left unlabelled so the child still counts
+const NumberLineHint = ({ problem, t }: NumberLineHintProps) => {
+  const line = numberLineFor(problem);
+  if (!line) return null;
+  const x = (value: number) => MARGIN + (WIDTH - 2 * MARGIN) * value / line.max;
+  const tickEvery = line.max <= 20 ? 1 : 5;
+  const labelEvery = line.max <= 20 ? 5 : 10;
+  const ticks = Array.from({ length: line.max / tickEvery + 1 }, (_, i) => i * tickEvery);
+
+  return (
+    <svg className="number-line-hint" width={WIDTH} height={HEIGHT} viewBox={`0 0 ${WIDTH} ${HEIGHT}`} role="img" aria-label={t.numberLineHint(problem.text)}>
+      <line x1={x(0)} y1={AXIS_Y} x2={x(line.max)} y2={AXIS_Y} stroke="#fff" strokeWidth={2} />
+      {ticks.map(value => (
+        <g key={value}>
+          <line x1={x(value)} y1={AXIS_Y - 4} x2={x(value)} y2={AXIS_Y + 4} stroke="#fff" strokeWidth={value % labelEvery === 0 ? 2 : 1} />
+          {value % labelEvery === 0 && <text x={x(value)} y={HEIGHT - 2} fill="#fff" fontSize={8} textAnchor="middle">{value}</text>}
+        </g>
+      ))}
+      <circle cx={x(line.start)} cy={AXIS_Y} r={4} fill="var(--color-warning)" />
+      {line.hops.map((hop, i) => {
+        const from = x(hop.from);
+        const to = x(hop.to);
+        const rise = Math.min(2 * (AXIS_Y - 4), 12 + Math.abs(to - from) / 2);
+        return <path key={i} d={`M ${from} ${AXIS_Y} Q ${(from + to) / 2} ${AXIS_Y - rise} ${to} ${AXIS_Y}`} fill="none" stroke="var(--color-good)" strokeWidth={2} />;
+      })}
+    </svg>
+  );
+};
+
+export default NumberLineHint;
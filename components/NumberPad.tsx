@@ -0,0 +1,34 @@
+import React from 'react';
+import { Messages } from '../i18n';
+
+type NumberPadProps = {
+  onDigit: (digit: string) => void,
+  onBackspace: () => void,
+  onCast: () => void,
+  t: Messages
+};
+
+// Laid out like a calculator, top row first
+const DIGITS = ['7', '8', '9', '4', '5', '6', '1', '2', '3'];
+
+// --- On-screen Number Pad (touch devices) ---
+// Buttons act on pointer down and never take focus, so the answer field keeps it and no OS keyboard opens
+const NumberPad = ({ onDigit, onBackspace, onCast, t }: NumberPadProps) => {
+  const press = (action: () => void) => (e: React.PointerEvent) => {
+    e.preventDefault();
+    action();
+  };
+
+  return (
+    <div className="number-pad">
+      {DIGITS.map(digit => (
+        <button key={digit} className="btn" onPointerDown={press(() => onDigit(digit))}>{digit}</button>
+      ))}
+      <button className="btn" style={{background: '#7f8c8d'}} aria-label={t.backspace} onPointerDown={press(onBackspace)}>⌫</button>
+      <button className="btn" onPointerDown={press(() => onDigit('0'))}>0</button>
+      <button className="btn" style={{background: '#27ae60'}} onPointerDown={press(onCast)}>{t.cast}</button>
+    </div>
+  );
+};
+
+export default NumberPad;
@@ -0,0 +1,186 @@
+import React, { useState } from 'react';
+import {
+  createRule, decodeProblemSet, encodeProblemSet, expandProblemSet, MAX_RULE_NUMBER, parseProblemText, ProblemRule,
+  problemSetUrl, ProblemSet, RULE_TYPES, ruleValue, RuleType, SET_SPEEDS, SPAWN_SECONDS
+} from '../game/problemSets';
+import { describeError, Messages } from '../i18n';
+
+type ProblemSetEditorProps = {
+  set: ProblemSet | null,
+  onSave: (set: ProblemSet) => void,
+  onPlay: (set: ProblemSet) => void,
+  onClose: () => void,
+  t: Messages
+};
+
+type SetSpeed = keyof typeof SET_SPEEDS;
+
+const SPEEDS = Object.keys(SET_SPEEDS) as SetSpeed[];
+
+const labelStyle: React.CSSProperties = {fontSize: '10px', color: '#bdc3c7', margin: '15px 0 10px', textAlign: 'center'};
+
+// --- Teacher Problem Set Editor (start screen) ---
+const ProblemSetEditor = ({ set, onSave, onPlay, onClose, t }: ProblemSetEditorProps) => {
+  const [name, setName] = useState(set?.name || '');
+  const [rules, setRules] = useState<ProblemRule[]>(set?.rules || []);
+  const [problemText, setProblemText] = useState(set ? set.problems.map(p => p.text).join('\n') : '');
+  const [spawnSeconds, setSpawnSeconds] = useState(set?.spawnSeconds || 4);
+  const [enemySpeed, setEnemySpeed] = useState(set?.enemySpeed || SET_SPEEDS.slow);
+  const [ruleType, setRuleType] = useState<RuleType>('make');
+  const [ruleInput, setRuleInput] = useState('10');
+  const [codeInput, setCodeInput] = useState('');
+  const [message, setMessage] = useState<{ text: string, isError: boolean } | null>(null);
+
+  const lines = problemText.split('\n').map(line => line.trim()).filter(Boolean);
+  const parsed = lines.map(line => ({ line, problem: parseProblemText(line) }));
+  const invalidLines = parsed.filter(p => !p.problem).map(p => p.line);
+  const draft: ProblemSet = {
+    name: name.trim(),
+    rules,
+    problems: parsed.filter(p => p.problem).map(p => p.problem),
+    spawnSeconds,
+    enemySpeed
+  };
+  const problemCount = expandProblemSet(draft).length;
+  const isPlayable = problemCount > 0 && invalidLines.length === 0;
+  const code = isPlayable ? encodeProblemSet(draft) : '';
+
+  const addRule = () => {
+    const value = parseInt(ruleInput);
+    // "Make 1" has no pairs of positive numbers
+    if (isNaN(value) || value < (ruleType === 'make' ? 2 : 1) || value > MAX_RULE_NUMBER) return;
+    setRules([...rules, createRule(ruleType, value)]);
+  };
+
+  const loadCode = () => {
+    try {
+      const loaded = decodeProblemSet(codeInput);
+      setName(loaded.name);
+      setRules(loaded.rules);
+      setProblemText(loaded.problems.map(p => p.text).join('\n'));
+      setSpawnSeconds(loaded.spawnSeconds);
+      setEnemySpeed(loaded.enemySpeed);
+      setCodeInput('');
+      setMessage(null);
+    } catch (err) {
+      setMessage({ text: describeError(t, err, t.invalidSetCode), isError: true });
+    }
+  };
+
+  const copyLink = () => {
+    navigator.clipboard?.writeText(problemSetUrl(code)).then(
+      () => setMessage({ text: t.linkCopied, isError: false }),
+      () => setMessage({ text: problemSetUrl(code), isError: false })
+    );
+  };
+
+  return (
+    <div className="screen" style={{zIndex: 105}} role="dialog" aria-modal="true" aria-labelledby="problem-set-title">
+      <h1 id="problem-set-title" style={{fontSize: '20px', marginBottom: '10px'}}>{t.problemSets}</h1>
+
+      <input
+        className="profile-name-input"
+        placeholder={t.setName}
+        aria-label={t.setName}
+        maxLength={20}
+        value={name}
+        onChange={e => setName(e.target.value)}
+      />
+
+      <div style={labelStyle}>{t.rules}</div>
+      <div style={{display: 'flex', justifyContent: 'center', flexWrap: 'wrap', gap: '10px 0'}}>
+        {rules.map((rule, i) => (
+          <button
+            key={i}
+            className="btn diff-btn active"
+            aria-label={`${t.removeRule}: ${t.ruleLabel(rule.type, ruleValue(rule))}`}
+            onClick={() => setRules(rules.filter((_, j) => j !== i))}>{t.ruleLabel(rule.type, ruleValue(rule))} ✕</button>
+        ))}
+      </div>
+      <div style={{display: 'flex', justifyContent: 'center', alignItems: 'center', flexWrap: 'wrap', gap: '10px 0', marginTop: '10px'}}>
+        {RULE_TYPES.map(type => (
+          <button
+            key={type}
+            className={`btn diff-btn ${ruleType === type ? 'active' : ''}`}
+            onClick={() => setRuleType(type)}>{t.ruleTypes[type]}</button>
+        ))}
+        <input
+          type="number"
+          className="profile-name-input"
+          style={{width: '70px', margin: '0 5px'}}
+          aria-label={t.ruleNumber}
+          min={1}
+          max={MAX_RULE_NUMBER}
+          value={ruleInput}
+          onChange={e => setRuleInput(e.target.value)}
+          onKeyDown={e => { if (e.key === 'Enter') addRule(); }}
+        />
+        <button className="btn diff-btn" onClick={addRule}>{t.addRule}</button>
+      </div>
+
+      <div style={labelStyle}>{t.setProblems}</div>
+      <textarea
+        className="profile-name-input"
+        style={{width: '280px', height: '100px', textAlign: 'left', resize: 'vertical'}}
+        aria-label={t.setProblems}
+        placeholder={'7 + 3\n4 × ? = 28'}
+        value={problemText}
+        onChange={e => setProblemText(e.target.value)}
+      />
+      {invalidLines.length > 0 && (
+        <div role="alert" style={{marginTop: '10px', fontSize: '10px', color: 'var(--color-bad)', textAlign: 'center'}}>{t.invalidProblems(invalidLines.join(', '))}</div>
+      )}
+
+      <div style={labelStyle}>{t.spawnEvery}</div>
+      <div style={{display: 'flex', justifyContent: 'center'}}>
+        {SPAWN_SECONDS.map(seconds => (
+          <button
+            key={seconds}
+            className={`btn diff-btn ${spawnSeconds === seconds ? 'active' : ''}`}
+            onClick={() => setSpawnSeconds(seconds)}>{t.seconds(seconds)}</button>
+        ))}
+      </div>
+      <div style={labelStyle}>{t.enemySpeed}</div>
+      <div style={{display: 'flex', justifyContent: 'center'}}>
+        {SPEEDS.map(speed => (
+          <button
+            key={speed}
+            className={`btn diff-btn ${enemySpeed === SET_SPEEDS[speed] ? 'active' : ''}`}
+            onClick={() => setEnemySpeed(SET_SPEEDS[speed])}>{t.setSpeeds[speed]}</button>
+        ))}
+      </div>
+
+      <div style={{...labelStyle, color: 'var(--color-good)'}}>{t.problemCount(problemCount)}</div>
+      {code && (
+        <div style={{display: 'flex', justifyContent: 'center', alignItems: 'center', flexWrap: 'wrap'}}>
+          <input className="profile-name-input" style={{width: '220px', fontSize: '10px'}} readOnly aria-label={t.shareCode} value={code} onFocus={e => e.target.select()} />
+          <button className="btn diff-btn" onClick={copyLink}>{t.copyLink}</button>
+        </div>
+      )}
+
+      <div style={{display: 'flex', justifyContent: 'center', alignItems: 'center', flexWrap: 'wrap', marginTop: '15px'}}>
+        <input
+          className="profile-name-input"
+          style={{width: '220px', fontSize: '10px'}}
+          placeholder={t.shareCode}
+          aria-label={t.shareCode}
+          value={codeInput}
+          onChange={e => setCodeInput(e.target.value)}
+          onKeyDown={e => { if (e.key === 'Enter') loadCode(); }}
+        />
+        <button className="btn diff-btn" disabled={!codeInput.trim()} onClick={loadCode}>{t.loadCode}</button>
+      </div>
+      {message && (
+        <div role="status" style={{marginTop: '10px', fontSize: '10px', textAlign: 'center', wordBreak: 'break-all', maxWidth: '90%', color: message.isError ? 'var(--color-bad)' : 'var(--color-good)'}}>{message.text}</div>
+      )}
+
+      <div style={{display: 'flex', justifyContent: 'center', flexWrap: 'wrap', marginTop: '10px'}}>
+        <button className="btn" disabled={!isPlayable} onClick={() => onPlay(draft)}>{t.play}</button>
+        <button className="btn" disabled={!isPlayable} onClick={() => onSave(draft)}>{t.ok}</button>
+        <button className="btn" onClick={onClose}>{t.cancel}</button>
+      </div>
+    </div>
+  );
+};
+
+export default ProblemSetEditor;
@@ -0,0 +1,75 @@
+import React, { useState } from 'react';
+import { AVATARS, PlayerProfile } from '../game/save';
+import { Messages } from '../i18n';
+
+type ProfileSelectorProps = {
+  profiles: PlayerProfile[],
+  activeProfileId: string,
+  onSelect: (profileId: string) => void,
+  onCreate: (name: string, avatar: string) => void,
+  onDelete: (profileId: string) => void,
+  t: Messages
+};
+
+// --- Player Profile Picker (start screen) ---
+const ProfileSelector = ({ profiles, activeProfileId, onSelect, onCreate, onDelete, t }: ProfileSelectorProps) => {
+  const [isAdding, setIsAdding] = useState(false);
+  const [name, setName] = useState('');
+  const [avatar, setAvatar] = useState(AVATARS[0]);
+
+  const submit = () => {
+    if (!name.trim()) return;
+    onCreate(name, avatar);
+    setName('');
+    setIsAdding(false);
+  };
+
+  if (isAdding) {
+    return (
+      <div style={{marginBottom: '20px', display: 'flex', flexDirection: 'column', alignItems: 'center', gap: '10px'}}>
+        <input
+          className="profile-name-input"
+          placeholder={t.playerName}
+          aria-label={t.playerName}
+          maxLength={12}
+          value={name}
+          autoFocus
+          onChange={e => setName(e.target.value.toUpperCase())}
+          onKeyDown={e => { if (e.key === 'Enter') submit(); }}
+        />
+        <div style={{display: 'flex', justifyContent: 'center'}}>
+          {AVATARS.map(a => (
+            <button key={a} className={`btn diff-btn ${avatar === a ? 'active' : ''}`} style={{fontSize: '20px'}} onClick={() => setAvatar(a)}>{a}</button>
+          ))}
+        </div>
+        <div style={{display: 'flex', justifyContent: 'center'}}>
+          <button className="btn diff-btn" onClick={submit}>{t.ok}</button>
+          <button className="btn diff-btn" onClick={() => setIsAdding(false)}>{t.cancel}</button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div style={{marginBottom: '20px'}}>
+      <div style={{fontSize: '10px', color: '#bdc3c7', marginBottom: '10px', textAlign: 'center'}}>{t.player}</div>
+      <div style={{display: 'flex', justifyContent: 'center', flexWrap: 'wrap'}}>
+        {profiles.map(profile => (
+          <button
+            key={profile.id}
+            className={`btn diff-btn ${profile.id === activeProfileId ? 'active' : ''}`}
+            onClick={() => onSelect(profile.id)}>{profile.avatar} {profile.name}</button>
+        ))}
+        <button className="btn diff-btn" aria-label={t.addPlayer} onClick={() => setIsAdding(true)}>+</button>
+        {profiles.length > 1 && (
+          <button
+            className="btn diff-btn"
+            aria-label={t.deletePlayer}
+            onClick={() => { if (window.confirm(t.confirmDeletePlayer)) onDelete(activeProfileId); }}>✕</button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ProfileSelector;
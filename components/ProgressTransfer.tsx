@@ -0,0 +1,51 @@
+import React, { useRef, useState } from 'react';
+import { buildProgressExport, importProgress, parseProgressExport, problemsToCsv, sessionsToCsv } from '../game/progress';
+import { SaveData } from '../game/save';
+import { describeError, Messages } from '../i18n';
+import { dateStamp, downloadFile } from './download';
+
+type ProgressTransferProps = {
+  save: SaveData,
+  onImport: (data: SaveData) => void,
+  t: Messages
+};
+
+// --- Export / Import buttons (start & game-over screens) ---
+const ProgressTransfer = ({ save, onImport, t }: ProgressTransferProps) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [message, setMessage] = useState<{ text: string, isError: boolean } | null>(null);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const incoming = parseProgressExport(JSON.parse(await file.text()));
+      const { data, summary } = importProgress(save, incoming);
+      onImport(data);
+      setMessage({
+        text: t.importSummary(summary.profilesAdded, summary.sessionsAdded, summary.duplicatesSkipped, summary.sessionsDropped),
+        isError: false
+      });
+    } catch (err) {
+      setMessage({ text: describeError(t, err, t.invalidProgressFile), isError: true });
+    }
+  };
+
+  return (
+    <div style={{marginTop: '20px'}}>
+      <div style={{display: 'flex', justifyContent: 'center', flexWrap: 'wrap'}}>
+        <button className="btn diff-btn" onClick={() => downloadFile(`magic-math-progress-${dateStamp()}.json`, JSON.stringify(buildProgressExport(save), null, 2), 'application/json')}>{t.exportJson}</button>
+        <button className="btn diff-btn" onClick={() => downloadFile(`magic-math-sessions-${dateStamp()}.csv`, sessionsToCsv(save), 'text/csv')}>{t.csvGames}</button>
+        <button className="btn diff-btn" onClick={() => downloadFile(`magic-math-problems-${dateStamp()}.csv`, problemsToCsv(save), 'text/csv')}>{t.csvProblems}</button>
+        <input type="file" accept="application/json,.json" className="hidden" ref={fileInputRef} onChange={handleFile} />
+        <button className="btn diff-btn" onClick={() => fileInputRef.current?.click()}>{t.importProgress}</button>
+      </div>
+      {message && (
+        <div style={{marginTop: '10px', fontSize: '10px', textAlign: 'center', color: message.isError ? 'var(--color-bad)' : 'var(--color-good)'}} role="status">{message.text}</div>
+      )}
+    </div>
+  );
+};
+
+export default ProgressTransfer;
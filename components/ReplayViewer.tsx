@@ -0,0 +1,225 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { FALLBACK_BACKGROUND, resolveBackground } from '../assets';
+import { Enemy, FIXED_STEP, GameEvent, MAX_FRAME_TIME } from '../game/engine';
+import { Recording, ReplayPlayer } from '../game/replay';
+import { createRenderer, EnemyColors, GameRenderer, RendererType, RenderTheme } from '../renderers';
+import { Messages } from '../i18n';
+import { dateStamp, downloadFile } from './download';
+
+type ReplayViewerProps = {
+  recording: Recording,
+  rendererType: RendererType,
+  theme: RenderTheme,
+  colors: EnemyColors,
+  onClose: () => void,
+  t: Messages
+};
+
+const SPEEDS = [1, 2];
+// Largest on-screen width of the replayed playfield
+const VIEW_WIDTH = 640;
+// Kill markers jump to a little before the kill, to see the answer being typed
+const KILL_LEAD_IN = 3 / FIXED_STEP;
+
+// --- Replay Viewer (game-over & start screens) ---
+const ReplayViewer = ({ recording, rendererType, theme, colors, onClose, t }: ReplayViewerProps) => {
+  const [isPlaying, setIsPlaying] = useState(true);
+  const [speed, setSpeed] = useState(1);
+  const frameRef = useRef<HTMLDivElement>(null);
+  const stageRef = useRef<HTMLDivElement>(null);
+  const areaRef = useRef<HTMLDivElement>(null);
+  const scrubRef = useRef<HTMLInputElement>(null);
+  const timeRef = useRef<HTMLSpanElement>(null);
+  const scoreRef = useRef<HTMLSpanElement>(null);
+  const typedRef = useRef<HTMLDivElement>(null);
+
+  // Read by the animation loop, which would otherwise see stale state
+  const playback = useRef({
+    player: null as ReplayPlayer | null,
+    renderer: null as GameRenderer | null,
+    isPlaying: true,
+    speed: 1,
+    lastTimestamp: null as number | null,
+    // Fraction of a step carried over to the next frame
+    carry: 0,
+    frameId: 0
+  });
+
+  const explodeAt = (enemy: Enemy, icon: string) => {
+    const { renderer } = playback.current;
+    const center = renderer?.getEnemyCenter(enemy);
+    if (center && !theme.reducedMotion) renderer.explode(center, icon, 60);
+  };
+
+  const handleEvent = (event: GameEvent) => {
+    const { renderer } = playback.current;
+    if (!renderer) return;
+    switch (event.type) {
+      case 'spawn':
+        renderer.addEnemy(event.enemy, colors);
+        break;
+      case 'hit':
+        renderer.updateEnemyStage(event.enemy);
+        break;
+      case 'kill':
+        explodeAt(event.enemy, '💥');
+        renderer.removeEnemy(event.enemy.id);
+        break;
+      case 'miss':
+        if (recording.winCondition !== 'sudden-death') renderer.removeEnemy(event.enemy.id);
+        break;
+      case 'spell':
+        event.killed.forEach(enemy => {
+          explodeAt(enemy, '🔥');
+          renderer.removeEnemy(enemy.id);
+        });
+        break;
+    }
+  };
+
+  // Enemies and effects are redrawn from the engine's state after a jump
+  const seek = (step: number) => {
+    const { player, renderer } = playback.current;
+    if (!player || !renderer) return;
+    player.seek(step);
+    renderer.clear();
+    player.engine.state.enemies.forEach(enemy => renderer.addEnemy(enemy, colors));
+    playback.current.carry = 0;
+  };
+
+  const draw = (timestamp: number) => {
+    const { player, renderer } = playback.current;
+    if (!player || !renderer) return;
+    const { bounds, state } = player.engine;
+    if (frameRef.current && stageRef.current) {
+      const scale = frameRef.current.clientWidth / bounds.width;
+      frameRef.current.style.height = `${bounds.height * scale}px`;
+      stageRef.current.style.width = `${bounds.width}px`;
+      stageRef.current.style.height = `${bounds.height}px`;
+      stageRef.current.style.transform = `scale(${scale})`;
+    }
+    renderer.render(state.enemies, { frozen: state.freezeTimer > 0, slowed: state.slowTimer > 0 }, timestamp);
+    if (scrubRef.current) scrubRef.current.value = player.step.toString();
+    if (timeRef.current) timeRef.current.innerText = t.responseTime(player.step * FIXED_STEP);
+    if (scoreRef.current) scoreRef.current.innerText = t.number(state.score);
+    if (typedRef.current) typedRef.current.innerText = player.typed || '???';
+  };
+
+  useEffect(() => {
+    const current = playback.current;
+    const renderer = createRenderer(rendererType);
+    renderer.setTheme(theme);
+    if (areaRef.current) renderer.mount(areaRef.current);
+    const player = new ReplayPlayer(recording);
+    player.listener = handleEvent;
+    current.renderer = renderer;
+    current.player = player;
+
+    const frame = (timestamp: number) => {
+      if (current.isPlaying && current.lastTimestamp !== null) {
+        current.carry += Math.min((timestamp - current.lastTimestamp) / 1000, MAX_FRAME_TIME) * current.speed / FIXED_STEP;
+        const steps = Math.floor(current.carry);
+        current.carry -= steps;
+        player.advanceTo(player.step + steps);
+        if (player.isFinished) {
+          current.isPlaying = false;
+          setIsPlaying(false);
+        }
+      }
+      current.lastTimestamp = timestamp;
+      draw(timestamp);
+      current.frameId = requestAnimationFrame(frame);
+    };
+    current.frameId = requestAnimationFrame(frame);
+
+    return () => {
+      cancelAnimationFrame(current.frameId);
+      renderer.destroy();
+      current.renderer = null;
+      current.player = null;
+    };
+  }, [recording]);
+
+  useEffect(() => {
+    playback.current.isPlaying = isPlaying;
+    playback.current.renderer?.setPaused(!isPlaying);
+  }, [isPlaying]);
+
+  useEffect(() => {
+    playback.current.speed = speed;
+  }, [speed]);
+
+  const togglePlaying = () => {
+    // Playing a finished replay starts it over
+    if (!isPlaying && playback.current.player?.isFinished) seek(0);
+    setIsPlaying(!isPlaying);
+  };
+
+  const save = () => {
+    const player = recording.player.replace(/[^\w-]+/g, '-').toLowerCase() || 'player';
+    downloadFile(`magic-math-replay-${player}-${dateStamp()}.json`, JSON.stringify(recording), 'application/json');
+  };
+
+  return (
+    <div className="screen" style={{zIndex: 105, background: '#2c3e50'}} role="dialog" aria-modal="true" aria-labelledby="replay-title">
+      <h1 id="replay-title" style={{fontSize: '20px', marginBottom: '10px'}}>{t.replay}</h1>
+      <div style={{fontSize: '10px', color: '#bdc3c7', marginBottom: '10px', textAlign: 'center'}}>
+        {recording.player} · {t.shortDate(recording.recordedAt)} · {t.difficulties[recording.difficulty]} · {t.winConditions[recording.winCondition]}
+      </div>
+
+      <div ref={frameRef} style={{position: 'relative', width: `min(90vw, ${VIEW_WIDTH}px)`, overflow: 'hidden', border: '4px solid #fff', flexShrink: 0}}>
+        <div ref={stageRef} style={{position: 'absolute', top: 0, left: 0, transformOrigin: '0 0'}}>
+          <img
+            src={resolveBackground(recording.level.background)}
+            alt=""
+            onError={e => { e.currentTarget.src = FALLBACK_BACKGROUND; }}
+            style={{position: 'absolute', inset: 0, width: '100%', height: '100%', objectFit: 'cover'}}
+          />
+          <div ref={areaRef} aria-hidden="true" style={{position: 'absolute', top: 0, left: 0, width: '100%', height: '100%', overflow: 'hidden'}}></div>
+        </div>
+        <div className="retro-box" style={{position: 'absolute', top: '5px', left: '5px', fontSize: '10px', padding: '5px'}}>
+          {t.score}: <span ref={scoreRef}>0</span>
+        </div>
+      </div>
+
+      <div ref={typedRef} className="retro-box" aria-label={t.answer} style={{margin: '10px 0', minWidth: '120px', textAlign: 'center', fontSize: '16px', color: '#f1c40f'}}>???</div>
+
+      <div style={{position: 'relative', width: `min(90vw, ${VIEW_WIDTH}px)`, height: '12px'}}>
+        {recording.steps > 0 && recording.kills.map((kill, i) => (
+          <button
+            key={i}
+            title={kill.text}
+            aria-label={t.jumpTo(kill.text)}
+            onClick={() => seek(Math.max(0, kill.step - KILL_LEAD_IN))}
+            style={{position: 'absolute', left: `${100 * kill.step / recording.steps}%`, width: '4px', height: '12px', padding: 0, border: 'none', background: 'var(--color-good)', cursor: 'pointer'}}
+          />
+        ))}
+      </div>
+      <input
+        ref={scrubRef}
+        type="range"
+        aria-label={t.replayPosition}
+        min={0}
+        max={recording.steps}
+        defaultValue={0}
+        onChange={e => seek(parseInt(e.target.value))}
+        style={{width: `min(90vw, ${VIEW_WIDTH}px)`, margin: '5px 0 10px'}}
+      />
+
+      <div style={{display: 'flex', justifyContent: 'center', alignItems: 'center', flexWrap: 'wrap'}}>
+        <button className="btn diff-btn" aria-label={isPlaying ? t.pause : t.play} onClick={togglePlaying}>{isPlaying ? '||' : '▶'}</button>
+        {SPEEDS.map(s => (
+          <button key={s} className={`btn diff-btn ${speed === s ? 'active' : ''}`} onClick={() => setSpeed(s)}>{t.speed(s)}</button>
+        ))}
+        <span style={{fontSize: '10px', margin: '0 10px'}}><span ref={timeRef}>0</span> / {t.responseTime(recording.steps * FIXED_STEP)}</span>
+      </div>
+
+      <div style={{display: 'flex', justifyContent: 'center', flexWrap: 'wrap', marginTop: '10px'}}>
+        <button className="btn" onClick={save}>{t.saveReplay}</button>
+        <button className="btn" onClick={onClose}>{t.close}</button>
+      </div>
+    </div>
+  );
+};
+
+export default ReplayViewer;
@@ -0,0 +1,43 @@
+import React from 'react';
+import { AudioChannel, AudioSettings } from '../audio/soundManager';
+import { Messages } from '../i18n';
+
+type SoundSettingsProps = {
+  settings: AudioSettings,
+  onChange: (channel: AudioChannel, changes: Partial<AudioSettings[AudioChannel]>) => void,
+  t: Messages
+};
+
+const CHANNELS: AudioChannel[] = ['music', 'sfx'];
+
+// --- Music / SFX volume and mute (start screen) ---
+const SoundSettings = ({ settings, onChange, t }: SoundSettingsProps) => (
+  <div style={{marginTop: '20px'}}>
+    <div style={{fontSize: '10px', color: '#bdc3c7', marginBottom: '10px', textAlign: 'center'}}>{t.sound}</div>
+    {CHANNELS.map(channel => {
+      const { volume, muted } = settings[channel];
+      return (
+        <div key={channel} style={{display: 'flex', justifyContent: 'center', alignItems: 'center', gap: '10px', marginBottom: '10px', fontSize: '10px'}}>
+          <span style={{width: '90px', textAlign: 'right'}}>{t.channels[channel]}</span>
+          <button
+            className={`btn diff-btn ${muted ? '' : 'active'}`}
+            aria-label={muted ? t.unmute : t.mute}
+            aria-pressed={muted}
+            onClick={() => onChange(channel, { muted: !muted })}>{muted ? '🔇' : '🔊'}</button>
+          <input
+            type="range"
+            className="volume-slider"
+            min={0}
+            max={100}
+            value={Math.round(volume * 100)}
+            aria-label={t.volume(t.channels[channel])}
+            disabled={muted}
+            onChange={e => onChange(channel, { volume: Number(e.target.value) / 100 })}
+          />
+        </div>
+      );
+    })}
+  </div>
+);
+
+export default SoundSettings;
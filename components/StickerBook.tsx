@@ -0,0 +1,57 @@
+import React from 'react';
+import { ACHIEVEMENT_IDS, AchievementId, AchievementProgress, ACHIEVEMENTS } from '../game/achievements';
+import { Messages } from '../i18n';
+
+type AchievementToastProps = {
+  id: AchievementId,
+  t: Messages
+};
+
+type StickerBookProps = {
+  progress: AchievementProgress,
+  onClose: () => void,
+  t: Messages
+};
+
+// --- Unlock Toast (during play & game-over screen) ---
+export const AchievementToast = ({ id, t }: AchievementToastProps) => (
+  <div className="retro-box achievement-toast" style={{display: 'flex', alignItems: 'center', gap: '10px', fontSize: '10px', color: '#fff'}}>
+    <span aria-hidden="true" style={{fontSize: '28px'}}>{ACHIEVEMENTS[id].sticker}</span>
+    <div>
+      <div style={{color: '#f1c40f', marginBottom: '5px'}}>{t.stickerUnlocked}</div>
+      <div>{t.achievements[id].name}</div>
+    </div>
+  </div>
+);
+
+// --- Sticker Book (start screen) ---
+const StickerBook = ({ progress, onClose, t }: StickerBookProps) => {
+  const collected = ACHIEVEMENT_IDS.filter(id => id in progress.unlocked).length;
+
+  return (
+    <div className="screen" style={{zIndex: 105}} role="dialog" aria-modal="true" aria-labelledby="sticker-book-title">
+      <h1 id="sticker-book-title" style={{fontSize: '20px', marginBottom: '10px'}}>{t.stickerBook}</h1>
+      <div style={{fontSize: '10px', color: '#bdc3c7', marginBottom: '20px'}}>{t.stickerCount(collected, ACHIEVEMENT_IDS.length)}</div>
+      <ul style={{listStyle: 'none', padding: 0, margin: '0 0 20px', display: 'grid', gridTemplateColumns: 'repeat(auto-fill, minmax(150px, 1fr))', gap: '10px', width: 'min(90vw, 640px)'}}>
+        {ACHIEVEMENT_IDS.map(id => {
+          const unlockedAt = progress.unlocked[id];
+          const isUnlocked = unlockedAt !== undefined;
+          const counter = !isUnlocked && ACHIEVEMENTS[id].progress?.(progress);
+          return (
+            <li key={id} className="retro-box" style={{padding: '10px', fontSize: '8px', lineHeight: '1.6', color: '#fff', textAlign: 'center', opacity: isUnlocked ? 1 : 0.6}}>
+              <div aria-hidden="true" style={{fontSize: '36px', marginBottom: '5px', filter: isUnlocked ? 'none' : 'grayscale(1) brightness(0.4)'}}>{ACHIEVEMENTS[id].sticker}</div>
+              <div style={{color: isUnlocked ? '#f1c40f' : '#bdc3c7', fontSize: '10px', marginBottom: '5px'}}>{t.achievements[id].name}</div>
+              <div>{t.achievements[id].description}</div>
+              <div style={{marginTop: '5px', color: isUnlocked ? 'var(--color-good)' : '#95a5a6'}}>
+                {isUnlocked ? t.shortDate(unlockedAt) : counter ? `${t.number(counter[0])}/${t.number(counter[1])}` : t.notYet}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+      <button className="btn" onClick={onClose}>{t.close}</button>
+    </div>
+  );
+};
+
+export default StickerBook;
@@ -0,0 +1,406 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { FALLBACK_BACKGROUND, resolveBackground } from '../assets';
+import { soundManager } from '../audio/soundManager';
+import { AUTO_CAST_DELAY, CASTLE_MAX_HP, CASTLE_OFFSET, Enemy, GameEngine, GameEvent } from '../game/engine';
+import { LevelDefinition } from '../game/levels';
+import { LANDSCAPE_PLAYFIELD, PORTRAIT_PLAYFIELD, WIZARD_OFFSET } from '../game/playfield';
+import { Operation } from '../game/problems';
+import { randomSeed } from '../game/rng';
+import { PlayerMode, readPlayerKey, TWO_PLAYER_WIN_CONDITION } from '../game/twoPlayer';
+import { createRenderer, EnemyColors, GameRenderer, Point, RendererType, RenderTheme } from '../renderers';
+import { Messages } from '../i18n';
+import NumberPad from './NumberPad';
+
+type TwoPlayerGameProps = {
+  mode: Exclude<PlayerMode, 'solo'>,
+  level: LevelDefinition,
+  difficultyMultiplier: number,
+  operations: Operation[],
+  // false: answers are only cast with Enter / CAST
+  autoCast: boolean,
+  showNumberPad: boolean,
+  rendererType: RendererType,
+  theme: RenderTheme,
+  colors: EnemyColors,
+  onExit: () => void,
+  t: Messages
+};
+
+// One engine and renderer per playfield: two in versus, one shared in co-op
+type Field = {
+  engine: GameEngine,
+  renderer: GameRenderer,
+  // Minions sent over by the other player; killing these doesn't send one back
+  sentIds: Set<number>
+};
+
+type Player = {
+  field: number,
+  typed: string,
+  score: number,
+  autoCastTimer: number
+};
+
+type RoundResult = { winner: number | null, scores: number[] };
+
+const PLAYERS = [0, 1];
+const WIZARDS = ['🧙‍♂️', '🧙‍♀️'];
+const PLAYER_COLORS = ['#3498db', '#e67e22'];
+const COUNTDOWN_SECONDS = 3;
+// Where each wizard stands across the shared co-op field
+const COOP_WIZARD_X = [0.25, 0.75];
+
+// --- Two-Player Game (start screen) ---
+const TwoPlayerGame = ({ mode, level, difficultyMultiplier, operations, autoCast, showNumberPad, rendererType, theme, colors, onExit, t }: TwoPlayerGameProps) => {
+  const [round, setRound] = useState(0);
+  const [countdown, setCountdown] = useState<number | null>(null);
+  const [result, setResult] = useState<RoundResult | null>(null);
+  const bounds = mode === 'versus' ? PORTRAIT_PLAYFIELD : LANDSCAPE_PLAYFIELD;
+  const fieldIndexes = mode === 'versus' ? PLAYERS : [0];
+
+  const frameRefs = useRef<(HTMLDivElement | null)[]>([]);
+  const stageRefs = useRef<(HTMLDivElement | null)[]>([]);
+  const areaRefs = useRef<(HTMLDivElement | null)[]>([]);
+  const castleRefs = useRef<(HTMLSpanElement | null)[]>([]);
+  const scoreRefs = useRef<(HTMLSpanElement | null)[]>([]);
+  const inputRefs = useRef<(HTMLDivElement | null)[]>([]);
+
+  // Read by the animation loop and the key handler, which would otherwise see stale state
+  const game = useRef({
+    fields: [] as Field[],
+    players: [] as Player[],
+    isPlaying: false,
+    // Player whose answer is being submitted, so their wizard fires the shot
+    shooter: 0,
+    countdownTimer: 0,
+    frameId: 0
+  });
+
+  const wizardPosition = (player: number): Point => {
+    const x = mode === 'versus' ? bounds.width / 2 : bounds.width * COOP_WIZARD_X[player];
+    return { x, y: bounds.height - CASTLE_OFFSET };
+  };
+
+  const shootAt = (field: Field, enemy: Enemy) => {
+    const center = field.renderer.getEnemyCenter(enemy);
+    if (!center) return;
+    soundManager.playSFX('shoot');
+    field.renderer.shootProjectile(wizardPosition(game.current.shooter), center, {
+      fireball: false,
+      onImpact: () => {
+        soundManager.playSFX('hit');
+        if (!theme.reducedMotion) field.renderer.explode(center, '💥', 60);
+      }
+    });
+  };
+
+  const showCastle = (fieldIndex: number) => {
+    const hp = game.current.fields[fieldIndex].engine.state.castleHp;
+    const castle = castleRefs.current[fieldIndex];
+    if (castle) castle.innerText = '❤️'.repeat(hp) + '🖤'.repeat(CASTLE_MAX_HP - hp);
+  };
+
+  const showPlayer = (player: number) => {
+    const { typed, score } = game.current.players[player];
+    const input = inputRefs.current[player];
+    const scoreBox = scoreRefs.current[player];
+    if (input) input.innerText = typed || '???';
+    if (scoreBox) scoreBox.innerText = t.number(score);
+  };
+
+  const handleEvent = (fieldIndex: number, event: GameEvent) => {
+    const current = game.current;
+    const field = current.fields[fieldIndex];
+    switch (event.type) {
+      case 'spawn':
+        field.renderer.addEnemy(event.enemy, colors);
+        break;
+      case 'hit':
+        shootAt(field, event.enemy);
+        field.renderer.updateEnemyStage(event.enemy);
+        break;
+      case 'kill': {
+        shootAt(field, event.enemy);
+        field.renderer.removeEnemy(event.enemy.id);
+        const opponent = mode === 'versus' ? current.fields[1 - fieldIndex] : null;
+        if (opponent && !field.sentIds.has(event.enemy.id) && opponent.engine.state.status === 'running') {
+          opponent.sentIds.add(opponent.engine.sendEnemy().id);
+        }
+        break;
+      }
+      case 'miss':
+        field.renderer.removeEnemy(event.enemy.id);
+        soundManager.playSFX('hit');
+        showCastle(fieldIndex);
+        break;
+      case 'defeat':
+        finishRound(fieldIndex);
+        break;
+    }
+  };
+
+  // In versus the player whose castle fell loses; in co-op the team's scores stand
+  const finishRound = (loser: number) => {
+    const current = game.current;
+    current.isPlaying = false;
+    current.players.forEach(player => clearTimeout(player.autoCastTimer));
+    soundManager.stopBGM();
+    soundManager.playSFX(mode === 'versus' ? 'timesup' : 'gameover');
+    setResult({ winner: mode === 'versus' ? 1 - loser : null, scores: current.players.map(player => player.score) });
+  };
+
+  const draw = (fieldIndex: number, timestamp: number) => {
+    const { engine, renderer } = game.current.fields[fieldIndex];
+    const frame = frameRefs.current[fieldIndex];
+    const stage = stageRefs.current[fieldIndex];
+    if (frame && stage) {
+      const scale = Math.min(frame.clientWidth / bounds.width, frame.clientHeight / bounds.height);
+      const left = (frame.clientWidth - bounds.width * scale) / 2;
+      stage.style.transform = `translate(${left}px, 0) scale(${scale})`;
+    }
+    const { enemies, freezeTimer, slowTimer } = engine.state;
+    renderer.render(enemies, { frozen: freezeTimer > 0, slowed: slowTimer > 0 }, timestamp);
+  };
+
+  useEffect(() => {
+    const current = game.current;
+    // Both versus engines share a seed, so both players meet the same problems in the same order
+    const seed = randomSeed();
+    current.fields = fieldIndexes.map(fieldIndex => {
+      const renderer = createRenderer(rendererType);
+      renderer.setTheme(theme);
+      const area = areaRefs.current[fieldIndex];
+      if (area) renderer.mount(area);
+      const engine = new GameEngine({ level, operations, difficultyMultiplier, bounds, seed, winCondition: TWO_PLAYER_WIN_CONDITION });
+      engine.on(event => handleEvent(fieldIndex, event));
+      return { engine, renderer, sentIds: new Set<number>() };
+    });
+    current.players = PLAYERS.map(player => ({ field: mode === 'versus' ? player : 0, typed: '', score: 0, autoCastTimer: 0 }));
+    current.isPlaying = false;
+    fieldIndexes.forEach(showCastle);
+    PLAYERS.forEach(showPlayer);
+    soundManager.playBGM(level.music);
+
+    let count = COUNTDOWN_SECONDS;
+    setCountdown(count);
+    current.countdownTimer = window.setInterval(() => {
+      count--;
+      if (count > 0) {
+        setCountdown(count);
+        return;
+      }
+      clearInterval(current.countdownTimer);
+      setCountdown(null);
+      current.isPlaying = true;
+    }, 1000);
+
+    const frame = (timestamp: number) => {
+      current.fields.forEach((field, fieldIndex) => {
+        if (current.isPlaying) {
+          field.engine.advance(timestamp);
+        } else {
+          field.engine.resetClock();
+        }
+        draw(fieldIndex, timestamp);
+      });
+      current.frameId = requestAnimationFrame(frame);
+    };
+    current.frameId = requestAnimationFrame(frame);
+
+    return () => {
+      cancelAnimationFrame(current.frameId);
+      clearInterval(current.countdownTimer);
+      current.players.forEach(player => clearTimeout(player.autoCastTimer));
+      current.fields.forEach(field => field.renderer.destroy());
+      current.fields = [];
+      current.isPlaying = false;
+    };
+  }, [round]);
+
+  // --- Answers (same rules as the one-player answer field) ---
+  const submit = (player: number, value: number) => {
+    const current = game.current;
+    const state = current.players[player];
+    const { engine } = current.fields[state.field];
+    const previousScore = engine.state.score;
+    current.shooter = player;
+    if (!engine.submitAnswer(value)) return false;
+    // In co-op the engine keeps the team's score; each player is credited with what their answers added
+    state.score += engine.state.score - previousScore;
+    state.typed = '';
+    showPlayer(player);
+    return true;
+  };
+
+  const markWrong = (player: number, value: number) => {
+    const current = game.current;
+    const state = current.players[player];
+    current.fields[state.field].engine.recordWrongAnswer(value);
+    state.typed = '';
+    showPlayer(player);
+    soundManager.playSFX('wrong');
+    const input = inputRefs.current[player];
+    if (!input) return;
+    // Restart the shake animation even if it is still running
+    input.classList.remove('wrong-answer');
+    void input.offsetWidth;
+    input.classList.add('wrong-answer');
+  };
+
+  const cast = (player: number, value: number) => {
+    if (!submit(player, value)) markWrong(player, value);
+  };
+
+  const checkTyped = (player: number) => {
+    const current = game.current;
+    const state = current.players[player];
+    clearTimeout(state.autoCastTimer);
+    if (!autoCast) return;
+    const value = parseInt(state.typed);
+    if (isNaN(value)) return;
+    switch (current.fields[state.field].engine.autoCast(value.toString())) {
+      case 'wrong':
+        markWrong(player, value);
+        break;
+      case 'wait':
+        state.autoCastTimer = window.setTimeout(() => submit(player, value), AUTO_CAST_DELAY);
+        break;
+      case 'cast':
+        cast(player, value);
+        break;
+      case 'hold':
+        break;
+    }
+  };
+
+  const pressDigit = (player: number, digit: string) => {
+    const current = game.current;
+    if (!current.isPlaying) return;
+    current.players[player].typed += digit;
+    showPlayer(player);
+    checkTyped(player);
+  };
+
+  const pressBackspace = (player: number) => {
+    const current = game.current;
+    if (!current.isPlaying) return;
+    const state = current.players[player];
+    state.typed = state.typed.slice(0, -1);
+    showPlayer(player);
+    checkTyped(player);
+  };
+
+  const castTyped = (player: number) => {
+    const current = game.current;
+    const state = current.players[player];
+    clearTimeout(state.autoCastTimer);
+    const value = parseInt(state.typed);
+    if (current.isPlaying && !isNaN(value)) cast(player, value);
+  };
+
+  // One keyboard: keys are routed to a player by their physical position
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const key = readPlayerKey(e.code);
+      if (!key || !game.current.isPlaying) return;
+      e.preventDefault();
+      if (key.action === 'digit') pressDigit(key.player, key.digit);
+      else if (key.action === 'delete') pressBackspace(key.player);
+      else castTyped(key.player);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  const playAgain = () => {
+    setResult(null);
+    setRound(round + 1);
+  };
+
+  const castleBox = (fieldIndex: number) => (
+    <div className="retro-box" style={{fontSize: '12px'}}>{t.castle}: <span ref={el => { castleRefs.current[fieldIndex] = el; }}></span></div>
+  );
+
+  return (
+    <div className="screen" style={{zIndex: 105, background: '#2c3e50', justifyContent: 'flex-start', padding: 0}} role="dialog" aria-modal="true" aria-label={t.playerModes[mode]}>
+      <div className="hud-bar" style={{width: '100%', boxSizing: 'border-box'}}>
+        {PLAYERS.map(player => (
+          <div key={player} className="retro-box" style={{color: PLAYER_COLORS[player], order: player * 2}}>
+            {t.playerLabel(player + 1)}: <span ref={el => { scoreRefs.current[player] = el; }}>0</span>
+          </div>
+        ))}
+        <div style={{display: 'flex', gap: '10px', alignItems: 'center', order: 1}}>
+          {mode === 'coop' && castleBox(0)}
+          <button className="btn" style={{padding: '10px 15px', fontSize: '12px', margin: 0}} onClick={onExit}>{t.quitToMenu}</button>
+        </div>
+      </div>
+
+      <div style={{display: 'flex', flex: 1, width: '100%', minHeight: 0}}>
+        {fieldIndexes.map(fieldIndex => (
+          <div key={fieldIndex} style={{flex: 1, minWidth: 0, display: 'flex', flexDirection: 'column', alignItems: 'center', borderLeft: fieldIndex > 0 ? '4px solid #000' : 'none'}}>
+            {mode === 'versus' && <div style={{margin: '5px 0'}}>{castleBox(fieldIndex)}</div>}
+            <div ref={el => { frameRefs.current[fieldIndex] = el; }} style={{position: 'relative', flex: 1, width: '100%', overflow: 'hidden'}}>
+              <div ref={el => { stageRefs.current[fieldIndex] = el; }} style={{position: 'absolute', top: 0, left: 0, width: `${bounds.width}px`, height: `${bounds.height}px`, transformOrigin: '0 0'}}>
+                <img
+                  src={resolveBackground(level.background)}
+                  alt=""
+                  onError={e => { e.currentTarget.src = FALLBACK_BACKGROUND; }}
+                  style={{position: 'absolute', inset: 0, width: '100%', height: '100%', objectFit: 'cover'}}
+                />
+                <div ref={el => { areaRefs.current[fieldIndex] = el; }} aria-hidden="true" style={{position: 'absolute', top: 0, left: 0, width: '100%', height: '100%', overflow: 'hidden'}}></div>
+                {PLAYERS.filter(player => mode === 'coop' || player === fieldIndex).map(player => (
+                  <div key={player} aria-hidden="true" style={{
+                    position: 'absolute',
+                    left: `${100 * wizardPosition(player).x / bounds.width}%`,
+                    bottom: `${WIZARD_OFFSET}px`,
+                    transform: 'translateX(-50%)',
+                    fontSize: '72px',
+                    lineHeight: 1,
+                    filter: `drop-shadow(4px 4px 0 ${PLAYER_COLORS[player]})`
+                  }}>{WIZARDS[player]}</div>
+                ))}
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div style={{display: 'flex', justifyContent: 'space-around', width: '100%', padding: '10px 0'}}>
+        {PLAYERS.map(player => (
+          <div key={player} style={{display: 'flex', flexDirection: 'column', alignItems: 'center', width: '45%', maxWidth: '320px'}}>
+            <div
+              ref={el => { inputRefs.current[player] = el; }}
+              className="retro-box player-input"
+              aria-label={`${t.playerLabel(player + 1)} ${t.answer}`}
+              onAnimationEnd={e => e.currentTarget.classList.remove('wrong-answer')}
+              style={{width: '100%', boxSizing: 'border-box', textAlign: 'center', fontSize: '20px', color: PLAYER_COLORS[player], marginBottom: '10px'}}>???</div>
+            {showNumberPad && <NumberPad onDigit={digit => pressDigit(player, digit)} onBackspace={() => pressBackspace(player)} onCast={() => castTyped(player)} t={t} />}
+          </div>
+        ))}
+      </div>
+      {!showNumberPad && <div style={{fontSize: '10px', color: '#bdc3c7', marginBottom: '10px', textAlign: 'center'}}>{t.twoPlayerKeys}</div>}
+
+      {countdown !== null && (
+        <div aria-hidden="true" style={{position: 'absolute', top: '50%', left: '50%', transform: 'translate(-50%, -50%)', fontSize: '80px', color: '#f1c40f', textShadow: '6px 6px 0 #000', pointerEvents: 'none'}}>
+          {countdown}
+        </div>
+      )}
+
+      {result && (
+        <div role="alert" style={{position: 'absolute', inset: 0, background: 'rgba(0,0,0,0.85)', display: 'flex', flexDirection: 'column', justifyContent: 'center', alignItems: 'center'}}>
+          <h1 style={{fontSize: '32px'}}>{result.winner !== null ? t.playerWins(t.playerLabel(result.winner + 1)) : t.outcomes.defeated}</h1>
+          {PLAYERS.map(player => (
+            <div key={player} className="retro-box" style={{marginBottom: '10px', color: PLAYER_COLORS[player]}}>{t.playerLabel(player + 1)}: {t.number(result.scores[player])}</div>
+          ))}
+          {mode === 'coop' && <div style={{margin: '10px 0', color: '#f1c40f'}}>{t.teamScore}: {t.number(result.scores[0] + result.scores[1])}</div>}
+          <div style={{display: 'flex', justifyContent: 'center', flexWrap: 'wrap'}}>
+            <button className="btn" onClick={playAgain}>{t.playAgain}</button>
+            <button className="btn" onClick={onExit}>{t.quitToMenu}</button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TwoPlayerGame;
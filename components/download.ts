@@ -0,0 +1,11 @@
+// --- File Downloads (progress exports, replays) ---
+export const downloadFile = (fileName: string, content: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export const dateStamp = () => new Date().toISOString().slice(0, 10);
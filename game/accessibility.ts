@@ -0,0 +1,75 @@
+import { LevelDefinition } from './levels';
+
+// --- Accessibility Settings ---
+export type Palette = 'default' | 'colorblind';
+
+export type AccessibilitySettings = {
+  // Read new problems, hits and results through an ARIA live region
+  announce: boolean,
+  // Plain sans-serif font, solid backgrounds and strong borders instead of pixel art
+  highContrast: boolean,
+  textScale: number,
+  // No floating, shaking, scanlines or explosions
+  reducedMotion: boolean,
+  palette: Palette
+};
+
+export const TEXT_SCALES = [1, 1.25, 1.5];
+
+export const PALETTES: Palette[] = ['default', 'colorblind'];
+
+const SETTINGS_KEY = 'magicMathAccessibility';
+
+const prefersReducedMotion = () => window.matchMedia?.('(prefers-reduced-motion: reduce)').matches ?? false;
+
+export const defaultAccessibilitySettings = (): AccessibilitySettings => ({
+  announce: true,
+  highContrast: false,
+  textScale: 1,
+  reducedMotion: prefersReducedMotion(),
+  palette: 'default'
+});
+
+// Only settings the player changed are stored
+const loadSavedSettings = (): Record<string, any> => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}');
+    if (typeof saved === 'object' && saved !== null) return saved;
+  } catch (e) {}
+  return {};
+};
+
+// Unsaved fields fall back to the defaults, so reduced motion follows the OS until the player picks
+export const loadAccessibilitySettings = (): AccessibilitySettings => {
+  const defaults = defaultAccessibilitySettings();
+  const saved = loadSavedSettings();
+  return {
+    announce: typeof saved.announce === 'boolean' ? saved.announce : defaults.announce,
+    highContrast: typeof saved.highContrast === 'boolean' ? saved.highContrast : defaults.highContrast,
+    textScale: TEXT_SCALES.includes(saved.textScale) ? saved.textScale : defaults.textScale,
+    reducedMotion: typeof saved.reducedMotion === 'boolean' ? saved.reducedMotion : defaults.reducedMotion,
+    palette: PALETTES.includes(saved.palette) ? saved.palette : defaults.palette
+  };
+};
+
+export const saveAccessibilitySettings = (changes: Partial<AccessibilitySettings>) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify({ ...loadSavedSettings(), ...changes }));
+};
+
+// --- Color-blind Safe Colors (Okabe-Ito) ---
+// Light/dark pairs so white sign text keeps its contrast
+const COLORBLIND_LEVEL_COLORS: LevelDefinition['colors'][] = [
+  { button: '#0072B2', monster: '#56B4E9', sign: '#004D7A' },
+  { button: '#B07800', monster: '#E69F00', sign: '#6B4A00' },
+  { button: '#A34F7E', monster: '#CC79A7', sign: '#6B2F50' },
+  { button: '#007A5A', monster: '#009E73', sign: '#004D38' }
+];
+
+// Meaningful UI colors: good (best scores, victory), warning (selected options) and bad (defeat, errors)
+export const STATUS_COLORS: Record<Palette, { good: string, warning: string, bad: string }> = {
+  default: { good: '#2ecc71', warning: '#f39c12', bad: '#e74c3c' },
+  colorblind: { good: '#56B4E9', warning: '#F0E442', bad: '#D55E00' }
+};
+
+export const levelColors = (level: LevelDefinition, index: number, palette: Palette) =>
+  palette === 'colorblind' ? COLORBLIND_LEVEL_COLORS[index % COLORBLIND_LEVEL_COLORS.length] : level.colors;
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { AchievementProgress, createAchievementRun, mergeAchievements, parseAchievements, unlockAchievements } from './achievements';
+
+const empty = (): AchievementProgress => ({ unlocked: {}, days: {}, facts: [] });
+
+describe('parseAchievements', () => {
+  it('keeps known stickers, day counts and addition facts', () => {
+    const raw = { unlocked: { 'first-kill': 1000, 'no-such-sticker': 5 }, days: { '2024-05-01': 2, 'May 1': 1 }, facts: ['1+2', '2+1', 'nope'] };
+    expect(parseAchievements(raw)).toEqual({ unlocked: { 'first-kill': 1000 }, days: { '2024-05-01': 2 }, facts: ['1+2'] });
+  });
+
+  it('drops unlock dates that cannot be formatted', () => {
+    const raw = { unlocked: { 'first-kill': 1e17, 'first-100': -1, 'score-1000': Infinity, 'first-victory': '2024' } };
+    expect(parseAchievements(raw).unlocked).toEqual({});
+  });
+
+  it('starts empty from anything that is not an object', () => {
+    expect(parseAchievements(null)).toEqual(empty());
+    expect(parseAchievements('junk')).toEqual(empty());
+  });
+});
+
+describe('mergeAchievements', () => {
+  it('keeps the first unlock, the most rounds per day and every fact', () => {
+    const mine = { unlocked: { 'first-kill': 200 }, days: { '2024-05-01': 1 }, facts: ['1+1'] };
+    const theirs = { unlocked: { 'first-kill': 100, 'first-100': 300 }, days: { '2024-05-01': 3, '2024-05-02': 1 }, facts: ['1+1', '1+2'] };
+    expect(mergeAchievements(mine, theirs)).toEqual({
+      unlocked: { 'first-kill': 100, 'first-100': 300 },
+      days: { '2024-05-01': 3, '2024-05-02': 1 },
+      facts: ['1+1', '1+2']
+    });
+  });
+
+  it('ignores incoming unlock dates that cannot be formatted', () => {
+    const merged = mergeAchievements({ ...empty(), unlocked: { 'first-kill': 200 } }, { ...empty(), unlocked: { 'first-kill': -1e17, 'first-100': 1e17 } });
+    expect(merged.unlocked).toEqual({ 'first-kill': 200 });
+  });
+});
+
+describe('unlockAchievements', () => {
+  it('unlocks newly met stickers once', () => {
+    const progress = empty();
+    const run = { ...createAchievementRun(0), kills: 1 };
+    expect(unlockAchievements(run, progress, 500)).toEqual(['first-kill']);
+    expect(progress.unlocked).toEqual({ 'first-kill': 500 });
+    expect(unlockAchievements(run, progress, 600)).toEqual([]);
+  });
+});
@@ -0,0 +1,187 @@
+import { GameEvent } from './engine';
+import { MAX_STARS } from './campaign';
+import { dailyStreak, dateKey } from './daily';
+import { Problem } from './problems';
+
+// --- Achievements & Sticker Book ---
+// Each achievement is a rule over the run being played and the player's stored history. Rules are
+// checked after every game event and at the start and end of a run; each unlock earns a sticker.
+export type AchievementId =
+  | 'first-kill'
+  | 'first-100'
+  | 'score-1000'
+  | 'answer-streak'
+  | 'level-3-boss'
+  | 'first-victory'
+  | 'three-stars'
+  | 'day-streak'
+  | 'facts-to-20';
+
+// Stored per player
+export type AchievementProgress = {
+  // Achievement -> when it was unlocked
+  unlocked: Partial<Record<AchievementId, number>>,
+  // Local date ("YYYY-MM-DD") -> rounds started that day
+  days: Record<string, number>,
+  // Addition facts answered correctly, as "a+b" with a <= b
+  facts: string[]
+};
+
+// What happened so far in the run being played
+export type AchievementRun = {
+  // Position of the level in the level pack; -1 for a teacher's problem set
+  levelIndex: number,
+  score: number,
+  // Correct answers since the last wrong answer or leak
+  streak: number,
+  bossKilled: boolean,
+  kills: number,
+  won: boolean,
+  // Campaign stars earned, once the stage is over
+  stars: number
+};
+
+type AchievementRule = {
+  sticker: string,
+  isMet: (run: AchievementRun | null, progress: AchievementProgress) => boolean,
+  // Shown under locked stickers that build up over many runs: [done, goal]
+  progress?: (progress: AchievementProgress) => [number, number]
+};
+
+const ACHIEVEMENTS_KEY = 'magicMathAchievements';
+const STREAK_ANSWERS = 20;
+const STREAK_DAYS = 5;
+// Third level of the pack
+const BOSS_LEVEL_INDEX = 2;
+// Largest sum for the addition facts sticker
+const FACT_LIMIT = 20;
+
+// Every a + b with 1 <= a <= b and a + b <= FACT_LIMIT, as the generator can ask them
+const ADDITION_FACTS = Array.from({ length: FACT_LIMIT }, (_, a) => a + 1)
+  .flatMap(a => Array.from({ length: FACT_LIMIT - 2 * a + 1 }, (_, i) => `${a}+${a + i}`));
+
+export const ACHIEVEMENTS: Record<AchievementId, AchievementRule> = {
+  'first-kill': { sticker: '✨', isMet: run => run !== null && run.kills > 0 },
+  'first-100': { sticker: '💯', isMet: run => run !== null && run.score >= 100 },
+  'score-1000': { sticker: '🏆', isMet: run => run !== null && run.score >= 1000 },
+  'answer-streak': { sticker: '🔥', isMet: run => run !== null && run.streak >= STREAK_ANSWERS },
+  'level-3-boss': { sticker: '🐉', isMet: run => run !== null && run.bossKilled && run.levelIndex === BOSS_LEVEL_INDEX },
+  'first-victory': { sticker: '🎉', isMet: run => run !== null && run.won },
+  'three-stars': { sticker: '🌟', isMet: run => run !== null && run.stars === MAX_STARS },
+  'day-streak': {
+    sticker: '📅',
+    isMet: (_, progress) => dailyStreak(progress.days) >= STREAK_DAYS,
+    progress: progress => [Math.min(STREAK_DAYS, dailyStreak(progress.days)), STREAK_DAYS]
+  },
+  'facts-to-20': {
+    sticker: '🧮',
+    isMet: (_, progress) => ADDITION_FACTS.every(fact => progress.facts.includes(fact)),
+    progress: progress => [ADDITION_FACTS.filter(fact => progress.facts.includes(fact)).length, ADDITION_FACTS.length]
+  }
+};
+
+export const ACHIEVEMENT_IDS = Object.keys(ACHIEVEMENTS) as AchievementId[];
+
+export const createAchievementRun = (levelIndex: number): AchievementRun =>
+  ({ levelIndex, score: 0, streak: 0, bossKilled: false, kills: 0, won: false, stars: 0 });
+
+// A timestamp the date formatter accepts; it throws on anything past ±8.64e15 ms
+const isDate = (value: unknown): value is number =>
+  typeof value === 'number' && value >= 0 && !Number.isNaN(new Date(value).getTime());
+
+// Each player profile keeps their own stickers
+const storageKey = (profileId: string) => `${ACHIEVEMENTS_KEY}:${profileId}`;
+
+export const parseAchievements = (raw: any): AchievementProgress => {
+  const progress: AchievementProgress = { unlocked: {}, days: {}, facts: [] };
+  if (typeof raw !== 'object' || raw === null) return progress;
+  ACHIEVEMENT_IDS.forEach(id => {
+    const date = raw.unlocked?.[id];
+    if (isDate(date)) progress.unlocked[id] = date;
+  });
+  if (typeof raw.days === 'object' && raw.days !== null) {
+    Object.entries(raw.days).forEach(([key, count]) => {
+      if (/^\d{4}-\d{2}-\d{2}$/.test(key) && Number.isInteger(count)) progress.days[key] = count as number;
+    });
+  }
+  if (Array.isArray(raw.facts)) progress.facts = raw.facts.filter((fact: unknown) => ADDITION_FACTS.includes(fact as string));
+  return progress;
+};
+
+export const loadAchievements = (profileId: string): AchievementProgress => {
+  let raw: any = null;
+  try {
+    raw = JSON.parse(localStorage.getItem(storageKey(profileId)) || 'null');
+  } catch (e) {}
+  return parseAchievements(raw);
+};
+
+export const saveAchievements = (profileId: string, progress: AchievementProgress) => {
+  localStorage.setItem(storageKey(profileId), JSON.stringify(progress));
+};
+
+export const clearAchievements = (profileId: string) => {
+  localStorage.removeItem(storageKey(profileId));
+};
+
+// Stickers keep their first unlock date; days and facts from both copies count
+export const mergeAchievements = (progress: AchievementProgress, incoming: AchievementProgress): AchievementProgress => {
+  const unlocked = { ...progress.unlocked };
+  ACHIEVEMENT_IDS.forEach(id => {
+    const date = incoming.unlocked[id];
+    if (isDate(date) && !(date >= unlocked[id])) unlocked[id] = date;
+  });
+  const days = { ...progress.days };
+  Object.entries(incoming.days).forEach(([key, count]) => { days[key] = Math.max(days[key] || 0, count); });
+  return { unlocked, days, facts: [...new Set([...progress.facts, ...incoming.facts])] };
+};
+
+export const recordDayPlayed = (progress: AchievementProgress, date: Date = new Date()) => {
+  const key = dateKey(date);
+  progress.days[key] = (progress.days[key] || 0) + 1;
+};
+
+const recordFact = (progress: AchievementProgress, problem: Problem) => {
+  if (problem.operation !== 'add' || !problem.operands || problem.answer > FACT_LIMIT) return;
+  const [a, b] = [...problem.operands].sort((x, y) => x - y);
+  const fact = `${a}+${b}`;
+  if (!progress.facts.includes(fact)) progress.facts.push(fact);
+};
+
+// Updates the run and the stored history from an engine event; `score` is the engine's score after it.
+// Returns true if the event counted towards anything.
+export const trackAchievementEvent = (run: AchievementRun, progress: AchievementProgress, event: GameEvent, score: number) => {
+  run.score = score;
+  switch (event.type) {
+    case 'hit':
+      run.streak++;
+      recordFact(progress, event.solved);
+      return true;
+    case 'kill':
+      run.streak++;
+      run.kills++;
+      if (event.enemy.kind === 'boss') run.bossKilled = true;
+      recordFact(progress, event.enemy.problem);
+      return true;
+    // Fireball kills count as kills, but their problems were not answered: no streak, no facts
+    case 'spell':
+      run.kills += event.killed.length;
+      return true;
+    case 'wrong':
+    case 'miss':
+      run.streak = 0;
+      return true;
+    // Adds the survival bonus to the score
+    case 'victory':
+      return true;
+    default:
+      return false;
+  }
+};
+
+// Marks newly met achievements as unlocked and returns them, in sticker-book order
+export const unlockAchievements = (run: AchievementRun | null, progress: AchievementProgress, now: number = Date.now()) => {
+  const unlocked = ACHIEVEMENT_IDS.filter(id => !(id in progress.unlocked) && ACHIEVEMENTS[id].isMet(run, progress));
+  unlocked.forEach(id => { progress.unlocked[id] = now; });
+  return unlocked;
+};
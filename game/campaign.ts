@@ -0,0 +1,100 @@
+import { CASTLE_MAX_HP, Wave, WinCondition } from './engine';
+import { LevelDefinition } from './levels';
+import { Difficulty } from './save';
+
+// --- Campaign ---
+// Stages played in order on the level pack's levels, each a fixed list of waves.
+// A stage opens once the one before it has at least one star.
+export type Stage = {
+  id: string,
+  // Index into the level pack; packs with fewer levels reuse their last one
+  levelIndex: number,
+  // 1-based within its level, for labels like "2-3"
+  number: number,
+  waves: Wave[]
+};
+
+// Stage id -> best stars (1-3)
+export type CampaignProgress = Record<string, number>;
+
+export const CAMPAIGN_DIFFICULTY: Difficulty = 'NORMAL';
+export const CAMPAIGN_WIN_CONDITION: WinCondition = 'castle';
+export const MAX_STARS = 3;
+
+const CAMPAIGN_KEY = 'magicMathCampaign';
+const LEVEL_COUNT = 3;
+const STAGES_PER_LEVEL = 3;
+
+// Later stages bring more waves, bigger waves, quicker spawns and faster enemies
+const stageWaves = (levelIndex: number, number: number): Wave[] => {
+  const difficulty = levelIndex * STAGES_PER_LEVEL + number - 1;
+  return Array.from({ length: 2 + number }, (_, wave) => ({
+    enemies: 4 + wave + Math.floor(difficulty / 2),
+    spawnRate: Math.max(1200, 3000 - difficulty * 150 - wave * 100),
+    speed: 1 + difficulty * 0.05 + wave * 0.05
+  }));
+};
+
+export const CAMPAIGN: Stage[] = Array.from({ length: LEVEL_COUNT * STAGES_PER_LEVEL }, (_, i) => {
+  const levelIndex = Math.floor(i / STAGES_PER_LEVEL);
+  const number = i % STAGES_PER_LEVEL + 1;
+  return { id: `${levelIndex + 1}-${number}`, levelIndex, number, waves: stageWaves(levelIndex, number) };
+});
+
+export const stageLevel = (levels: LevelDefinition[], stage: Stage) =>
+  levels[Math.min(stage.levelIndex, levels.length - 1)];
+
+export const isStageUnlocked = (progress: CampaignProgress, stage: Stage) => {
+  const index = CAMPAIGN.indexOf(stage);
+  return index <= 0 || (progress[CAMPAIGN[index - 1].id] || 0) > 0;
+};
+
+export const nextStage = (stage: Stage) => CAMPAIGN[CAMPAIGN.indexOf(stage) + 1] || null;
+
+export const totalStars = (progress: CampaignProgress) =>
+  CAMPAIGN.reduce((sum, stage) => sum + (progress[stage.id] || 0), 0);
+
+// 0 for a lost stage; 3 needs near-perfect answers and an untouched castle
+export const starRating = (won: boolean, accuracy: number, castleHp: number) => {
+  if (!won) return 0;
+  const damage = CASTLE_MAX_HP - castleHp;
+  if (accuracy >= 0.9 && damage === 0) return 3;
+  if (accuracy >= 0.75 && damage <= 2) return 2;
+  return 1;
+};
+
+// Each player profile keeps its own progress
+const storageKey = (profileId: string) => `${CAMPAIGN_KEY}:${profileId}`;
+
+export const parseCampaignProgress = (raw: any): CampaignProgress => {
+  const progress: CampaignProgress = {};
+  if (typeof raw !== 'object' || raw === null) return progress;
+  CAMPAIGN.forEach(stage => {
+    const stars = raw[stage.id];
+    if (Number.isInteger(stars) && stars >= 1 && stars <= MAX_STARS) progress[stage.id] = stars;
+  });
+  return progress;
+};
+
+export const loadCampaignProgress = (profileId: string): CampaignProgress => {
+  let raw: any = null;
+  try {
+    raw = JSON.parse(localStorage.getItem(storageKey(profileId)) || 'null');
+  } catch (e) {}
+  return parseCampaignProgress(raw);
+};
+
+export const saveCampaignProgress = (profileId: string, progress: CampaignProgress) => {
+  localStorage.setItem(storageKey(profileId), JSON.stringify(progress));
+};
+
+export const clearCampaignProgress = (profileId: string) => {
+  localStorage.removeItem(storageKey(profileId));
+};
+
+// Keeps the best rating
+export const withStageStars = (progress: CampaignProgress, stage: Stage, stars: number): CampaignProgress =>
+  stars > (progress[stage.id] || 0) ? { ...progress, [stage.id]: stars } : progress;
+
+export const mergeCampaignProgress = (progress: CampaignProgress, incoming: CampaignProgress) =>
+  CAMPAIGN.reduce((merged, stage) => withStageStars(merged, stage, incoming[stage.id] || 0), progress);
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { dailyLevel, dailySeed, dailyStreak, dateKey, mergeDailyResults, parseDailyResults } from './daily';
+import { DEFAULT_LEVELS } from './levels';
+
+describe('daily seed', () => {
+  it('keys the local calendar date', () => {
+    expect(dateKey(new Date(2024, 0, 5, 23, 59))).toBe('2024-01-05');
+    expect(dateKey(new Date(2024, 11, 31))).toBe('2024-12-31');
+  });
+
+  it('gives each date its own fixed seed and level', () => {
+    expect(dailySeed('2024-01-05')).toBe(dailySeed('2024-01-05'));
+    expect(dailySeed('2024-01-05')).not.toBe(dailySeed('2024-01-06'));
+    expect(Number.isInteger(dailySeed('2024-01-05')) && dailySeed('2024-01-05') >= 0).toBe(true);
+    expect(DEFAULT_LEVELS).toContain(dailyLevel(DEFAULT_LEVELS, '2024-01-05'));
+    expect(dailyLevel(DEFAULT_LEVELS, '2024-01-05')).toBe(dailyLevel(DEFAULT_LEVELS, '2024-01-05'));
+  });
+});
+
+describe('dailyStreak', () => {
+  const today = new Date(2024, 2, 1);
+
+  it('counts days in a row back from today', () => {
+    expect(dailyStreak({ '2024-03-01': 1, '2024-02-29': 1, '2024-02-28': 1, '2024-02-26': 1 }, today)).toBe(3);
+  });
+
+  it('still stands until today is over', () => {
+    expect(dailyStreak({ '2024-02-29': 1, '2024-02-28': 1 }, today)).toBe(2);
+    expect(dailyStreak({ '2024-02-28': 1 }, today)).toBe(0);
+    expect(dailyStreak({}, today)).toBe(0);
+  });
+});
+
+describe('daily results', () => {
+  it('keeps only dated, non-negative scores', () => {
+    const raw = { '2024-03-01': 120, '2024-3-2': 5, '2024-03-03': -1, '2024-03-04': 'lots', '2024-03-05': Infinity };
+    expect(parseDailyResults(raw)).toEqual({ '2024-03-01': 120 });
+    expect(parseDailyResults(null)).toEqual({});
+  });
+
+  it('keeps the result already stored for a day played on both devices', () => {
+    expect(mergeDailyResults({ '2024-03-01': 10 }, { '2024-03-01': 50, '2024-03-02': 20 })).toEqual({ '2024-03-01': 10, '2024-03-02': 20 });
+  });
+});
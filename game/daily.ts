@@ -0,0 +1,79 @@
+import { WinCondition } from './engine';
+import { LevelDefinition } from './levels';
+import { createRng } from './rng';
+import { Difficulty } from './save';
+
+// --- Daily Challenge ---
+// Everything random in the run is seeded from the local calendar date, so every player meets the
+// same enemies and problems that day. Only the first attempt of the day is scored.
+export const DAILY_DIFFICULTY: Difficulty = 'NORMAL';
+export const DAILY_WIN_CONDITION: WinCondition = 'timed';
+
+const DAILY_KEY = 'magicMathDaily';
+
+// Replays after the day's first attempt are practice and are not scored
+export type DailyRun = { date: string, scored: boolean };
+
+// "YYYY-MM-DD" -> score of the day's scored attempt
+export type DailyResults = Record<string, number>;
+
+// Local date, so the challenge changes at the player's midnight rather than UTC's
+export const dateKey = (date: Date = new Date()) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// FNV-1a over the date key
+export const dailySeed = (key: string) => {
+  let hash = 0x811C9DC5;
+  for (let i = 0; i < key.length; i++) hash = Math.imul(hash ^ key.charCodeAt(i), 0x01000193);
+  return hash >>> 0;
+};
+
+// The level is picked from the date too, from whichever level pack is loaded
+export const dailyLevel = (levels: LevelDefinition[], key: string) =>
+  levels[Math.floor(createRng(dailySeed(key))() * levels.length)];
+
+// Each player profile keeps its own calendar
+const storageKey = (profileId: string) => `${DAILY_KEY}:${profileId}`;
+
+const isDateKey = (key: string) => /^\d{4}-\d{2}-\d{2}$/.test(key);
+
+export const parseDailyResults = (raw: unknown): DailyResults => {
+  if (typeof raw !== 'object' || raw === null) return {};
+  const results: DailyResults = {};
+  Object.entries(raw).forEach(([key, score]) => {
+    if (isDateKey(key) && typeof score === 'number' && Number.isFinite(score) && score >= 0) results[key] = score;
+  });
+  return results;
+};
+
+export const loadDailyResults = (profileId: string): DailyResults => {
+  let raw: any = null;
+  try {
+    raw = JSON.parse(localStorage.getItem(storageKey(profileId)) || 'null');
+  } catch (e) {}
+  return parseDailyResults(raw);
+};
+
+export const saveDailyResults = (profileId: string, results: DailyResults) => {
+  localStorage.setItem(storageKey(profileId), JSON.stringify(results));
+};
+
+export const clearDailyResults = (profileId: string) => {
+  localStorage.removeItem(storageKey(profileId));
+};
+
+// A day played on either device counts; it keeps the result already stored here
+export const mergeDailyResults = (results: DailyResults, incoming: DailyResults): DailyResults =>
+  ({ ...incoming, ...results });
+
+// Days in a row with an attempt, counting back from today; a streak still stands until today is over
+export const dailyStreak = (results: DailyResults, today: Date = new Date()) => {
+  const day = new Date(today.getFullYear(), today.getMonth(), today.getDate());
+  if (!(dateKey(day) in results)) day.setDate(day.getDate() - 1);
+  let streak = 0;
+  while (dateKey(day) in results) {
+    streak++;
+    day.setDate(day.getDate() - 1);
+  }
+  return streak;
+};
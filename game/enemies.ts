@@ -0,0 +1,64 @@
+import { generateProblem, Operation, Problem, ProblemRange } from './problems';
+import { randomInt, Rng } from './rng';
+
+// --- Enemy Archetypes ---
+export type EnemyKind = 'normal' | 'shielded' | 'runner' | 'splitter' | 'minion' | 'boss';
+
+export type EnemyArchetype = {
+  sprites: string[],
+  // Answers needed in a row to defeat it
+  stages: number,
+  speedFactor: number,
+  points: number,
+  // Draws its problems from the level's easy range
+  easy: boolean,
+  // Relative chance in the random spawn pool; 0 = only spawned by special rules
+  weight: number
+};
+
+export const ENEMY_ARCHETYPES: Record<EnemyKind, EnemyArchetype> = {
+  normal: { sprites: ['👺', '👻', '👹', '🧟'], stages: 1, speedFactor: 1, points: 10, easy: false, weight: 60 },
+  shielded: { sprites: ['🐢'], stages: 2, speedFactor: 0.8, points: 25, easy: false, weight: 15 },
+  runner: { sprites: ['🦇'], stages: 1, speedFactor: 1.8, points: 15, easy: true, weight: 15 },
+  splitter: { sprites: ['🦠'], stages: 1, speedFactor: 0.9, points: 15, easy: false, weight: 10 },
+  minion: { sprites: ['🦠'], stages: 1, speedFactor: 1.2, points: 5, easy: true, weight: 0 },
+  boss: { sprites: ['🐉'], stages: 3, speedFactor: 0.4, points: 100, easy: false, weight: 0 }
+};
+
+// A boss appears after this many kills, or as every this-many-th spawn with steady pacing
+export const BOSS_EVERY = 15;
+
+const SPAWN_POOL = (Object.keys(ENEMY_ARCHETYPES) as EnemyKind[]).filter(kind => ENEMY_ARCHETYPES[kind].weight > 0);
+
+export const pickEnemyKind = (rng: Rng): EnemyKind => {
+  const total = SPAWN_POOL.reduce((sum, kind) => sum + ENEMY_ARCHETYPES[kind].weight, 0);
+  let roll = rng() * total;
+  return SPAWN_POOL.find(kind => (roll -= ENEMY_ARCHETYPES[kind].weight) < 0) || 'normal';
+};
+
+// Smaller numbers for runners and split-off minions
+export const easyRange = (range: ProblemRange): ProblemRange => ({
+  min: 2,
+  max: Math.max(5, Math.round(range.max / 3)),
+  maxFactor: Math.max(2, Math.ceil(range.maxFactor / 2))
+});
+
+// Two-step expressions for bosses: (a + b) × c when times tables are in play, otherwise a + b + c
+export const generateBossProblem = (range: ProblemRange, operations: Operation[], rng: Rng): Problem => {
+  if (operations.includes('multiply') || operations.includes('mixed')) {
+    const factor = randomInt(rng, 2, Math.max(2, Math.min(5, range.maxFactor)));
+    const sum = randomInt(rng, 2, Math.max(3, Math.floor(range.max / factor)));
+    const num1 = randomInt(rng, 1, sum - 1);
+    return { text: `(${num1} + ${sum - num1}) × ${factor}`, answer: sum * factor };
+  }
+  // Two distinct cut points split the answer into three positive parts
+  const answer = randomInt(rng, Math.max(3, range.min), range.max);
+  const cut1 = randomInt(rng, 1, answer - 2);
+  let cut2 = randomInt(rng, 1, answer - 2);
+  if (cut2 >= cut1) cut2++;
+  const [low, high] = [Math.min(cut1, cut2), Math.max(cut1, cut2)];
+  return { text: `${low} + ${high - low} + ${answer - high}`, answer };
+};
+
+export const generateEasyProblem = (range: ProblemRange, operations: Operation[], rng: Rng) =>
+  generateProblem(easyRange(range), operations, rng);
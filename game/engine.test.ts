@@ -0,0 +1,243 @@
+import { describe, expect, it } from 'vitest';
+import { CASTLE_MAX_HP, CASTLE_OFFSET, EngineOptions, FIXED_STEP, GameEngine, GameEvent } from './engine';
+import { BOSS_EVERY, ENEMY_ARCHETYPES } from './enemies';
+import { DEFAULT_LEVELS } from './levels';
+import { createProblemSetSource, problemSetLevel, ProblemSet } from './problemSets';
+import { createRng } from './rng';
+
+const LEVEL = DEFAULT_LEVELS[0];
+const BOUNDS = { width: 800, height: 1000 };
+
+const createEngine = (options: Partial<EngineOptions> = {}) => {
+  const engine = new GameEngine({ level: LEVEL, operations: ['add'], difficultyMultiplier: 1, bounds: BOUNDS, rng: createRng(1), ...options });
+  const events: GameEvent[] = [];
+  engine.on(event => events.push(event));
+  return { engine, events };
+};
+
+const runSteps = (engine: GameEngine, steps: number) => {
+  for (let i = 0; i < steps; i++) engine.step(FIXED_STEP);
+};
+
+// Steps until the first enemy is on screen
+const spawnFirst = (engine: GameEngine) => {
+  while (engine.state.enemies.length === 0) engine.step(FIXED_STEP);
+  return engine.state.enemies[0];
+};
+
+describe('fixed-step timing', () => {
+  it('runs one step per FIXED_STEP of real time and carries the remainder', () => {
+    const { engine } = createEngine();
+    engine.advance(0);
+    engine.advance(10 * FIXED_STEP * 1000 + 1);
+    expect(engine.state.steps).toBe(10);
+    engine.advance(10 * FIXED_STEP * 1000 + FIXED_STEP * 1000);
+    expect(engine.state.steps).toBe(11);
+  });
+
+  it('caps a long gap between frames', () => {
+    const { engine } = createEngine();
+    engine.advance(0);
+    engine.advance(60000);
+    expect(engine.state.elapsedTime).toBeLessThan(1);
+  });
+
+  it('does not simulate time across resetClock', () => {
+    const { engine } = createEngine();
+    engine.advance(0);
+    engine.resetClock();
+    engine.advance(200);
+    expect(engine.state.steps).toBe(0);
+  });
+});
+
+describe('spawning', () => {
+  it('spawns the first enemy once the spawn interval has passed', () => {
+    const { engine, events } = createEngine();
+    const intervalSteps = Math.floor(LEVEL.spawn.baseRate / 1000 / FIXED_STEP);
+    runSteps(engine, intervalSteps - 1);
+    expect(engine.state.enemies).toHaveLength(0);
+    runSteps(engine, 2);
+    expect(engine.state.enemies).toHaveLength(1);
+    expect(events.filter(e => e.type === 'spawn')).toHaveLength(1);
+  });
+
+  it('opens a problem record for every spawn', () => {
+    const { engine } = createEngine();
+    const enemy = spawnFirst(engine);
+    expect(engine.state.answerLog).toEqual([expect.objectContaining({ enemyId: enemy.id, answer: enemy.problem.answer, responseTime: null })]);
+  });
+
+  it('skips a problem-set spawn while every answer in the set is on screen', () => {
+    const set: ProblemSet = { name: '', problems: [], rules: [{ type: 'make', target: 3 }], spawnSeconds: 2, enemySpeed: 0.1 };
+    const { engine } = createEngine({ level: problemSetLevel(set), problemSource: createProblemSetSource(set), problemSourceOnly: true });
+    runSteps(engine, 600);
+    expect(engine.state.enemies.map(e => e.problem.answer).sort()).toEqual([1, 2]);
+  });
+});
+
+describe('scoring', () => {
+  it('scores a kill once every stage of the enemy is answered', () => {
+    const { engine, events } = createEngine();
+    const enemy = spawnFirst(engine);
+    const stages = enemy.stages.length;
+    enemy.stages.forEach(problem => expect(engine.submitAnswer(problem.answer)).toBe(enemy));
+    expect(engine.state.score).toBe(ENEMY_ARCHETYPES[enemy.kind].points);
+    expect(engine.state.kills).toBe(1);
+    expect(engine.state.combo).toBe(stages);
+    expect(events.some(e => e.type === 'kill' && e.enemy === enemy)).toBe(true);
+  });
+
+  it('ignores answers that match nothing and breaks the combo on a wrong answer', () => {
+    const { engine, events } = createEngine();
+    const enemy = spawnFirst(engine);
+    engine.state.combo = 3;
+    expect(engine.submitAnswer(-1)).toBeNull();
+    engine.recordWrongAnswer(-1);
+    expect(engine.state.score).toBe(0);
+    expect(engine.state.combo).toBe(0);
+    expect(engine.findRecord(enemy.id).wrongAnswers).toEqual([-1]);
+    expect(events.some(e => e.type === 'wrong')).toBe(true);
+  });
+});
+
+describe('auto-cast', () => {
+  it('holds typed digits while no enemy is on screen', () => {
+    const { engine } = createEngine();
+    expect(engine.autoCast('5')).toBe('hold');
+  });
+
+  it('casts, waits or rejects by the live answers', () => {
+    const { engine } = createEngine();
+    const enemy = spawnFirst(engine);
+    enemy.problem = { ...enemy.problem, answer: 12 };
+    expect(engine.autoCast('12')).toBe('cast');
+    expect(engine.autoCast('1')).toBe('wait');
+    expect(engine.autoCast('3')).toBe('wrong');
+  });
+});
+
+describe('spells', () => {
+  it('closes the records of enemies a fireball kills without answering them', () => {
+    const { engine, events } = createEngine();
+    const enemy = spawnFirst(engine);
+    engine.state.mana = 100;
+    expect(engine.castSpell('fireball')).toBe(true);
+    expect(engine.state.enemies).toHaveLength(0);
+    expect(engine.state.kills).toBe(1);
+    expect(engine.findRecord(enemy.id)).toEqual(expect.objectContaining({ killedBySpell: true, responseTime: null, reachedCastle: false }));
+    expect(events.some(e => e.type === 'spell' && e.killed.includes(enemy))).toBe(true);
+  });
+});
+
+describe('leaks and defeat', () => {
+  const leak = (engine: GameEngine) => {
+    const enemy = spawnFirst(engine);
+    enemy.y = BOUNDS.height - CASTLE_OFFSET;
+    engine.step(FIXED_STEP);
+    return enemy;
+  };
+
+  it('loses on the first leak in sudden death', () => {
+    const { engine, events } = createEngine({ winCondition: 'sudden-death' });
+    const enemy = leak(engine);
+    expect(engine.state.status).toBe('defeated');
+    expect(engine.state.defeatedBy).toBe(enemy.id);
+    expect(engine.findRecord(enemy.id).reachedCastle).toBe(true);
+    expect(events.map(e => e.type)).toEqual(['spawn', 'miss', 'defeat']);
+  });
+
+  it('costs a castle heart per leak and loses when the castle falls', () => {
+    const { engine } = createEngine({ winCondition: 'castle' });
+    leak(engine);
+    expect(engine.state.status).toBe('running');
+    expect(engine.state.castleHp).toBe(CASTLE_MAX_HP - 1);
+    expect(engine.state.enemies).toHaveLength(0);
+    for (let i = 1; i < CASTLE_MAX_HP; i++) leak(engine);
+    expect(engine.state.castleHp).toBe(0);
+    expect(engine.state.status).toBe('defeated');
+  });
+
+  it('counts a leak as a miss in a timed round and ends when the time runs out', () => {
+    const { engine, events } = createEngine({ winCondition: 'timed', timeLimit: 10 });
+    leak(engine);
+    expect(engine.state.status).toBe('running');
+    expect(engine.state.castleHp).toBe(CASTLE_MAX_HP);
+    expect(events.some(e => e.type === 'miss')).toBe(true);
+    while (engine.state.status === 'running') engine.step(FIXED_STEP);
+    expect(engine.state.status).toBe('victory');
+    expect(engine.state.elapsedTime).toBeGreaterThanOrEqual(10);
+  });
+
+  it('slows adaptive pacing down when enemies get through', () => {
+    const { engine } = createEngine({ pacing: 'adaptive', winCondition: 'timed', timeLimit: 1000 });
+    const { spawnRate, enemySpeed } = engine.state;
+    for (let i = 0; i < 5; i++) leak(engine);
+    expect(engine.state.recentOutcomes).toEqual([false, false, false, false, false]);
+    expect(engine.state.spawnRate).toBeGreaterThan(spawnRate);
+    expect(engine.state.enemySpeed).toBeLessThan(enemySpeed);
+  });
+
+  it('stops stepping once the round is over', () => {
+    const { engine } = createEngine();
+    leak(engine);
+    const steps = engine.state.steps;
+    runSteps(engine, 10);
+    expect(engine.state.steps).toBe(steps);
+    expect(engine.submitAnswer(1)).toBeNull();
+  });
+});
+
+describe('seeded determinism', () => {
+  // Problems of the first `count` spawns, answering each one as it comes
+  const problemTexts = (seed: number, count: number) => {
+    const { engine } = createEngine({ seed, rng: undefined, winCondition: 'castle' });
+    const texts: string[] = [];
+    engine.on(event => {
+      if (event.type === 'spawn') texts.push(event.enemy.problem.text);
+    });
+    while (texts.length < count && engine.state.status === 'running') {
+      engine.step(FIXED_STEP);
+      const enemy = engine.state.enemies[0];
+      if (enemy) engine.submitAnswer(enemy.problem.answer);
+    }
+    return texts;
+  };
+
+  it('deals the same problems for the same seed', () => {
+    expect(problemTexts(42, 10)).toEqual(problemTexts(42, 10));
+  });
+
+  it('deals different problems for different seeds', () => {
+    expect(problemTexts(42, 10)).not.toEqual(problemTexts(43, 10));
+  });
+
+  // Kind and step of each of the first `count` spawns (minions from splits aside), answering enemies only if `answer` is set
+  const spawnTimeline = (answer: boolean, count: number) => {
+    const { engine } = createEngine({ seed: 7, rng: undefined, pacing: 'steady', winCondition: 'timed', timeLimit: 1000 });
+    const spawns: string[] = [];
+    engine.on(event => {
+      if (event.type === 'spawn' && event.enemy.kind !== 'minion') spawns.push(`${event.enemy.kind}@${engine.state.steps}`);
+    });
+    while (spawns.length < count) {
+      engine.step(FIXED_STEP);
+      if (answer) engine.state.enemies.forEach(enemy => engine.submitAnswer(enemy.problem.answer));
+    }
+    return spawns;
+  };
+
+  it('schedules bosses by kills in other seeded runs, one at a time', () => {
+    const { engine } = createEngine({ seed: 7, rng: undefined, winCondition: 'timed', timeLimit: 1000 });
+    for (let i = 0; i < BOSS_EVERY; i++) expect(engine.spawnEnemy().kind).not.toBe('boss');
+    engine.state.kills = BOSS_EVERY;
+    expect(engine.spawnEnemy().kind).toBe('boss');
+    engine.state.kills = 2 * BOSS_EVERY;
+    expect(engine.spawnEnemy().kind).not.toBe('boss');
+  });
+
+  it('spawns the same enemies at the same times with steady pacing, however the run is played', () => {
+    const spawns = spawnTimeline(true, BOSS_EVERY);
+    expect(spawns).toEqual(spawnTimeline(false, BOSS_EVERY));
+    expect(spawns[BOSS_EVERY - 1]).toMatch(/^boss@/);
+  });
+});
@@ -0,0 +1,658 @@
+import { LevelDefinition, getSpawnRateAfterScore } from './levels';
+import { canRepresent, generateProblem, Operation, Problem, Representation } from './problems';
+import { createRng, pick, Rng } from './rng';
+import { comboMultiplier, FIREBALL_RADIUS, MAX_MANA, manaForAnswer, SLOW_FACTOR, SpellId, SPELLS } from './spells';
+import { BOSS_EVERY, ENEMY_ARCHETYPES, EnemyKind, generateBossProblem, generateEasyProblem, pickEnemyKind } from './enemies';
+
+// --- Headless Game Engine ---
+// Owns all game rules. Knows nothing about React or the DOM: renderers subscribe to events
+// and read `state` after each frame.
+
+export const FIXED_STEP = 1 / 60;
+// Longest real-time gap simulated in one frame, so a backgrounded tab doesn't fast-forward the game
+export const MAX_FRAME_TIME = 0.25;
+
+const ENEMY_WIDTH = 120;
+// Horizontal gap between the two halves of a split enemy
+const SPLIT_OFFSET = 40;
+const SPAWN_Y = -100;
+const SPAWN_CLEARANCE_Y = 150;
+// Distance of the castle line above the bottom of the playfield
+export const CASTLE_OFFSET = 150;
+// Enemy speed is tuned for this playfield height; other heights scale it so a crossing takes as long
+const SPEED_REFERENCE_HEIGHT = 1000;
+// An enemy past this fraction of the way to the castle breaks the combo
+const DANGER_ZONE = 0.75;
+export const CASTLE_MAX_HP = 5;
+// Awarded for lasting the whole timed round
+export const SURVIVAL_BONUS = 100;
+
+// Auto-cast holds an answer this long (ms) when it is also the start of another live answer
+export const AUTO_CAST_DELAY = 800;
+
+// Seconds between a cleared wave and the next one
+export const WAVE_BREAK = 3;
+
+// Adaptive pacing aims for this success rate over the last few committed answers and leaks
+const TARGET_SUCCESS = 0.8;
+const PACING_WINDOW = 10;
+const PACING_TOLERANCE = 0.05;
+
+export type Enemy = {
+  id: number,
+  kind: EnemyKind,
+  // The problem currently shown; always stages[stage]
+  problem: Problem,
+  stages: Problem[],
+  stage: number,
+  sprite: string,
+  x: number,
+  y: number,
+  spawnedAt: number,
+  // Set once the enemy has crossed into the danger zone
+  threatening: boolean
+};
+
+// One entry per problem shown (multi-stage enemies get one per stage), filled in as it is answered or leaks
+export type ProblemRecord = {
+  enemyId: number,
+  text: string,
+  answer: number,
+  spawnedAt: number,
+  responseTime: number | null,
+  reachedCastle: boolean,
+  wrongAnswers: number[],
+  // Cleared by a fireball before it was answered; missing on records from before spells closed them
+  killedBySpell?: boolean
+};
+
+export type GameStatus = 'running' | 'defeated' | 'victory';
+
+// 'sudden-death': first leak loses. 'castle': each leak costs castle HP.
+// 'timed': survive until the time limit; leaks only count as misses.
+export type WinCondition = 'sudden-death' | 'castle' | 'timed';
+
+export const WIN_CONDITIONS: WinCondition[] = ['sudden-death', 'castle', 'timed'];
+
+export type GameState = {
+  status: GameStatus,
+  score: number,
+  castleHp: number,
+  elapsedTime: number,
+  // Fixed steps simulated so far; recordings time inputs by this
+  steps: number,
+  spawnRate: number,
+  enemySpeed: number,
+  // Milliseconds since the last spawn; outside 'steady' pacing a kill pushes this past spawnRate so the next enemy comes at once
+  sinceLastSpawn: number,
+  enemies: Enemy[],
+  nextEnemyId: number,
+  // Enemies spawned at the top, not counting minions from splits
+  spawns: number,
+  // Extra enemies sent over by the other player in versus
+  sent: number,
+  kills: number,
+  // Kill count that brings the next boss (all pacings but 'steady')
+  nextBossAt: number,
+  // Correct answers in a row with no mistakes and no enemy in the danger zone
+  combo: number,
+  mana: number,
+  // Seconds left on timed spells
+  freezeTimer: number,
+  slowTimer: number,
+  recentOutcomes: boolean[],
+  // Index of the current wave ('waves' pacing)
+  wave: number,
+  waveSpawned: number,
+  waveStarted: boolean,
+  // Seconds left in the break between waves
+  intermission: number,
+  answerLog: ProblemRecord[],
+  defeatedBy: number | null
+};
+
+export type GameEvent =
+  | { type: 'spawn', enemy: Enemy }
+  | { type: 'hit', enemy: Enemy, solved: Problem, firstTry: boolean }
+  | { type: 'kill', enemy: Enemy, score: number, firstTry: boolean }
+  | { type: 'miss', enemy: Enemy }
+  | { type: 'wrong', enemy: Enemy | null, value: number }
+  | { type: 'defeat', enemy: Enemy }
+  | { type: 'victory', bonus: number }
+  | { type: 'spell', spell: SpellId, target: Enemy | null, killed: Enemy[], score: number }
+  | { type: 'combo-break', combo: number }
+  | { type: 'wave-start', wave: number, total: number }
+  | { type: 'wave-clear', wave: number, total: number };
+
+export type AutoCast = 'cast' | 'wait' | 'wrong' | 'hold';
+
+export type GameListener = (event: GameEvent) => void;
+
+export type Bounds = { width: number, height: number };
+
+// Returns null when it has nothing to deal whose answer isn't already on screen; the spawn is then skipped
+// and `restore`, if the source has one, takes back what was already dealt for that enemy's other stages
+export type ProblemSource = ((rng: Rng, live: Problem[]) => Problem | null) & { restore?: (problems: Problem[]) => void };
+
+// 'score': spawn rate follows the level's spawn curve. 'adaptive': speed and spawn rate chase TARGET_SUCCESS.
+// 'waves': a fixed list of waves; the round is won once the last wave is cleared.
+// 'steady': the level's base spawn rate and speed, with spawns on the clock only and a boss every BOSS_EVERY
+// spawns, so every run of a seed meets its enemies at the same times however it is played (daily challenge).
+export type Pacing = 'score' | 'adaptive' | 'waves' | 'steady';
+
+export const PACINGS: Pacing[] = ['score', 'adaptive', 'waves', 'steady'];
+
+// `enemies` spawn `spawnRate` ms apart at `speed` times the level's enemy speed
+export type Wave = { enemies: number, spawnRate: number, speed: number };
+
+export type EngineOptions = {
+  level: LevelDefinition,
+  operations: Operation[],
+  difficultyMultiplier: number,
+  bounds: Bounds,
+  rng?: Rng,
+  // Reseeds the rng for every spawn from this and the spawn's number, so the nth enemy is the same
+  // however the game went before it (daily challenge)
+  seed?: number,
+  problemSource?: ProblemSource,
+  // Bosses and easy enemies also take their problems from problemSource (teacher problem sets)
+  problemSourceOnly?: boolean,
+  // Picture drawn on signs for problems small enough to show it
+  representation?: Representation | null,
+  pictureOnly?: boolean,
+  pacing?: Pacing,
+  // Required by 'waves' pacing
+  waves?: Wave[],
+  winCondition?: WinCondition,
+  // Seconds; only used by the 'timed' win condition
+  timeLimit?: number
+};
+
+export class GameEngine {
+  state: GameState;
+  level: LevelDefinition;
+  operations: Operation[];
+  difficultyMultiplier: number;
+  bounds: Bounds;
+  rng: Rng;
+  seed: number | null;
+  problemSource: ProblemSource;
+  problemSourceOnly: boolean;
+  representation: Representation | null;
+  pictureOnly: boolean;
+  pacing: Pacing;
+  waves: Wave[];
+  winCondition: WinCondition;
+  timeLimit: number;
+  listeners: Set<GameListener> = new Set();
+  lastTimestamp: number | null = null;
+  accumulator: number = 0;
+
+  constructor(options: EngineOptions) {
+    this.level = options.level;
+    this.operations = options.operations;
+    this.difficultyMultiplier = options.difficultyMultiplier;
+    this.bounds = options.bounds;
+    this.rng = options.rng || Math.random;
+    this.seed = options.seed ?? null;
+    this.problemSource = options.problemSource ||
+      ((rng) => generateProblem(this.level.range, this.operations, rng));
+    this.problemSourceOnly = options.problemSourceOnly || false;
+    this.representation = options.representation || null;
+    this.pictureOnly = options.pictureOnly || false;
+    this.pacing = options.pacing || 'score';
+    this.waves = options.waves || [];
+    this.winCondition = options.winCondition || 'sudden-death';
+    this.timeLimit = options.timeLimit || 0;
+    this.state = {
+      status: 'running',
+      score: 0,
+      castleHp: CASTLE_MAX_HP,
+      elapsedTime: 0,
+      steps: 0,
+      spawnRate: options.level.spawn.baseRate * options.difficultyMultiplier,
+      enemySpeed: options.level.enemySpeed,
+      sinceLastSpawn: 0,
+      enemies: [],
+      nextEnemyId: 1,
+      spawns: 0,
+      sent: 0,
+      kills: 0,
+      nextBossAt: BOSS_EVERY,
+      combo: 0,
+      mana: 0,
+      freezeTimer: 0,
+      slowTimer: 0,
+      recentOutcomes: [],
+      wave: 0,
+      waveSpawned: 0,
+      waveStarted: false,
+      intermission: 0,
+      answerLog: [],
+      defeatedBy: null
+    };
+  }
+
+  on(listener: GameListener) {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  emit(event: GameEvent) {
+    this.listeners.forEach(listener => listener(event));
+  }
+
+  // Bounds are the logical playfield size. When they change (resize, rotation) enemies keep
+  // their relative place across the field and along the path to the castle.
+  setBounds(bounds: Bounds) {
+    const previous = this.bounds;
+    if (previous.width === bounds.width && previous.height === bounds.height) return;
+    const xScale = (bounds.width - ENEMY_WIDTH) / (previous.width - ENEMY_WIDTH);
+    const yScale = this.travelDistance(bounds) / this.travelDistance(previous);
+    this.state.enemies.forEach(enemy => {
+      enemy.x *= xScale;
+      enemy.y = SPAWN_Y + (enemy.y - SPAWN_Y) * yScale;
+    });
+    this.bounds = bounds;
+  }
+
+  travelDistance(bounds: Bounds) {
+    return bounds.height - CASTLE_OFFSET - SPAWN_Y;
+  }
+
+  // How far along its path the enemy closest to the castle is, from 0 (none or just spawned) to 1
+  threatLevel() {
+    const travel = this.travelDistance(this.bounds);
+    return this.state.enemies.reduce((max, enemy) => Math.max(max, (enemy.y - SPAWN_Y) / travel), 0);
+  }
+
+  // Feed a real timestamp (ms, e.g. from requestAnimationFrame); runs as many fixed steps as elapsed
+  advance(timestamp: number) {
+    if (this.lastTimestamp === null) {
+      this.lastTimestamp = timestamp;
+      return;
+    }
+    const frameTime = Math.min((timestamp - this.lastTimestamp) / 1000, MAX_FRAME_TIME);
+    this.lastTimestamp = timestamp;
+    this.accumulator += Math.max(0, frameTime);
+
+    while (this.accumulator >= FIXED_STEP && this.state.status === 'running') {
+      this.step(FIXED_STEP);
+      this.accumulator -= FIXED_STEP;
+    }
+  }
+
+  // Forget the last timestamp so time spent paused is not simulated
+  resetClock() {
+    this.lastTimestamp = null;
+    this.accumulator = 0;
+  }
+
+  step(dt: number) {
+    const state = this.state;
+    if (state.status !== 'running') return;
+
+    state.elapsedTime += dt;
+    state.steps++;
+    if (this.pacing === 'waves') {
+      this.stepWaves(dt);
+      if (state.status !== 'running') return;
+    } else {
+      state.sinceLastSpawn += dt * 1000;
+      // A skipped spawn is retried every step until it succeeds
+      if (state.sinceLastSpawn > state.spawnRate && this.spawnEnemy()) state.sinceLastSpawn = 0;
+    }
+
+    // Speed is tuned in pixels per 60 Hz frame
+    const scoreBonus = this.pacing === 'score' ? state.score / 5000 : 0;
+    const spellFactor = state.freezeTimer > 0 ? 0 : state.slowTimer > 0 ? SLOW_FACTOR : 1;
+    const heightFactor = this.travelDistance(this.bounds) / this.travelDistance({ width: 0, height: SPEED_REFERENCE_HEIGHT });
+    const distance = (state.enemySpeed + scoreBonus) * spellFactor * heightFactor * 60 * dt;
+    state.freezeTimer = Math.max(0, state.freezeTimer - dt);
+    state.slowTimer = Math.max(0, state.slowTimer - dt);
+
+    const castleY = this.bounds.height - CASTLE_OFFSET;
+    for (const enemy of [...state.enemies]) {
+      enemy.y += distance * ENEMY_ARCHETYPES[enemy.kind].speedFactor;
+      if (!enemy.threatening && enemy.y > castleY * DANGER_ZONE) {
+        enemy.threatening = true;
+        this.breakCombo();
+      }
+      if (enemy.y > castleY) {
+        this.handleLeak(enemy);
+        if (state.status !== 'running') return;
+      }
+    }
+
+    if (this.winCondition === 'timed' && state.elapsedTime >= this.timeLimit) {
+      state.status = 'victory';
+      state.score += SURVIVAL_BONUS;
+      this.emit({ type: 'victory', bonus: SURVIVAL_BONUS });
+    }
+  }
+
+  // Spawns the current wave; once it is spawned and cleared, a break, then the next wave or victory
+  stepWaves(dt: number) {
+    const state = this.state;
+    const total = this.waves.length;
+    const wave = this.waves[state.wave];
+    if (state.intermission > 0) {
+      state.intermission -= dt;
+      return;
+    }
+
+    if (!state.waveStarted) {
+      state.waveStarted = true;
+      state.waveSpawned = 0;
+      state.spawnRate = wave.spawnRate * this.difficultyMultiplier;
+      state.enemySpeed = this.level.enemySpeed * wave.speed;
+      // First enemy of the wave comes at once
+      state.sinceLastSpawn = Infinity;
+      this.emit({ type: 'wave-start', wave: state.wave, total });
+    }
+
+    if (state.waveSpawned < wave.enemies) {
+      state.sinceLastSpawn += dt * 1000;
+      if (state.sinceLastSpawn > state.spawnRate && this.spawnEnemy()) {
+        state.waveSpawned++;
+        state.sinceLastSpawn = 0;
+      }
+    } else if (state.enemies.length === 0) {
+      this.emit({ type: 'wave-clear', wave: state.wave, total });
+      if (state.wave === total - 1) {
+        state.status = 'victory';
+        state.score += SURVIVAL_BONUS;
+        this.emit({ type: 'victory', bonus: SURVIVAL_BONUS });
+        return;
+      }
+      state.wave++;
+      state.waveStarted = false;
+      state.intermission = WAVE_BREAK;
+    }
+  }
+
+  handleLeak(enemy: Enemy) {
+    const state = this.state;
+    const record = this.findRecord(enemy.id);
+    if (record) record.reachedCastle = true;
+
+    this.breakCombo();
+    // A monster let through counts against the pace just like a wrong answer
+    if (this.pacing === 'adaptive') this.recordOutcome(false);
+    if (this.winCondition === 'sudden-death') {
+      state.castleHp = 0;
+    } else {
+      state.enemies = state.enemies.filter(e => e !== enemy);
+      if (this.winCondition === 'castle') state.castleHp = Math.max(0, state.castleHp - 1);
+    }
+    this.emit({ type: 'miss', enemy });
+
+    if (state.castleHp === 0) {
+      state.status = 'defeated';
+      state.defeatedBy = enemy.id;
+      this.emit({ type: 'defeat', enemy });
+    }
+  }
+
+  spawnEnemy() {
+    const state = this.state;
+    const maxX = this.bounds.width - ENEMY_WIDTH;
+    let x = 0;
+    let safePosition = false;
+    let attempts = 0;
+    // Position retries depend on who is on screen, so seeded spawns place themselves from a separate stream
+    let positionRng = this.rng;
+    if (this.seed !== null) {
+      const spawnSeed = this.seed + Math.imul(state.spawns, 0x9E3779B9);
+      this.rng = createRng(spawnSeed);
+      positionRng = createRng(spawnSeed ^ 0x5BD1E995);
+    }
+
+    while (!safePosition && attempts < 10) {
+      x = positionRng() * (maxX - 10) + 10;
+      safePosition = !state.enemies.some(e => e.y < SPAWN_CLEARANCE_Y && Math.abs(e.x - x) < ENEMY_WIDTH);
+      attempts++;
+    }
+
+    const enemy = this.addEnemy(this.nextEnemyKind(), x, SPAWN_Y);
+    // A skipped spawn keeps its number, so its retry rolls the same enemy
+    if (enemy) state.spawns++;
+    return enemy;
+  }
+
+  // Versus: a minion sent over by the other player. It rolls from its own stream so both
+  // players' regular spawns, and so their problems, stay in step.
+  sendEnemy() {
+    const state = this.state;
+    const rng = this.rng;
+    if (this.seed !== null) this.rng = createRng(this.seed ^ Math.imul(state.sent + 1, 0x85EBCA6B));
+    state.sent++;
+    const maxX = this.bounds.width - ENEMY_WIDTH;
+    const enemy = this.addEnemy('minion', this.rng() * (maxX - 10) + 10, SPAWN_Y);
+    this.rng = rng;
+    return enemy;
+  }
+
+  nextEnemyKind(): EnemyKind {
+    const state = this.state;
+    // Kills depend on how the run goes, so steady pacing counts bosses by spawn number instead
+    if (this.pacing === 'steady') return (state.spawns + 1) % BOSS_EVERY === 0 ? 'boss' : pickEnemyKind(this.rng);
+    if (state.kills >= state.nextBossAt && !state.enemies.some(e => e.kind === 'boss')) {
+      state.nextBossAt = state.kills + BOSS_EVERY;
+      return 'boss';
+    }
+    return pickEnemyKind(this.rng);
+  }
+
+  pickProblem(kind: EnemyKind): Problem | null {
+    if (this.problemSourceOnly) return this.problemSource(this.rng, this.state.enemies.map(e => e.problem));
+    if (kind === 'boss') return generateBossProblem(this.level.range, this.operations, this.rng);
+    if (ENEMY_ARCHETYPES[kind].easy) return generateEasyProblem(this.level.range, this.operations, this.rng);
+    return this.problemSource(this.rng, this.state.enemies.map(e => e.problem));
+  }
+
+  // Answers are unchanged, so typed input matches a picture sign exactly like a digit sign
+  withRepresentation(problem: Problem): Problem {
+    const representation = this.representation;
+    if (!representation || !canRepresent(problem, representation)) return problem;
+    return { ...problem, representation, pictureOnly: this.pictureOnly };
+  }
+
+  addEnemy(kind: EnemyKind, x: number, y: number) {
+    const state = this.state;
+    const archetype = ENEMY_ARCHETYPES[kind];
+    const dealt = Array.from({ length: archetype.stages }, () => this.pickProblem(kind));
+    if (dealt.includes(null)) {
+      this.problemSource.restore?.(dealt.filter(Boolean));
+      return null;
+    }
+    const stages = dealt.map(problem => this.withRepresentation(problem));
+
+    const enemy: Enemy = {
+      id: state.nextEnemyId++,
+      kind,
+      problem: stages[0],
+      stages,
+      stage: 0,
+      sprite: pick(this.rng, archetype.sprites),
+      x,
+      y,
+      spawnedAt: state.elapsedTime,
+      threatening: false
+    };
+    state.enemies.push(enemy);
+    this.openRecord(enemy);
+    this.emit({ type: 'spawn', enemy });
+    return enemy;
+  }
+
+  openRecord(enemy: Enemy) {
+    this.state.answerLog.push({
+      enemyId: enemy.id,
+      text: enemy.problem.text,
+      answer: enemy.problem.answer,
+      spawnedAt: this.state.elapsedTime,
+      responseTime: null,
+      reachedCastle: false,
+      wrongAnswers: []
+    });
+  }
+
+  // Returns the enemy hit by this answer, or null if nothing matched.
+  // When several enemies share the answer, the one nearest the castle is hit.
+  // Multi-stage enemies move on to their next problem and only die on the last one.
+  submitAnswer(value: number) {
+    const state = this.state;
+    if (state.status !== 'running') return null;
+
+    let matchIndex = -1;
+    state.enemies.forEach((e, i) => {
+      if (e.problem.answer === value && (matchIndex === -1 || e.y > state.enemies[matchIndex].y)) matchIndex = i;
+    });
+    if (matchIndex === -1) return null;
+
+    const enemy = state.enemies[matchIndex];
+    const record = this.findRecord(enemy.id);
+    if (record) record.responseTime = state.elapsedTime - record.spawnedAt;
+    const firstTry = !record || record.wrongAnswers.length === 0;
+    if (this.pacing === 'adaptive') this.recordOutcome(true);
+    state.combo++;
+    state.mana = Math.min(MAX_MANA, state.mana + manaForAnswer(state.combo));
+
+    if (enemy.stage < enemy.stages.length - 1) {
+      const solved = enemy.problem;
+      enemy.stage++;
+      enemy.problem = enemy.stages[enemy.stage];
+      this.openRecord(enemy);
+      this.emit({ type: 'hit', enemy, solved, firstTry });
+      return enemy;
+    }
+
+    state.enemies.splice(matchIndex, 1);
+    const previousScore = state.score;
+    state.score += ENEMY_ARCHETYPES[enemy.kind].points * comboMultiplier(state.combo);
+    state.kills++;
+    if (this.pacing === 'score') {
+      // Min spawn rate also respects difficulty
+      state.spawnRate = getSpawnRateAfterScore(this.level, state.spawnRate, previousScore, state.score, this.difficultyMultiplier);
+    }
+
+    this.emit({ type: 'kill', enemy, score: state.score, firstTry });
+
+    if (enemy.kind === 'splitter') {
+      const maxX = this.bounds.width - ENEMY_WIDTH;
+      this.addEnemy('minion', Math.max(10, enemy.x - SPLIT_OFFSET), enemy.y);
+      this.addEnemy('minion', Math.min(maxX, enemy.x + SPLIT_OFFSET), enemy.y);
+    } else if (this.pacing !== 'steady') {
+      state.sinceLastSpawn = Infinity;
+    }
+    return enemy;
+  }
+
+  // A value the player committed to that matches nothing; charged to the enemy closest to the castle
+  recordWrongAnswer(value: number) {
+    const state = this.state;
+    if (state.status !== 'running') return;
+
+    const target = state.enemies.reduce<Enemy | null>((nearest, e) => (!nearest || e.y > nearest.y ? e : nearest), null);
+    if (target) this.findRecord(target.id)?.wrongAnswers.push(value);
+    if (this.pacing === 'adaptive') this.recordOutcome(false);
+    this.breakCombo();
+    this.emit({ type: 'wrong', enemy: target, value });
+  }
+
+  breakCombo() {
+    const combo = this.state.combo;
+    this.state.combo = 0;
+    if (combo > 0) this.emit({ type: 'combo-break', combo });
+  }
+
+  canCast(spell: SpellId) {
+    return this.state.status === 'running' && this.state.mana >= SPELLS[spell].cost;
+  }
+
+  // Spends mana on a spell. Fireball aims at the enemy nearest the castle; bosses shrug it off.
+  castSpell(spell: SpellId) {
+    const state = this.state;
+    if (!this.canCast(spell)) return false;
+    state.mana -= SPELLS[spell].cost;
+
+    let target: Enemy | null = null;
+    let killed: Enemy[] = [];
+    if (spell === 'freeze') {
+      state.freezeTimer = SPELLS.freeze.duration;
+    } else if (spell === 'slow') {
+      state.slowTimer = SPELLS.slow.duration;
+    } else {
+      target = state.enemies.reduce<Enemy | null>((nearest, e) => (!nearest || e.y > nearest.y ? e : nearest), null);
+      if (target) {
+        const { x, y } = target;
+        killed = state.enemies.filter(e => e.kind !== 'boss' && Math.hypot(e.x - x, e.y - y) <= FIREBALL_RADIUS);
+        state.enemies = state.enemies.filter(e => !killed.includes(e));
+        killed.forEach(e => {
+          const record = this.findRecord(e.id);
+          if (record) record.killedBySpell = true;
+        });
+        const previousScore = state.score;
+        state.score += killed.reduce((sum, e) => sum + ENEMY_ARCHETYPES[e.kind].points, 0);
+        state.kills += killed.length;
+        if (this.pacing === 'score') {
+          state.spawnRate = getSpawnRateAfterScore(this.level, state.spawnRate, previousScore, state.score, this.difficultyMultiplier);
+        }
+      }
+    }
+
+    this.emit({ type: 'spell', spell, target, killed, score: state.score });
+    return true;
+  }
+
+  // Nudge speed and spawn rate toward TARGET_SUCCESS, within the level's own limits
+  recordOutcome(success: boolean) {
+    const state = this.state;
+    state.recentOutcomes = [...state.recentOutcomes, success].slice(-PACING_WINDOW);
+    if (state.recentOutcomes.length < PACING_WINDOW / 2) return;
+
+    const rate = state.recentOutcomes.filter(Boolean).length / state.recentOutcomes.length;
+    const { spawn, enemySpeed } = this.level;
+    const minRate = spawn.minRate * this.difficultyMultiplier;
+    const maxRate = spawn.baseRate * this.difficultyMultiplier * 2;
+
+    if (rate > TARGET_SUCCESS + PACING_TOLERANCE) {
+      state.spawnRate = Math.max(minRate, state.spawnRate * 0.95);
+      state.enemySpeed = Math.min(enemySpeed * 2, state.enemySpeed * 1.05);
+    } else if (rate < TARGET_SUCCESS - PACING_TOLERANCE) {
+      state.spawnRate = Math.min(maxRate, state.spawnRate * 1.1);
+      state.enemySpeed = Math.max(enemySpeed * 0.5, state.enemySpeed * 0.9);
+    }
+  }
+
+  // True while typing more digits could still hit a live enemy
+  hasAnswerStartingWith(digits: string) {
+    return this.state.enemies.some(e => e.problem.answer.toString().startsWith(digits));
+  }
+
+  // True if typing more digits could turn this value into a different live answer (e.g. "1" while 12 is alive)
+  hasLongerAnswerStartingWith(digits: string) {
+    return this.state.enemies.some(e => {
+      const answer = e.problem.answer.toString();
+      return answer.length > digits.length && answer.startsWith(digits);
+    });
+  }
+
+  // What auto-cast does with the digits typed so far: 'hold' while no enemy is on screen (e.g. between
+  // waves), 'wrong' if no live answer starts like this, 'wait' if they might be the start of a longer
+  // answer, otherwise 'cast'
+  autoCast(digits: string): AutoCast {
+    if (this.state.enemies.length === 0) return 'hold';
+    if (!this.hasAnswerStartingWith(digits)) return 'wrong';
+    return this.hasLongerAnswerStartingWith(digits) ? 'wait' : 'cast';
+  }
+
+  // Latest record for the enemy, i.e. the one for its current stage
+  findRecord(enemyId: number) {
+    for (let i = this.state.answerLog.length - 1; i >= 0; i--) {
+      if (this.state.answerLog[i].enemyId === enemyId) return this.state.answerLog[i];
+    }
+    return undefined;
+  }
+}
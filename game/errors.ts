@@ -0,0 +1,45 @@
+// --- Data Errors ---
+// Thrown when a level pack, progress file, replay or problem set code can't be read. The UI turns
+// the code into a message in the player's language.
+export type DataErrorCode =
+  | 'level-not-object'
+  | 'level-id'
+  | 'level-name'
+  | 'level-range'
+  | 'level-range-narrow'
+  | 'level-operations'
+  | 'level-speed'
+  | 'level-spawn'
+  | 'level-colors'
+  | 'level-background'
+  | 'pack-empty'
+  | 'pack-duplicate-ids'
+  | 'progress-format'
+  | 'progress-newer'
+  | 'progress-players'
+  | 'progress-sessions'
+  | 'progress-scores'
+  | 'progress-storage'
+  | 'replay-format'
+  | 'replay-newer'
+  | 'replay-settings'
+  | 'replay-operations'
+  | 'replay-inputs'
+  | 'replay-waves'
+  | 'set-code'
+  | 'set-newer'
+  | 'set-problems'
+  | 'set-timing'
+  | 'set-empty';
+
+export class DataError extends Error {
+  code: DataErrorCode;
+  // 1-based position of the level at fault in a level pack
+  level: number | null;
+
+  constructor(code: DataErrorCode, level: number | null = null) {
+    super(level === null ? code : `Level #${level}: ${code}`);
+    this.code = code;
+    this.level = level;
+  }
+}
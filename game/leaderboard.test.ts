@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { BoardKey, LEADERBOARD_SIZE, LeaderboardEntry, mergeLeaderboards, parseLeaderboards, qualifiesForBoard, withLeaderboardEntry } from './leaderboard';
+
+const KEY: BoardKey = { levelId: 1, difficulty: 'NORMAL', mode: 'castle' };
+const BOARD = '1:NORMAL:castle';
+
+const entry = (score: number, overrides: Partial<LeaderboardEntry> = {}): LeaderboardEntry =>
+  ({ initials: 'ABC', score, date: 1700000000000, accuracy: 0.9, timeSurvived: 60, ...overrides });
+
+describe('parseLeaderboards', () => {
+  it('keeps well-formed entries, best first', () => {
+    expect(parseLeaderboards({ [BOARD]: [entry(10), entry(30)] })).toEqual({ [BOARD]: [entry(30), entry(10)] });
+  });
+
+  it('drops malformed entries and boards', () => {
+    const boards = parseLeaderboards({
+      [BOARD]: [
+        entry(10, { initials: 'abc' }),
+        entry(10, { initials: '' }),
+        entry(-1),
+        entry(10, { accuracy: 2 }),
+        entry(10, { timeSurvived: NaN }),
+        null
+      ],
+      other: 'not a board'
+    });
+    expect(boards).toEqual({});
+    expect(parseLeaderboards('junk')).toEqual({});
+    expect(parseLeaderboards([entry(10)])).toEqual({});
+  });
+
+  it('drops entries whose date cannot be formatted', () => {
+    expect(parseLeaderboards({ [BOARD]: [entry(10, { date: 1e17 }), entry(20, { date: -5 })] })).toEqual({});
+    expect(parseLeaderboards({ [BOARD]: [entry(10, { date: 8.64e15 })] })[BOARD]).toHaveLength(1);
+  });
+
+  it('keeps only the top entries', () => {
+    const entries = Array.from({ length: LEADERBOARD_SIZE + 5 }, (_, i) => entry(i + 1));
+    expect(parseLeaderboards({ [BOARD]: entries })[BOARD]).toHaveLength(LEADERBOARD_SIZE);
+  });
+});
+
+describe('board updates', () => {
+  it('merges without duplicating entries already on the board', () => {
+    const merged = mergeLeaderboards({ [BOARD]: [entry(30)] }, { [BOARD]: [entry(30), entry(20)], other: [entry(5)] });
+    expect(merged).toEqual({ [BOARD]: [entry(30), entry(20)], other: [entry(5)] });
+  });
+
+  it('ranks a new entry below earlier ties', () => {
+    const earlier = entry(20, { date: 1 });
+    const { boards, rank } = withLeaderboardEntry({ [BOARD]: [earlier] }, KEY, entry(20, { date: 2 }));
+    expect(rank).toBe(1);
+    expect(boards[BOARD][0]).toBe(earlier);
+  });
+
+  it('only qualifies positive scores that beat a full board', () => {
+    const full = { [BOARD]: Array.from({ length: LEADERBOARD_SIZE }, (_, i) => entry(10 * (LEADERBOARD_SIZE - i))) };
+    expect(qualifiesForBoard({}, KEY, 0)).toBe(false);
+    expect(qualifiesForBoard({}, KEY, 1)).toBe(true);
+    expect(qualifiesForBoard(full, KEY, 10)).toBe(false);
+    expect(qualifiesForBoard(full, KEY, 11)).toBe(true);
+  });
+});
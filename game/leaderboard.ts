@@ -0,0 +1,95 @@
+import { WinCondition } from './engine';
+import { Difficulty } from './save';
+
+// --- Local Leaderboards ---
+// One top-10 table per level × difficulty × win condition, shared by everyone playing on this device.
+// Adaptive practice and teacher problem sets pace themselves differently, so their runs are not ranked.
+export type LeaderboardEntry = {
+  initials: string,
+  score: number,
+  date: number,
+  // 0..1
+  accuracy: number,
+  // Seconds
+  timeSurvived: number
+};
+
+export type BoardKey = { levelId: number, difficulty: Difficulty, mode: WinCondition };
+
+export type Leaderboards = Record<string, LeaderboardEntry[]>;
+
+export const LEADERBOARD_SIZE = 10;
+export const INITIALS_LENGTH = 3;
+export const BOARD_MODES: WinCondition[] = ['sudden-death', 'castle', 'timed'];
+// Cycled through by the arcade-style initials picker
+export const INITIALS_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
+
+const LEADERBOARD_KEY = 'magicMathLeaderboard';
+
+const boardId = ({ levelId, difficulty, mode }: BoardKey) => `${levelId}:${difficulty}:${mode}`;
+
+// Uppercase letters and digits only, at most three
+export const sanitizeInitials = (value: string) =>
+  value.toUpperCase().split('').filter(c => INITIALS_ALPHABET.includes(c)).join('').slice(0, INITIALS_LENGTH);
+
+const isCount = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+// A timestamp the date formatter accepts; it throws on anything past ±8.64e15 ms
+const isDate = (value: unknown): value is number => isCount(value) && !Number.isNaN(new Date(value).getTime());
+
+const isEntry = (entry: any): entry is LeaderboardEntry =>
+  typeof entry === 'object' && entry !== null &&
+  typeof entry.initials === 'string' && sanitizeInitials(entry.initials) === entry.initials && entry.initials.length > 0 &&
+  isCount(entry.score) && isDate(entry.date) && isCount(entry.timeSurvived) &&
+  isCount(entry.accuracy) && entry.accuracy <= 1;
+
+const byRank = (a: LeaderboardEntry, b: LeaderboardEntry) => b.score - a.score || a.date - b.date;
+
+// Anything that is not a well-formed entry is dropped, so an edited localStorage value can't break the tables
+export const parseLeaderboards = (raw: any): Leaderboards => {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) return {};
+
+  const boards: Leaderboards = {};
+  Object.entries(raw).forEach(([id, entries]) => {
+    if (!Array.isArray(entries)) return;
+    const valid = entries.filter(isEntry).sort(byRank).slice(0, LEADERBOARD_SIZE);
+    if (valid.length > 0) boards[id] = valid;
+  });
+  return boards;
+};
+
+export const loadLeaderboards = (): Leaderboards => {
+  let raw: any = null;
+  try {
+    raw = JSON.parse(localStorage.getItem(LEADERBOARD_KEY) || 'null');
+  } catch (e) {}
+  return parseLeaderboards(raw);
+};
+
+export const saveLeaderboards = (boards: Leaderboards) => {
+  localStorage.setItem(LEADERBOARD_KEY, JSON.stringify(boards));
+};
+
+export const getBoard = (boards: Leaderboards, key: BoardKey) => boards[boardId(key)] || [];
+
+export const qualifiesForBoard = (boards: Leaderboards, key: BoardKey, score: number) => {
+  const board = getBoard(boards, key);
+  return score > 0 && (board.length < LEADERBOARD_SIZE || score > board[board.length - 1].score);
+};
+
+// Entries already on a board (same initials, score and date) are not added twice
+export const mergeLeaderboards = (boards: Leaderboards, incoming: Leaderboards): Leaderboards => {
+  const merged = { ...boards };
+  Object.entries(incoming).forEach(([id, entries]) => {
+    const board = merged[id] || [];
+    const added = entries.filter(e => !board.some(b => b.initials === e.initials && b.score === e.score && b.date === e.date));
+    merged[id] = [...board, ...added].sort(byRank).slice(0, LEADERBOARD_SIZE);
+  });
+  return merged;
+};
+
+// Returns the new tables and the entry's index in its board (ties go below earlier entries)
+export const withLeaderboardEntry = (boards: Leaderboards, key: BoardKey, entry: LeaderboardEntry) => {
+  const board = [...getBoard(boards, key), entry].sort(byRank).slice(0, LEADERBOARD_SIZE);
+  return { boards: { ...boards, [boardId(key)]: board }, rank: board.indexOf(entry) };
+};
@@ -0,0 +1,102 @@
+import defaultLevels from './levels.json';
+import { DataError, DataErrorCode } from './errors';
+import { Operation, OPERATIONS, ProblemRange } from './problems';
+
+// --- Level Definitions ---
+export type LevelDefinition = {
+  id: number,
+  // Shown on the level's button instead of "LVL n"; custom packs can name their levels
+  name?: string,
+  range: ProblemRange,
+  operations: Operation[],
+  enemySpeed: number,
+  // Spawn interval starts at baseRate (ms) and drops by `step` every `everyPoints` points, down to minRate
+  spawn: { baseRate: number, minRate: number, step: number, everyPoints: number },
+  colors: { button: string, monster: string, sign: string },
+  // Built-in background name (see assets/backgrounds) or an image URL
+  background: string,
+  music: number
+};
+
+const LEVEL_PACK_KEY = 'magicMathLevelPack';
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isPositive = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+const parseLevel = (raw: unknown, index: number): LevelDefinition => {
+  const fail = (code: DataErrorCode): never => { throw new DataError(code, index + 1); };
+  if (!isObject(raw)) return fail('level-not-object');
+
+  const { id, name, range, operations, enemySpeed, spawn, colors, background, music } = raw;
+  if (!Number.isInteger(id)) fail('level-id');
+  if (name !== undefined && (typeof name !== 'string' || !name.trim())) fail('level-name');
+  if (!isObject(range) || !isPositive(range.min) || !isPositive(range.max) || !isPositive(range.maxFactor)) {
+    fail('level-range');
+  }
+  if (range.max <= range.min || range.maxFactor < 2) fail('level-range-narrow');
+  if (!Array.isArray(operations) || operations.length === 0 || operations.some(op => !OPERATIONS.includes(op))) {
+    fail('level-operations');
+  }
+  if (!isPositive(enemySpeed)) fail('level-speed');
+  if (!isObject(spawn) || !isPositive(spawn.baseRate) || !isPositive(spawn.minRate) ||
+      typeof spawn.step !== 'number' || spawn.step < 0 || !isPositive(spawn.everyPoints)) {
+    fail('level-spawn');
+  }
+  if (!isObject(colors) || [colors.button, colors.monster, colors.sign].some(c => typeof c !== 'string')) {
+    fail('level-colors');
+  }
+  if (typeof background !== 'string') fail('level-background');
+
+  return {
+    id, operations, enemySpeed, background,
+    ...(name !== undefined && { name: name.trim() }),
+    range: { min: range.min, max: range.max, maxFactor: range.maxFactor },
+    spawn: { baseRate: spawn.baseRate, minRate: spawn.minRate, step: spawn.step, everyPoints: spawn.everyPoints },
+    colors: { button: colors.button, monster: colors.monster, sign: colors.sign },
+    music: Number.isInteger(music) ? music : 0
+  };
+};
+
+export const parseLevelPack = (data: unknown): LevelDefinition[] => {
+  if (!Array.isArray(data) || data.length === 0) throw new DataError('pack-empty');
+  const levels = data.map(parseLevel);
+  const ids = new Set(levels.map(l => l.id));
+  if (ids.size !== levels.length) throw new DataError('pack-duplicate-ids');
+  return levels;
+};
+
+export const DEFAULT_LEVELS = parseLevelPack(defaultLevels);
+
+export const loadLevelPack = (): LevelDefinition[] => {
+  const stored = localStorage.getItem(LEVEL_PACK_KEY);
+  if (!stored) return DEFAULT_LEVELS;
+  try {
+    return parseLevelPack(JSON.parse(stored));
+  } catch (e) {
+    localStorage.removeItem(LEVEL_PACK_KEY);
+    return DEFAULT_LEVELS;
+  }
+};
+
+export const hasCustomLevelPack = () => localStorage.getItem(LEVEL_PACK_KEY) !== null;
+
+export const saveLevelPack = (levels: LevelDefinition[]) => {
+  localStorage.setItem(LEVEL_PACK_KEY, JSON.stringify(levels));
+};
+
+export const clearLevelPack = () => {
+  localStorage.removeItem(LEVEL_PACK_KEY);
+};
+
+export const findLevel = (levels: LevelDefinition[], id: number) =>
+  levels.find(l => l.id === id) || levels[0];
+
+// One step faster for every `everyPoints` boundary the score crossed
+export const getSpawnRateAfterScore = (level: LevelDefinition, currentRate: number, previousScore: number, score: number, multiplier: number) => {
+  const steps = Math.floor(score / level.spawn.everyPoints) - Math.floor(previousScore / level.spawn.everyPoints);
+  if (steps <= 0) return currentRate;
+  return Math.max(level.spawn.minRate * multiplier, currentRate - level.spawn.step * steps);
+};
@@ -0,0 +1,148 @@
+import { GameEvent } from './engine';
+import { LevelDefinition } from './levels';
+import { BasicOperation, generateProblem, MIXED_POOL, Operation, Problem } from './problems';
+import { Rng } from './rng';
+
+// --- Spaced Repetition (Leitner boxes) ---
+// A fact moves up one box when answered first try and drops back to box 1 when missed.
+// Lower boxes come back more often; facts in the top box count as mastered and are retired.
+
+export const BOX_COUNT = 5;
+// Chance that a spawn revisits a stored weak fact instead of generating a fresh one
+const REVIEW_CHANCE = 0.5;
+// Fresh problems that turn out to be mastered are re-rolled up to this many times
+const RETIRE_REROLLS = 5;
+
+const MASTERY_KEY = 'magicMathMastery';
+
+export type FactMastery = {
+  text: string,
+  answer: number,
+  operation?: BasicOperation,
+  // Missing on facts saved before pictures existed
+  operands?: [number, number],
+  levelId: number,
+  box: number,
+  seen: number,
+  correct: number,
+  lastSeen: number
+};
+
+export type MasteryStore = {
+  version: 1,
+  facts: Record<string, FactMastery>
+};
+
+const factKey = (levelId: number, text: string) => `${levelId}|${text}`;
+
+// Each player profile keeps its own mastery
+const storageKey = (profileId: string) => `${MASTERY_KEY}:${profileId}`;
+
+const isFact = (fact: any): fact is FactMastery =>
+  typeof fact === 'object' && fact !== null && typeof fact.text === 'string' && typeof fact.answer === 'number' &&
+  typeof fact.levelId === 'number' && Number.isInteger(fact.box) && fact.box >= 1 && fact.box <= BOX_COUNT &&
+  typeof fact.seen === 'number' && typeof fact.correct === 'number' && typeof fact.lastSeen === 'number';
+
+// Malformed facts are dropped, so edited storage or an imported file can't break adaptive practice
+export const parseMastery = (raw: any): MasteryStore => {
+  const store: MasteryStore = { version: 1, facts: {} };
+  if (typeof raw !== 'object' || raw === null || raw.version !== 1 || typeof raw.facts !== 'object' || raw.facts === null) return store;
+  Object.entries(raw.facts).forEach(([key, fact]) => {
+    if (isFact(fact)) store.facts[key] = fact;
+  });
+  return store;
+};
+
+export const loadMastery = (profileId: string): MasteryStore => {
+  let raw: any = null;
+  try {
+    raw = JSON.parse(localStorage.getItem(storageKey(profileId)) || 'null');
+  } catch (e) {}
+  return parseMastery(raw);
+};
+
+export const saveMastery = (profileId: string, store: MasteryStore) => {
+  localStorage.setItem(storageKey(profileId), JSON.stringify(store));
+};
+
+export const clearMastery = (profileId: string) => {
+  localStorage.removeItem(storageKey(profileId));
+};
+
+// Keeps whichever copy of each fact was practised last
+export const mergeMastery = (store: MasteryStore, incoming: MasteryStore): MasteryStore => {
+  const facts = { ...store.facts };
+  Object.entries(incoming.facts).forEach(([key, fact]) => {
+    if (!facts[key] || fact.lastSeen > facts[key].lastSeen) facts[key] = fact;
+  });
+  return { version: 1, facts };
+};
+
+export const recordFactOutcome = (store: MasteryStore, levelId: number, problem: Problem, firstTry: boolean) => {
+  const key = factKey(levelId, problem.text);
+  const fact = store.facts[key] || {
+    text: problem.text,
+    answer: problem.answer,
+    operation: problem.operation,
+    operands: problem.operands,
+    levelId,
+    box: 1,
+    seen: 0,
+    correct: 0,
+    lastSeen: 0
+  };
+  fact.seen++;
+  fact.lastSeen = Date.now();
+  if (firstTry) {
+    fact.correct++;
+    fact.box = Math.min(BOX_COUNT, fact.box + 1);
+  } else {
+    fact.box = 1;
+  }
+  store.facts[key] = fact;
+};
+
+// Live play and replays update mastery from the same engine events. Returns true if the store changed.
+// Boss expressions are not single facts, so they carry no operation and are not tracked.
+// Fireball kills were never answered, so 'spell' events leave mastery alone.
+export const applyMasteryEvent = (store: MasteryStore, levelId: number, event: GameEvent) => {
+  const outcome =
+    event.type === 'hit' ? { problem: event.solved, firstTry: event.firstTry } :
+    event.type === 'kill' ? { problem: event.enemy.problem, firstTry: event.firstTry } :
+    event.type === 'miss' ? { problem: event.enemy.problem, firstTry: false } :
+    null;
+  if (!outcome || !outcome.problem.operation) return false;
+  recordFactOutcome(store, levelId, outcome.problem, outcome.firstTry);
+  return true;
+};
+
+const isMastered = (store: MasteryStore, levelId: number, problem: Problem) =>
+  (store.facts[factKey(levelId, problem.text)]?.box || 0) >= BOX_COUNT;
+
+// Problem source for the engine: weak facts of this level come back weighted by box, mastered ones are skipped
+export const createAdaptiveProblemSource = (store: MasteryStore, level: LevelDefinition, operations: Operation[]) => {
+  const allowed = operations.includes('mixed') ? MIXED_POOL : operations;
+
+  return (rng: Rng, live: Problem[]): Problem => {
+    const weak = Object.values(store.facts).filter(f =>
+      f.levelId === level.id &&
+      f.box < BOX_COUNT &&
+      (!f.operation || allowed.includes(f.operation)) &&
+      !live.some(p => p.answer === f.answer)
+    );
+
+    if (weak.length > 0 && rng() < REVIEW_CHANCE) {
+      // Box 1 is twice as likely as box 2, which is twice as likely as box 3, ...
+      const weights = weak.map(f => 2 ** (BOX_COUNT - f.box));
+      let roll = rng() * weights.reduce((a, b) => a + b, 0);
+      const fact = weak.find((_, i) => (roll -= weights[i]) < 0) || weak[weak.length - 1];
+      return { text: fact.text, answer: fact.answer, operation: fact.operation, operands: fact.operands };
+    }
+
+    let problem = generateProblem(level.range, operations, rng);
+    for (let i = 0; i < RETIRE_REROLLS && isMastered(store, level.id, problem); i++) {
+      problem = generateProblem(level.range, operations, rng);
+    }
+    return problem;
+  };
+};
@@ -0,0 +1,31 @@
+import { Bounds } from './engine';
+
+// --- Logical Playfield ---
+// The engine and renderers work in these fixed coordinates; the view scales the whole playfield to
+// fit the screen, so resizing or rotating never moves things relative to each other.
+export const LANDSCAPE_PLAYFIELD: Bounds = { width: 1280, height: 720 };
+export const PORTRAIT_PLAYFIELD: Bounds = { width: 720, height: 1080 };
+
+// Logical pixels from the bottom edge to the wizard's feet, and the height of the ground strip
+export const WIZARD_OFFSET = 120;
+export const GROUND_HEIGHT = 64;
+
+export type Viewport = {
+  bounds: Bounds,
+  scale: number,
+  // Screen position of the playfield's top-left corner
+  offsetX: number,
+  offsetY: number
+};
+
+// Fits the playfield into the available screen area: centered horizontally, resting on the bottom edge
+export const fitPlayfield = (width: number, height: number): Viewport => {
+  const bounds = height > width ? PORTRAIT_PLAYFIELD : LANDSCAPE_PLAYFIELD;
+  const scale = Math.min(width / bounds.width, height / bounds.height);
+  return {
+    bounds,
+    scale,
+    offsetX: (width - bounds.width * scale) / 2,
+    offsetY: height - bounds.height * scale
+  };
+};
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { DataError } from './errors';
+import { createProblemSetSource, decodeProblemSet, encodeProblemSet, expandProblemSet, parseProblemText, ProblemSet } from './problemSets';
+import { createRng } from './rng';
+
+const SET: ProblemSet = {
+  name: 'Class 2B: make 5',
+  problems: [parseProblemText('6 x 7'), parseProblemText('4 × ? = 28')],
+  rules: [{ type: 'make', target: 5 }, { type: 'table', factor: 3, max: 4 }],
+  spawnSeconds: 4,
+  enemySpeed: 0.8
+};
+
+const errorCode = (code: string) => {
+  try {
+    decodeProblemSet(code);
+  } catch (err) {
+    return err instanceof DataError ? err.code : 'not a data error';
+  }
+  return null;
+};
+
+// Share code built from raw fields, to write codes the editor would never produce
+const rawCode = (fields: string) => btoa(fields).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+describe('parseProblemText', () => {
+  it('reads problems and solves the missing number', () => {
+    expect(parseProblemText('7 + 3')).toEqual({ text: '7 + 3', answer: 10, operation: 'add', operands: [7, 3] });
+    expect(parseProblemText('12*4')).toEqual(expect.objectContaining({ text: '12 × 4', answer: 48 }));
+    expect(parseProblemText('3 + ? = 10')).toEqual({ text: '3 + ? = 10', answer: 7, operation: 'missing' });
+    expect(parseProblemText('? ÷ 4 = 6')).toEqual(expect.objectContaining({ answer: 24 }));
+  });
+
+  it('rejects problems without a whole answer in range', () => {
+    ['7 / 2', '3 - 5', '? + ? = 4', '7 + 3 = 10', '100 x 100', 'seven'].forEach(text => expect(parseProblemText(text)).toBeNull());
+  });
+});
+
+describe('share codes', () => {
+  it('decodes what it encodes', () => {
+    expect(decodeProblemSet(encodeProblemSet(SET))).toEqual(SET);
+    expect(expandProblemSet(SET).map(p => p.text)).toEqual(['1 + ? = 5', '2 + ? = 5', '3 + ? = 5', '4 + ? = 5', '3 × 1', '3 × 2', '3 × 3', '3 × 4', '6 × 7', '4 × ? = 28']);
+  });
+
+  it('names what is wrong with a bad code', () => {
+    expect(errorCode('!!!')).toBe('set-code');
+    expect(errorCode(rawCode('1|name|4|0.8'))).toBe('set-code');
+    expect(errorCode(rawCode('2|name|4|0.8|m10|'))).toBe('set-newer');
+    expect(errorCode(rawCode('1|name|4|0.8|x10|'))).toBe('set-problems');
+    expect(errorCode(rawCode('1|name|4|0.8||7/2'))).toBe('set-problems');
+    expect(errorCode(rawCode('1|name|0|0.8|m10|'))).toBe('set-timing');
+    expect(errorCode(rawCode('1|name|4|0.8||'))).toBe('set-empty');
+  });
+
+  it('rejects times tables whose answers pass the answer limit', () => {
+    expect(errorCode(rawCode('1|name|4|0.8|t100.100|'))).toBe('set-problems');
+    expect(decodeProblemSet(rawCode('1|name|4|0.8|t99.100|')).rules).toEqual([{ type: 'table', factor: 99, max: 100 }]);
+  });
+});
+
+describe('createProblemSetSource', () => {
+  const pool = expandProblemSet(SET);
+
+  it('deals every problem once before any repeats', () => {
+    const deal = createProblemSetSource(SET);
+    const rng = createRng(3);
+    const dealt = pool.map(() => deal(rng, []));
+    expect(new Set(dealt).size).toBe(pool.length);
+  });
+
+  it('holds back problems whose answer is on screen and deals nothing when all are', () => {
+    const deal = createProblemSetSource({ ...SET, problems: [], rules: [{ type: 'make', target: 3 }] });
+    const rng = createRng(3);
+    const first = deal(rng, []);
+    const second = deal(rng, [first]);
+    expect(second.answer).not.toBe(first.answer);
+    expect(deal(rng, [first, second])).toBeNull();
+  });
+
+  it('puts restored cards back on top of the deck', () => {
+    const deal = createProblemSetSource(SET);
+    const rng = createRng(3);
+    const card = deal(rng, []);
+    deal.restore([card]);
+    expect(deal(rng, [])).toBe(card);
+    const rest = pool.slice(1).map(() => deal(rng, []));
+    expect(new Set([card, ...rest]).size).toBe(pool.length);
+  });
+});
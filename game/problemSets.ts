@@ -0,0 +1,233 @@
+import { ProblemSource } from './engine';
+import { DataError } from './errors';
+import { LevelDefinition } from './levels';
+import { BasicOperation, Operation, Problem } from './problems';
+import { Rng } from './rng';
+
+// --- Teacher Problem Sets ---
+// A set lists explicit problems and/or rules that expand into fact families. It travels as a
+// share code (also usable as the `?set=` URL parameter) and is played as a one-off level.
+export type ProblemRule =
+  // Number pairs that make the target: 3 + ? = 10
+  | { type: 'make', target: number }
+  // 1 + 1 up to max + max
+  | { type: 'doubles', max: number }
+  // factor × 1 up to factor × max
+  | { type: 'table', factor: number, max: number };
+
+export type RuleType = ProblemRule['type'];
+
+export type ProblemSet = {
+  name: string,
+  problems: Problem[],
+  rules: ProblemRule[],
+  // Seconds between enemies
+  spawnSeconds: number,
+  enemySpeed: number
+};
+
+export const RULE_TYPES: RuleType[] = ['make', 'doubles', 'table'];
+export const SPAWN_SECONDS = [2, 3, 4, 6, 8];
+export const SET_SPEEDS = { slow: 0.4, normal: 0.8, fast: 1.2 };
+export const TABLE_MAX = 10;
+// Rule numbers and answers must fit the answer field comfortably
+export const MAX_RULE_NUMBER = 100;
+const MAX_ANSWER = 9999;
+const CODE_VERSION = '1';
+export const SET_URL_PARAM = 'set';
+
+export const createRule = (type: RuleType, value: number): ProblemRule =>
+  type === 'make' ? { type, target: value } :
+  type === 'doubles' ? { type, max: value } :
+  { type, factor: value, max: TABLE_MAX };
+
+export const ruleValue = (rule: ProblemRule) =>
+  rule.type === 'make' ? rule.target : rule.type === 'doubles' ? rule.max : rule.factor;
+
+const range = (from: number, to: number) => Array.from({ length: Math.max(0, to - from + 1) }, (_, i) => from + i);
+
+export const expandRule = (rule: ProblemRule): Problem[] => {
+  switch (rule.type) {
+    case 'make':
+      return range(1, rule.target - 1).map(known => ({ text: `${known} + ? = ${rule.target}`, answer: rule.target - known, operation: 'missing' }));
+    case 'doubles':
+      return range(1, rule.max).map(n => ({ text: `${n} + ${n}`, answer: n * 2, operation: 'add', operands: [n, n] }));
+    case 'table':
+      return range(1, rule.max).map(n => ({ text: `${rule.factor} × ${n}`, answer: rule.factor * n, operation: 'multiply', operands: [rule.factor, n] }));
+  }
+};
+
+// Every distinct problem in the set, rules expanded
+export const expandProblemSet = (set: ProblemSet): Problem[] => {
+  const all = [...set.rules.flatMap(expandRule), ...set.problems];
+  return all.filter((problem, i) => all.findIndex(p => p.text === problem.text) === i);
+};
+
+const SYMBOLS: Record<string, string> = { '+': '+', '-': '-', '×': '×', 'x': '×', '*': '×', '÷': '÷', ':': '÷', '/': '÷' };
+const OPERATION_OF: Record<string, BasicOperation> = { '+': 'add', '-': 'subtract', '×': 'multiply', '÷': 'divide' };
+
+const apply = (a: number, symbol: string, b: number) =>
+  symbol === '+' ? a + b : symbol === '-' ? a - b : symbol === '×' ? a * b : a / b;
+
+// Solves `left symbol right = result` for the operand marked '?'
+const solve = (left: number | null, symbol: string, right: number | null, result: number) => {
+  if (left === null) {
+    return symbol === '+' ? result - right : symbol === '-' ? result + right : symbol === '×' ? result / right : result * right;
+  }
+  return symbol === '+' ? result - left : symbol === '-' ? left - result : symbol === '×' ? result / left : left / result;
+};
+
+// Accepts "7 + 3", "12 x 4", "3 + ? = 10" or "? ÷ 4 = 6"; returns null if the answer is not a whole number
+export const parseProblemText = (input: string): Problem | null => {
+  const match = input.trim().match(/^(\d+|\?)\s*([-+×x*÷:/])\s*(\d+|\?)\s*(?:=\s*(\d+))?$/i);
+  if (!match) return null;
+  const [, rawLeft, rawSymbol, rawRight, rawResult] = match;
+  const symbol = SYMBOLS[rawSymbol.toLowerCase()];
+  const left = rawLeft === '?' ? null : parseInt(rawLeft);
+  const right = rawRight === '?' ? null : parseInt(rawRight);
+
+  let problem: Problem;
+  if (left !== null && right !== null) {
+    if (rawResult !== undefined) return null;
+    problem = { text: `${left} ${symbol} ${right}`, answer: apply(left, symbol, right), operation: OPERATION_OF[symbol], operands: [left, right] };
+  } else {
+    if (left === null && right === null || rawResult === undefined) return null;
+    const result = parseInt(rawResult);
+    problem = {
+      text: `${rawLeft} ${symbol} ${rawRight} = ${result}`,
+      answer: solve(left, symbol, right, result),
+      operation: symbol === '+' && right === null ? 'missing' : undefined
+    };
+  }
+  const { answer } = problem;
+  return Number.isInteger(answer) && answer >= 0 && answer <= MAX_ANSWER ? problem : null;
+};
+
+// --- Share Codes ---
+// version|name|spawnSeconds|enemySpeed|rules|problems, base64url encoded.
+// Rules are m10 (make 10), d10 (doubles to 10) and t7.10 (7 times table to 10); problems keep only their text.
+const encodeRule = (rule: ProblemRule) =>
+  rule.type === 'make' ? `m${rule.target}` : rule.type === 'doubles' ? `d${rule.max}` : `t${rule.factor}.${rule.max}`;
+
+const decodeRule = (token: string): ProblemRule | null => {
+  const match = token.match(/^([mdt])(\d+)(?:\.(\d+))?$/);
+  if (!match) return null;
+  const value = parseInt(match[2]);
+  if (value < 1 || value > MAX_RULE_NUMBER) return null;
+  if (match[1] === 'm') return value >= 2 ? { type: 'make', target: value } : null;
+  if (match[1] === 'd') return { type: 'doubles', max: value };
+  const max = match[3] ? parseInt(match[3]) : TABLE_MAX;
+  return max >= 1 && max <= MAX_RULE_NUMBER && value * max <= MAX_ANSWER ? { type: 'table', factor: value, max } : null;
+};
+
+const toBase64Url = (text: string) => {
+  const bytes = new TextEncoder().encode(text);
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (code: string) => {
+  const binary = atob(code.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, c => c.charCodeAt(0)));
+};
+
+export const encodeProblemSet = (set: ProblemSet) => toBase64Url([
+  CODE_VERSION,
+  encodeURIComponent(set.name),
+  set.spawnSeconds,
+  set.enemySpeed,
+  set.rules.map(encodeRule).join(','),
+  set.problems.map(p => p.text.replace(/ /g, '')).join(',')
+].join('|'));
+
+export const decodeProblemSet = (code: string): ProblemSet => {
+  let fields: string[];
+  let name: string;
+  try {
+    fields = fromBase64Url(code.trim()).split('|');
+    name = decodeURIComponent(fields[1] || '');
+  } catch (e) {
+    throw new DataError('set-code');
+  }
+  if (fields.length !== 6) throw new DataError('set-code');
+  const [version, , spawnSeconds, enemySpeed, rules, problems] = fields;
+  if (version !== CODE_VERSION) throw new DataError('set-newer');
+
+  const set: ProblemSet = {
+    name,
+    spawnSeconds: parseFloat(spawnSeconds),
+    enemySpeed: parseFloat(enemySpeed),
+    rules: rules ? rules.split(',').map(decodeRule) : [],
+    problems: problems ? problems.split(',').map(parseProblemText) : []
+  };
+  if (set.rules.includes(null) || set.problems.includes(null)) throw new DataError('set-problems');
+  if (!(set.spawnSeconds > 0) || !(set.enemySpeed > 0)) throw new DataError('set-timing');
+  if (expandProblemSet(set).length === 0) throw new DataError('set-empty');
+  return set;
+};
+
+export const readProblemSetFromUrl = (): ProblemSet | null => {
+  const code = new URLSearchParams(window.location.search).get(SET_URL_PARAM);
+  if (!code) return null;
+  try {
+    return decodeProblemSet(code);
+  } catch (e) {
+    return null;
+  }
+};
+
+export const problemSetUrl = (code: string) =>
+  `${window.location.origin}${window.location.pathname}?${SET_URL_PARAM}=${code}`;
+
+// --- Playing a Set ---
+// Stable negative id per set, so best scores never mix with the level pack's levels or other sets
+const problemSetLevelId = (code: string) => {
+  let hash = 0;
+  for (let i = 0; i < code.length; i++) hash = (Math.imul(hash, 31) + code.charCodeAt(i)) | 0;
+  return -1 - (Math.abs(hash) % 1000000);
+};
+
+// Spawns at a steady pace: teachers pick the timing, so the score does not speed it up
+export const problemSetLevel = (set: ProblemSet): LevelDefinition => {
+  const problems = expandProblemSet(set);
+  const operations = [...new Set(problems.map(p => p.operation).filter(Boolean))] as Operation[];
+  const answers = problems.map(p => p.answer);
+  const spawnRate = set.spawnSeconds * 1000;
+  const min = Math.max(1, Math.min(...answers));
+  return {
+    id: problemSetLevelId(encodeProblemSet(set)),
+    // Kept a valid level range (max above min) so the level survives in replay files
+    range: { min, max: Math.max(min + 1, ...answers), maxFactor: TABLE_MAX },
+    operations: operations.length > 0 ? operations : ['add'],
+    enemySpeed: set.enemySpeed,
+    spawn: { baseRate: spawnRate, minRate: spawnRate, step: 0, everyPoints: 50 },
+    colors: { button: '#9b59b6', monster: '#9b59b6', sign: '#8e44ad' },
+    background: 'meadow',
+    music: 1
+  };
+};
+
+// Deals the set like a shuffled deck so every problem comes up before any repeats.
+// Problems whose answer is already on screen wait, so every answer on screen stays unambiguous:
+// if every card left waits, the deck is reshuffled early, and if every problem in the set waits, nothing is dealt.
+export const createProblemSetSource = (set: ProblemSet): ProblemSource => {
+  const pool = expandProblemSet(set);
+  let deck: Problem[] = [];
+
+  const deal = (rng: Rng, live: Problem[]): Problem | null => {
+    const isFree = (problem: Problem) => !live.some(l => l.answer === problem.answer);
+    if (!deck.some(isFree)) {
+      if (!pool.some(isFree)) return null;
+      deck = [...pool];
+      for (let i = deck.length - 1; i > 0; i--) {
+        const j = Math.floor(rng() * (i + 1));
+        [deck[i], deck[j]] = [deck[j], deck[i]];
+      }
+    }
+    return deck.splice(deck.findIndex(isFree), 1)[0];
+  };
+  // Cards dealt for an enemy that could not spawn go back on top, unless a reshuffle already put them back
+  const restore = (problems: Problem[]) => {
+    deck = [...problems.filter(p => pool.includes(p) && !deck.includes(p)), ...deck];
+  };
+  return Object.assign(deal, { restore });
+};
@@ -0,0 +1,94 @@
+import { pick, randomInt, Rng } from './rng';
+
+// --- Problem Generators ---
+export type Operation = 'add' | 'subtract' | 'multiply' | 'divide' | 'missing' | 'mixed';
+
+export type BasicOperation = Exclude<Operation, 'mixed'>;
+
+// Pictures a sign can draw instead of or alongside the digits, for children still counting objects
+export type Representation = 'dots' | 'ten-frame' | 'fingers';
+
+export type Problem = {
+  text: string,
+  answer: number,
+  operation?: BasicOperation,
+  // Both numbers of a plain two-term problem, so signs and hints can draw them
+  operands?: [number, number],
+  // Set by the engine when the player picked a picture and the operands fit it
+  representation?: Representation,
+  // The picture replaces the digits instead of sitting under them
+  pictureOnly?: boolean
+};
+
+// Largest operand each picture can show: two hands, two ten-frames
+export const REPRESENTATION_LIMITS: Record<Representation, number> = { dots: 20, 'ten-frame': 20, fingers: 10 };
+
+export const REPRESENTATIONS = Object.keys(REPRESENTATION_LIMITS) as Representation[];
+
+// Only sums and differences are drawn
+export const canRepresent = (problem: Problem, representation: Representation) =>
+  !!problem.operands && (problem.operation === 'add' || problem.operation === 'subtract') &&
+  problem.operands.every(n => n <= REPRESENTATION_LIMITS[representation]);
+
+// Sums/differences stay within [min, max]; times tables and division use factors up to maxFactor.
+export type ProblemRange = { min: number, max: number, maxFactor: number };
+
+type ProblemGenerator = {
+  label: string,
+  generate: (range: ProblemRange, rng: Rng) => Problem
+};
+
+const addition = (range: ProblemRange, rng: Rng): Problem => {
+  // Sum is at least 2 so both addends are at least 1
+  const answer = randomInt(rng, Math.max(2, range.min), range.max);
+  const num1 = randomInt(rng, 1, answer - 1);
+  const num2 = answer - num1;
+  return { text: `${num1} + ${num2}`, answer, operation: 'add', operands: [num1, num2] };
+};
+
+const subtraction = (range: ProblemRange, rng: Rng): Problem => {
+  // Minuend is at least 2 so the answer is never zero or negative
+  const num1 = randomInt(rng, Math.max(2, range.min), range.max);
+  const num2 = randomInt(rng, 1, num1 - 1);
+  return { text: `${num1} - ${num2}`, answer: num1 - num2, operation: 'subtract', operands: [num1, num2] };
+};
+
+const multiplication = (range: ProblemRange, rng: Rng): Problem => {
+  const num1 = randomInt(rng, 2, range.maxFactor);
+  const num2 = randomInt(rng, 1, range.maxFactor);
+  return { text: `${num1} × ${num2}`, answer: num1 * num2, operation: 'multiply', operands: [num1, num2] };
+};
+
+const division = (range: ProblemRange, rng: Rng): Problem => {
+  // Build from the quotient so the division is always exact
+  const divisor = randomInt(rng, 2, range.maxFactor);
+  const answer = randomInt(rng, 1, range.maxFactor);
+  return { text: `${divisor * answer} ÷ ${divisor}`, answer, operation: 'divide', operands: [divisor * answer, divisor] };
+};
+
+const missingAddend = (range: ProblemRange, rng: Rng): Problem => {
+  const sum = randomInt(rng, Math.max(2, range.min), range.max);
+  const known = randomInt(rng, 1, sum - 1);
+  return { text: `${known} + ? = ${sum}`, answer: sum - known, operation: 'missing' };
+};
+
+export const MIXED_POOL: BasicOperation[] = ['add', 'subtract', 'multiply', 'divide', 'missing'];
+
+export const PROBLEM_GENERATORS: Record<Operation, ProblemGenerator> = {
+  add: { label: '+', generate: addition },
+  subtract: { label: '-', generate: subtraction },
+  multiply: { label: '×', generate: multiplication },
+  divide: { label: '÷', generate: division },
+  missing: { label: '? =', generate: missingAddend },
+  mixed: {
+    label: 'MIX',
+    generate: (range, rng) => PROBLEM_GENERATORS[pick(rng, MIXED_POOL)].generate(range, rng)
+  }
+};
+
+export const OPERATIONS = Object.keys(PROBLEM_GENERATORS) as Operation[];
+
+export const generateProblem = (range: ProblemRange, operations: Operation[], rng: Rng = Math.random): Problem => {
+  const pool = operations.length > 0 ? operations : ['add' as Operation];
+  return PROBLEM_GENERATORS[pick(rng, pool)].generate(range, rng);
+};
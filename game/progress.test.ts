@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import { DataError } from './errors';
+import { loadLeaderboards } from './leaderboard';
+import { loadCampaignProgress } from './campaign';
+import { buildProgressExport, importProgress, mergeProgress, parseProgressExport, ProgressExport } from './progress';
+import { loadSave, MAX_SESSIONS, SaveData, SessionRecord } from './save';
+import { MemoryStorage, useMemoryStorage } from './testStorage';
+
+useMemoryStorage();
+
+const profile = (id: string) => ({ id, name: id.toUpperCase(), avatar: '🧙‍♂️', createdAt: 0 });
+
+const session = (id: string, startedAt: number, overrides: Partial<SessionRecord> = {}): SessionRecord => ({
+  id, profileId: 'p1', levelId: 1, difficulty: 'NORMAL', adaptive: false, winCondition: 'castle',
+  startedAt, duration: 30, score: 100, outcome: 'victory', problems: [], ...overrides
+});
+
+const save = (sessions: SessionRecord[] = []): SaveData =>
+  ({ version: 3, activeProfileId: 'p1', profiles: [profile('p1')], bestScores: { p1: { '1:NORMAL': 50 } }, sessions });
+
+const exportOf = (data: SaveData, overrides: Partial<ProgressExport> = {}): ProgressExport =>
+  ({ ...buildProgressExport(data), ...overrides });
+
+const errorCode = (run: () => unknown) => {
+  try {
+    run();
+  } catch (err) {
+    return err instanceof DataError ? err.code : 'not a data error';
+  }
+  return null;
+};
+
+describe('parseProgressExport', () => {
+  it('reads back an export', () => {
+    const data = save([session('s1', 1)]);
+    const parsed = parseProgressExport(JSON.parse(JSON.stringify(exportOf(data))));
+    expect(parsed.profiles).toEqual(data.profiles);
+    expect(parsed.sessions).toEqual(data.sessions);
+    expect(parsed.players.p1.campaign).toEqual({});
+  });
+
+  it('names what is wrong with a bad file', () => {
+    const file = JSON.parse(JSON.stringify(exportOf(save([session('s1', 1)]))));
+    expect(errorCode(() => parseProgressExport('junk'))).toBe('progress-format');
+    expect(errorCode(() => parseProgressExport({ ...file, version: 99 }))).toBe('progress-newer');
+    expect(errorCode(() => parseProgressExport({ ...file, profiles: [{ id: 1 }] }))).toBe('progress-players');
+    expect(errorCode(() => parseProgressExport({ ...file, bestScores: null }))).toBe('progress-scores');
+    expect(errorCode(() => parseProgressExport({ ...file, players: null }))).toBe('progress-players');
+  });
+
+  it('rejects sessions with missing or invalid fields', () => {
+    const file = JSON.parse(JSON.stringify(exportOf(save())));
+    const bad = [
+      { ...session('s1', 1), duration: '30' },
+      { ...session('s1', 1), outcome: 'won' },
+      { ...session('s1', 1), winCondition: 'forever' },
+      { ...session('s1', 1), problems: [{ text: '1 + 1', answer: 2, spawnedAt: 0, responseTime: 'fast', reachedCastle: false, wrongAnswers: [] }] }
+    ];
+    bad.forEach(s => expect(errorCode(() => parseProgressExport({ ...file, sessions: [s] }))).toBe('progress-sessions'));
+  });
+
+  it('maps old English outcomes and reads version 1 files', () => {
+    const file = { ...JSON.parse(JSON.stringify(exportOf(save()))), version: 1, sessions: [{ ...session('s1', 1), outcome: 'DEFEATED' }] };
+    delete file.players;
+    delete file.leaderboards;
+    const parsed = parseProgressExport(file);
+    expect(parsed.sessions[0].outcome).toBe('defeated');
+    expect(parsed.players).toEqual({});
+    expect(parsed.leaderboards).toEqual({});
+  });
+});
+
+describe('mergeProgress', () => {
+  it('adds new players and games, skips duplicates and keeps the best scores', () => {
+    const incoming = exportOf({ ...save([session('s1', 1), session('s2', 2)]), profiles: [profile('p1'), profile('p2')], bestScores: { p1: { '1:NORMAL': 80 } } });
+    const { data, summary } = mergeProgress(save([session('s1', 1)]), incoming);
+    expect(data.profiles.map(p => p.id)).toEqual(['p1', 'p2']);
+    expect(data.sessions.map(s => s.id)).toEqual(['s1', 's2']);
+    expect(data.bestScores.p1['1:NORMAL']).toBe(80);
+    expect(summary).toEqual({ profilesAdded: 1, sessionsAdded: 1, duplicatesSkipped: 2, sessionsDropped: 0 });
+  });
+
+  it('keeps the newest games within the save limit and reports the rest', () => {
+    const existing = Array.from({ length: MAX_SESSIONS }, (_, i) => session(`old${i}`, 1000 + i));
+    const incoming = [session('older', 1), session('newer', 5000)];
+    const { data, summary } = mergeProgress(save(existing), exportOf(save(incoming)));
+    expect(data.sessions).toHaveLength(MAX_SESSIONS);
+    expect(data.sessions.map(s => s.id)).toContain('newer');
+    expect(data.sessions.map(s => s.id)).not.toContain('older');
+    expect(summary.sessionsAdded).toBe(1);
+    expect(summary.sessionsDropped).toBe(2);
+  });
+});
+
+describe('importProgress', () => {
+  const incoming = () => exportOf(save([session('s1', 1)]), {
+    players: { p1: { mastery: { version: 1, facts: {} }, daily: {}, campaign: { '1-1': 3 }, achievements: { unlocked: {}, days: {}, facts: [] } } },
+    leaderboards: { '1:NORMAL:castle': [{ initials: 'ABC', score: 10, date: 1, accuracy: 1, timeSurvived: 5 }] }
+  });
+
+  it('writes the save and every player\'s stored progress', () => {
+    const { data } = importProgress(loadSave(), incoming());
+    expect(loadSave().sessions).toEqual(data.sessions);
+    expect(loadCampaignProgress('p1')).toEqual({ '1-1': 3 });
+    expect(Object.keys(loadLeaderboards())).toEqual(['1:NORMAL:castle']);
+  });
+
+  it('writes nothing when storage runs out part way', () => {
+    const before = loadSave();
+    const stored = { ...localStorage };
+    MemoryStorage.failOn = key => key === 'magicMathLeaderboard';
+    expect(errorCode(() => importProgress(before, incoming()))).toBe('progress-storage');
+    expect({ ...localStorage }).toEqual(stored);
+  });
+});
@@ -0,0 +1,203 @@
+import { WIN_CONDITIONS } from './engine';
+import { DataError } from './errors';
+import { AchievementProgress, loadAchievements, mergeAchievements, parseAchievements, saveAchievements } from './achievements';
+import { CampaignProgress, loadCampaignProgress, mergeCampaignProgress, parseCampaignProgress, saveCampaignProgress } from './campaign';
+import { DailyResults, loadDailyResults, mergeDailyResults, parseDailyResults, saveDailyResults } from './daily';
+import { Leaderboards, loadLeaderboards, mergeLeaderboards, parseLeaderboards, saveLeaderboards } from './leaderboard';
+import { loadMastery, MasteryStore, mergeMastery, parseMastery, saveMastery } from './mastery';
+import { buildLearningReport } from './report';
+import { DIFFICULTIES, MAX_SESSIONS, parseSessionOutcome, PlayerProfile, SaveData, SessionRecord, writeSave } from './save';
+
+// --- Progress Export / Import ---
+const EXPORT_FORMAT = 'magic-math-defender-progress';
+// Version 2 added each player's stored progress and the leaderboards
+const EXPORT_VERSION = 2;
+
+// What each player keeps under their own storage keys, next to the save
+export type PlayerProgress = {
+  mastery: MasteryStore,
+  daily: DailyResults,
+  campaign: CampaignProgress,
+  achievements: AchievementProgress
+};
+
+export type ProgressExport = {
+  format: typeof EXPORT_FORMAT,
+  version: number,
+  exportedAt: string,
+  profiles: PlayerProfile[],
+  bestScores: SaveData['bestScores'],
+  sessions: SessionRecord[],
+  // profileId -> progress; empty when imported from a version 1 file
+  players: Record<string, PlayerProgress>,
+  leaderboards: Leaderboards
+};
+
+export type ImportSummary = {
+  profilesAdded: number,
+  sessionsAdded: number,
+  duplicatesSkipped: number,
+  // Oldest games, imported or already saved, dropped to stay within the save's limit
+  sessionsDropped: number
+};
+
+const loadPlayerProgress = (profileId: string): PlayerProgress => ({
+  mastery: loadMastery(profileId),
+  daily: loadDailyResults(profileId),
+  campaign: loadCampaignProgress(profileId),
+  achievements: loadAchievements(profileId)
+});
+
+export const buildProgressExport = (data: SaveData): ProgressExport => ({
+  format: EXPORT_FORMAT,
+  version: EXPORT_VERSION,
+  exportedAt: new Date().toISOString(),
+  profiles: data.profiles,
+  bestScores: data.bestScores,
+  sessions: data.sessions,
+  players: Object.fromEntries(data.profiles.map(p => [p.id, loadPlayerProgress(p.id)])),
+  leaderboards: loadLeaderboards()
+});
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isProfile = (p: any): p is PlayerProfile =>
+  isObject(p) && typeof p.id === 'string' && typeof p.name === 'string' && typeof p.avatar === 'string';
+
+const isProblemRecord = (r: any) =>
+  isObject(r) && typeof r.text === 'string' && typeof r.answer === 'number' && typeof r.spawnedAt === 'number' &&
+  (r.responseTime === null || typeof r.responseTime === 'number') && typeof r.reachedCastle === 'boolean' &&
+  (r.killedBySpell === undefined || typeof r.killedBySpell === 'boolean') &&
+  Array.isArray(r.wrongAnswers) && r.wrongAnswers.every((value: unknown) => typeof value === 'number');
+
+// Sessions recorded before win conditions existed have none
+const isSession = (s: any): s is SessionRecord =>
+  isObject(s) && typeof s.id === 'string' && typeof s.profileId === 'string' && typeof s.levelId === 'number' &&
+  DIFFICULTIES.includes(s.difficulty) && typeof s.adaptive === 'boolean' &&
+  (s.winCondition === undefined || WIN_CONDITIONS.includes(s.winCondition)) &&
+  typeof s.startedAt === 'number' && typeof s.duration === 'number' && typeof s.score === 'number' &&
+  parseSessionOutcome(s.outcome) !== null && Array.isArray(s.problems) && s.problems.every(isProblemRecord);
+
+// Each player's stored progress is cleaned the same way as when it is loaded from storage
+const parsePlayers = (raw: Record<string, any>) => Object.fromEntries(Object.entries(raw).map(([profileId, player]) => [profileId, {
+  mastery: parseMastery(player?.mastery),
+  daily: parseDailyResults(player?.daily),
+  campaign: parseCampaignProgress(player?.campaign),
+  achievements: parseAchievements(player?.achievements)
+}]));
+
+export const parseProgressExport = (raw: unknown): ProgressExport => {
+  if (!isObject(raw) || raw.format !== EXPORT_FORMAT) throw new DataError('progress-format');
+  if (typeof raw.version !== 'number' || raw.version > EXPORT_VERSION) throw new DataError('progress-newer');
+  if (!Array.isArray(raw.profiles) || !raw.profiles.every(isProfile)) throw new DataError('progress-players');
+  if (!Array.isArray(raw.sessions) || !raw.sessions.every(isSession)) throw new DataError('progress-sessions');
+  if (!isObject(raw.bestScores)) throw new DataError('progress-scores');
+  if (raw.version >= 2 && (!isObject(raw.players) || !isObject(raw.leaderboards))) throw new DataError('progress-players');
+  return {
+    ...raw as ProgressExport,
+    sessions: raw.sessions.map((s: SessionRecord) => ({ ...s, outcome: parseSessionOutcome(s.outcome) })),
+    players: raw.version >= 2 ? parsePlayers(raw.players) : {},
+    leaderboards: raw.version >= 2 ? parseLeaderboards(raw.leaderboards) : {}
+  };
+};
+
+// Progress stored outside the save goes straight into storage, for the file's players only
+const importStoredProgress = (incoming: ProgressExport) => {
+  incoming.profiles.forEach(({ id }) => {
+    const player = incoming.players[id];
+    if (!player) return;
+    saveMastery(id, mergeMastery(loadMastery(id), player.mastery));
+    saveDailyResults(id, mergeDailyResults(loadDailyResults(id), player.daily));
+    saveCampaignProgress(id, mergeCampaignProgress(loadCampaignProgress(id), player.campaign));
+    saveAchievements(id, mergeAchievements(loadAchievements(id), player.achievements));
+  });
+  saveLeaderboards(mergeLeaderboards(loadLeaderboards(), incoming.leaderboards));
+};
+
+// Players and sessions are matched by id; best scores keep the higher value. Past MAX_SESSIONS the
+// oldest games are dropped here rather than silently on the next save.
+export const mergeProgress = (data: SaveData, incoming: ProgressExport): { data: SaveData, summary: ImportSummary } => {
+  const profileIds = new Set(data.profiles.map(p => p.id));
+  const sessionIds = new Set(data.sessions.map(s => s.id));
+  const newProfiles = incoming.profiles.filter(p => !profileIds.has(p.id));
+  const newSessions = incoming.sessions.filter(s => !sessionIds.has(s.id));
+
+  const bestScores = { ...data.bestScores };
+  Object.entries(incoming.bestScores).forEach(([profileId, scores]) => {
+    if (!isObject(scores)) return;
+    const merged = { ...bestScores[profileId] };
+    Object.entries(scores).forEach(([key, score]) => {
+      if (typeof score === 'number' && score > (merged[key] || 0)) merged[key] = score;
+    });
+    bestScores[profileId] = merged;
+  });
+
+  const sessions = [...data.sessions, ...newSessions].sort((a, b) => a.startedAt - b.startedAt);
+  const kept = sessions.slice(-MAX_SESSIONS);
+
+  return {
+    data: {
+      ...data,
+      profiles: [...data.profiles, ...newProfiles],
+      bestScores,
+      sessions: kept
+    },
+    summary: {
+      profilesAdded: newProfiles.length,
+      sessionsAdded: newSessions.filter(s => kept.includes(s)).length,
+      duplicatesSkipped: (incoming.profiles.length - newProfiles.length) + (incoming.sessions.length - newSessions.length),
+      sessionsDropped: sessions.length - kept.length
+    }
+  };
+};
+
+// Writes the merged save and every player's stored progress, or nothing: if storage runs out part way,
+// what was already written is put back
+export const importProgress = (data: SaveData, incoming: ProgressExport) => {
+  const merged = mergeProgress(data, incoming);
+  const snapshot = Object.fromEntries(Object.keys(localStorage).map(key => [key, localStorage.getItem(key)]));
+  try {
+    writeSave(merged.data);
+    importStoredProgress(incoming);
+  } catch (err) {
+    Object.keys(localStorage).forEach(key => {
+      if (!(key in snapshot)) localStorage.removeItem(key);
+    });
+    Object.entries(snapshot).forEach(([key, value]) => localStorage.setItem(key, value));
+    throw new DataError('progress-storage');
+  }
+  return merged;
+};
+
+// --- CSV ---
+const csvCell = (value: string | number | boolean | null) => {
+  const text = value === null ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = (header: string[], rows: (string | number | boolean | null)[][]) =>
+  [header, ...rows].map(row => row.map(csvCell).join(',')).join('\n');
+
+const playerName = (data: SaveData, profileId: string) =>
+  data.profiles.find(p => p.id === profileId)?.name || profileId;
+
+export const sessionsToCsv = (data: SaveData) => toCsv(
+  ['session_id', 'player', 'level', 'difficulty', 'adaptive', 'win_condition', 'started_at', 'duration_s', 'score', 'outcome', 'correct', 'wrong', 'missed', 'accuracy'],
+  data.sessions.map(s => {
+    const report = buildLearningReport(s.problems, null);
+    return [
+      s.id, playerName(data, s.profileId), s.levelId, s.difficulty, s.adaptive, s.winCondition || 'sudden-death', new Date(s.startedAt).toISOString(),
+      s.duration.toFixed(1), s.score, s.outcome, report.correct, report.wrong, report.leaked, report.accuracy.toFixed(2)
+    ];
+  })
+);
+
+export const problemsToCsv = (data: SaveData) => toCsv(
+  ['session_id', 'player', 'level', 'difficulty', 'started_at', 'problem', 'answer', 'spawned_at_s', 'response_time_s', 'reached_castle', 'killed_by_spell', 'wrong_answers'],
+  data.sessions.flatMap(s => s.problems.map(p => [
+    s.id, playerName(data, s.profileId), s.levelId, s.difficulty, new Date(s.startedAt).toISOString(),
+    p.text, p.answer, p.spawnedAt.toFixed(1), p.responseTime === null ? null : p.responseTime.toFixed(2),
+    p.reachedCastle, p.killedBySpell === true, p.wrongAnswers.join(' ')
+  ]))
+);
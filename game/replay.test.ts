@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { FIXED_STEP } from './engine';
+import { DataError } from './errors';
+import { DEFAULT_LEVELS } from './levels';
+import { createRecordedEngine, createRecording, finishRecording, parseRecording, Recording, recordInput, recordKills, ReplayPlayer } from './replay';
+
+const recording = (overrides: Partial<Recording> = {}): Recording => ({
+  ...createRecording({
+    player: 'ANA', recordedAt: 1, seed: 5, level: DEFAULT_LEVELS[0], difficulty: 'NORMAL', difficultyMultiplier: 1,
+    operations: ['add'], winCondition: 'castle', timeLimit: 60, representation: null, pictureOnly: false,
+    problemSet: null, mastery: null, waves: null, pacing: 'score', bounds: { width: 800, height: 1000 }
+  }),
+  ...overrides
+});
+
+// Round trip through JSON, as a saved file would
+const file = (overrides: Record<string, unknown> = {}) => ({ ...JSON.parse(JSON.stringify(recording())), ...overrides });
+
+const errorCode = (raw: unknown) => {
+  try {
+    parseRecording(raw);
+  } catch (err) {
+    return err instanceof DataError ? err.code : 'not a data error';
+  }
+  return null;
+};
+
+describe('parseRecording', () => {
+  it('reads back a saved recording', () => {
+    expect(parseRecording(file())).toEqual(recording());
+  });
+
+  it('names what is wrong with a bad file', () => {
+    expect(errorCode('junk')).toBe('replay-format');
+    expect(errorCode([1])).toBe('replay-format');
+    expect(errorCode(file({ version: 99 }))).toBe('replay-newer');
+    expect(errorCode(file({ level: { id: 1 } }))).toMatch(/^level-/);
+    expect(errorCode(file({ seed: -1 }))).toBe('replay-settings');
+    expect(errorCode(file({ difficulty: 'IMPOSSIBLE' }))).toBe('replay-settings');
+    expect(errorCode(file({ bounds: { width: 0, height: 10 } }))).toBe('replay-settings');
+    expect(errorCode(file({ pacing: 'frantic' }))).toBe('replay-settings');
+    expect(errorCode(file({ pacing: 'waves' }))).toBe('replay-settings');
+    expect(errorCode(file({ operations: ['modulo'] }))).toBe('replay-operations');
+    expect(errorCode(file({ inputs: [{ type: 'answer', value: 'seven', step: 1 }] }))).toBe('replay-inputs');
+    expect(errorCode(file({ kills: [{ step: -1, text: '1 + 1' }] }))).toBe('replay-inputs');
+    expect(errorCode(file({ waves: [{ enemies: 0, spawnRate: 1000, speed: 1 }] }))).toBe('replay-waves');
+    expect(errorCode(file({ problemSet: 'not a code' }))).toBe('set-code');
+  });
+
+  it('fills in what older recordings lack', () => {
+    const old = file({ mastery: { version: 1, facts: {} } });
+    delete old.waves;
+    delete old.pacing;
+    const parsed = parseRecording(old);
+    expect(parsed.waves).toBeNull();
+    expect(parsed.pacing).toBe('adaptive');
+  });
+
+  it('sorts inputs by step and drops unreadable mastery', () => {
+    const parsed = parseRecording(file({
+      inputs: [{ type: 'typed', text: '1', step: 9 }, { type: 'typed', text: '', step: 2 }],
+      mastery: { version: 2 }
+    }));
+    expect(parsed.inputs.map(i => i.step)).toEqual([2, 9]);
+    expect(parsed.mastery).toBeNull();
+  });
+});
+
+describe('ReplayPlayer', () => {
+  // Plays a short run live, recording it as the game does
+  const recordRun = () => {
+    const recorded = recording();
+    const engine = createRecordedEngine(recorded, null);
+    engine.on(event => recordKills(recorded, engine, event));
+    for (let i = 0; i < 600 && engine.state.status === 'running'; i++) {
+      engine.step(FIXED_STEP);
+      const enemy = engine.state.enemies[0];
+      if (enemy && i % 30 === 0) {
+        recordInput(recorded, engine, { type: 'answer', value: enemy.problem.answer });
+        engine.submitAnswer(enemy.problem.answer);
+      }
+    }
+    finishRecording(recorded, engine);
+    return recorded;
+  };
+
+  it('re-simulates the run to the same score', () => {
+    const recorded = recordRun();
+    expect(recorded.kills.length).toBeGreaterThan(0);
+    const player = new ReplayPlayer(parseRecording(JSON.parse(JSON.stringify(recorded))));
+    player.advanceTo(recorded.steps);
+    expect(player.engine.state.score).toBe(recorded.score);
+  });
+
+  it('seeks back and forth to the same state', () => {
+    const recorded = recordRun();
+    const player = new ReplayPlayer(recorded);
+    player.seek(recorded.steps);
+    player.seek(recorded.steps / 2);
+    player.seek(recorded.steps);
+    expect(player.engine.state.score).toBe(recorded.score);
+  });
+});
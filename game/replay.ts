@@ -0,0 +1,259 @@
+import { Bounds, FIXED_STEP, GameEngine, GameEvent, GameListener, Pacing, PACINGS, Wave, WIN_CONDITIONS, WinCondition } from './engine';
+import { DataError } from './errors';
+import { LevelDefinition, parseLevelPack } from './levels';
+import { applyMasteryEvent, createAdaptiveProblemSource, MasteryStore, parseMastery } from './mastery';
+import { Operation, OPERATIONS, Representation, REPRESENTATIONS } from './problems';
+import { createProblemSetSource, decodeProblemSet } from './problemSets';
+import { DIFFICULTIES, Difficulty } from './save';
+import { SPELL_IDS, SpellId } from './spells';
+
+// --- Session Recordings ---
+// A run is fully determined by its setup, its seed and what the player did at which engine step,
+// so a recording keeps only those and a replay re-simulates the run through the engine.
+const RECORDING_VERSION = 1;
+
+export type ReplayAction =
+  // Contents of the answer field after each keystroke
+  | { type: 'typed', text: string }
+  | { type: 'answer', value: number }
+  | { type: 'wrong', value: number }
+  | { type: 'spell', spell: SpellId }
+  // The playfield switched orientation
+  | { type: 'bounds', bounds: Bounds };
+
+// `step` is the number of engine steps simulated before the input
+export type ReplayInput = ReplayAction & { step: number };
+
+export type ReplayKill = { step: number, text: string };
+
+export type Recording = {
+  version: number,
+  player: string,
+  recordedAt: number,
+  seed: number,
+  level: LevelDefinition,
+  difficulty: Difficulty,
+  difficultyMultiplier: number,
+  operations: Operation[],
+  winCondition: WinCondition,
+  timeLimit: number,
+  representation: Representation | null,
+  pictureOnly: boolean,
+  // Share code of the teacher's problem set, if one was played
+  problemSet: string | null,
+  // Mastery at the start of an adaptive run; the run's answers update it exactly as they did live
+  mastery: MasteryStore | null,
+  // Campaign stage waves
+  waves: Wave[] | null,
+  pacing: Pacing,
+  bounds: Bounds,
+  inputs: ReplayInput[],
+  kills: ReplayKill[],
+  // Filled in when the run ends
+  steps: number,
+  score: number
+};
+
+export type RecordingSetup = Omit<Recording, 'version' | 'inputs' | 'kills' | 'steps' | 'score'>;
+
+export const createRecording = (setup: RecordingSetup): Recording => ({
+  version: RECORDING_VERSION,
+  ...setup,
+  mastery: setup.mastery && JSON.parse(JSON.stringify(setup.mastery)),
+  inputs: [],
+  kills: [],
+  steps: 0,
+  score: 0
+});
+
+// Live play and replays both build their engine here, so they can't drift apart
+export const createRecordedEngine = (recording: Recording, mastery: MasteryStore | null) => {
+  const set = recording.problemSet ? decodeProblemSet(recording.problemSet) : null;
+  const { level, operations } = recording;
+  return new GameEngine({
+    level,
+    operations,
+    difficultyMultiplier: recording.difficultyMultiplier,
+    bounds: recording.bounds,
+    seed: recording.seed,
+    problemSource: set ? createProblemSetSource(set) :
+      mastery ? createAdaptiveProblemSource(mastery, level, operations) : undefined,
+    problemSourceOnly: set !== null,
+    representation: recording.representation,
+    pictureOnly: recording.pictureOnly,
+    pacing: recording.pacing,
+    waves: recording.waves || undefined,
+    winCondition: recording.winCondition,
+    timeLimit: recording.timeLimit
+  });
+};
+
+export const recordInput = (recording: Recording, engine: GameEngine, action: ReplayAction) => {
+  recording.inputs.push({ ...action, step: engine.state.steps });
+};
+
+// Kills by answer or by fireball, shown on the replay timeline
+export const recordKills = (recording: Recording, engine: GameEngine, event: GameEvent) => {
+  const killed = event.type === 'kill' ? [event.enemy] : event.type === 'spell' ? event.killed : [];
+  killed.forEach(enemy => recording.kills.push({ step: engine.state.steps, text: enemy.problem.text }));
+};
+
+export const finishRecording = (recording: Recording, engine: GameEngine) => {
+  recording.steps = engine.state.steps;
+  recording.score = engine.state.score;
+};
+
+// --- Replay Files ---
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isCount = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 0;
+
+const isBounds = (bounds: any): bounds is Bounds =>
+  typeof bounds === 'object' && bounds !== null && bounds.width > 0 && bounds.height > 0;
+
+const isInput = (input: any): input is ReplayInput => {
+  if (typeof input !== 'object' || input === null || !isCount(input.step)) return false;
+  switch (input.type) {
+    case 'typed': return typeof input.text === 'string';
+    case 'answer':
+    case 'wrong': return Number.isFinite(input.value);
+    case 'spell': return SPELL_IDS.includes(input.spell);
+    case 'bounds': return isBounds(input.bounds);
+    default: return false;
+  }
+};
+
+const isWave = (wave: any): wave is Wave =>
+  typeof wave === 'object' && wave !== null && Number.isInteger(wave.enemies) && wave.enemies > 0 &&
+  wave.spawnRate > 0 && wave.speed > 0;
+
+const isKill = (kill: any): kill is ReplayKill =>
+  typeof kill === 'object' && kill !== null && isCount(kill.step) && typeof kill.text === 'string';
+
+export const parseRecording = (raw: unknown): Recording => {
+  if (!isObject(raw) || typeof raw.version !== 'number') throw new DataError('replay-format');
+  if (raw.version > RECORDING_VERSION) throw new DataError('replay-newer');
+  const [level] = parseLevelPack([raw.level]);
+  if (!isCount(raw.seed) || !DIFFICULTIES.includes(raw.difficulty) || !(raw.difficultyMultiplier > 0) ||
+      !WIN_CONDITIONS.includes(raw.winCondition) || !(raw.timeLimit >= 0) || !isBounds(raw.bounds)) {
+    throw new DataError('replay-settings');
+  }
+  if (!Array.isArray(raw.operations) || raw.operations.length === 0 || !raw.operations.every((op: any) => OPERATIONS.includes(op))) {
+    throw new DataError('replay-operations');
+  }
+  if (!Array.isArray(raw.inputs) || !raw.inputs.every(isInput) || !Array.isArray(raw.kills) || !raw.kills.every(isKill)) {
+    throw new DataError('replay-inputs');
+  }
+  // Throws on a bad code
+  if (raw.problemSet !== null) decodeProblemSet(String(raw.problemSet));
+  const mastery = isObject(raw.mastery) && raw.mastery.version === 1 ? parseMastery(raw.mastery) : null;
+  // Missing from replays recorded before the campaign
+  const waves = raw.waves ?? null;
+  if (waves !== null && (!Array.isArray(waves) || waves.length === 0 || !waves.every(isWave))) throw new DataError('replay-waves');
+  // Missing from replays recorded before steady pacing, which followed from the other settings
+  const pacing: Pacing = raw.pacing === undefined ? (waves ? 'waves' : mastery ? 'adaptive' : 'score') : raw.pacing;
+  if (!PACINGS.includes(pacing) || pacing === 'waves' && waves === null) throw new DataError('replay-settings');
+
+  return {
+    version: raw.version,
+    player: String(raw.player || ''),
+    recordedAt: Number(raw.recordedAt) || 0,
+    seed: raw.seed,
+    level,
+    difficulty: raw.difficulty,
+    difficultyMultiplier: raw.difficultyMultiplier,
+    operations: raw.operations,
+    winCondition: raw.winCondition,
+    timeLimit: raw.timeLimit,
+    representation: REPRESENTATIONS.includes(raw.representation) ? raw.representation : null,
+    pictureOnly: raw.pictureOnly === true,
+    problemSet: raw.problemSet,
+    mastery,
+    waves,
+    pacing,
+    bounds: raw.bounds,
+    inputs: [...raw.inputs].sort((a, b) => a.step - b.step),
+    kills: raw.kills,
+    steps: isCount(raw.steps) ? raw.steps : 0,
+    score: isCount(raw.score) ? raw.score : 0
+  };
+};
+
+// --- Replay Playback ---
+// Re-runs a recording in a fresh engine, feeding each input back at the step it was made
+export class ReplayPlayer {
+  recording: Recording;
+  engine: GameEngine;
+  // What the answer field showed at the current step
+  typed = '';
+  nextInput = 0;
+  listener: GameListener | null = null;
+  // Set while seeking, so jumping around doesn't replay every effect
+  muted = false;
+
+  constructor(recording: Recording) {
+    this.recording = recording;
+    this.reset();
+  }
+
+  reset() {
+    const { recording } = this;
+    const mastery: MasteryStore | null = recording.mastery && JSON.parse(JSON.stringify(recording.mastery));
+    this.engine = createRecordedEngine(recording, mastery);
+    if (mastery) this.engine.on(event => applyMasteryEvent(mastery, recording.level.id, event));
+    this.engine.on(event => {
+      if (!this.muted) this.listener?.(event);
+    });
+    this.typed = '';
+    this.nextInput = 0;
+  }
+
+  get step() {
+    return this.engine.state.steps;
+  }
+
+  get isFinished() {
+    return this.engine.state.status !== 'running' || this.step >= this.recording.steps;
+  }
+
+  advanceTo(target: number) {
+    const { inputs } = this.recording;
+    while (true) {
+      while (this.nextInput < inputs.length && inputs[this.nextInput].step <= this.step) this.apply(inputs[this.nextInput++]);
+      if (this.step >= target || this.isFinished) return;
+      this.engine.step(FIXED_STEP);
+    }
+  }
+
+  // Jumps without emitting events; the caller redraws from the engine's state
+  seek(target: number) {
+    this.muted = true;
+    if (target < this.step) this.reset();
+    this.advanceTo(target);
+    this.muted = false;
+  }
+
+  apply(input: ReplayInput) {
+    switch (input.type) {
+      case 'typed':
+        this.typed = input.text;
+        break;
+      // The field is cleared after a hit or a wrong answer
+      case 'answer':
+        this.engine.submitAnswer(input.value);
+        this.typed = '';
+        break;
+      case 'wrong':
+        this.engine.recordWrongAnswer(input.value);
+        this.typed = '';
+        break;
+      case 'spell':
+        this.engine.castSpell(input.spell);
+        break;
+      case 'bounds':
+        this.engine.setBounds(input.bounds);
+        break;
+    }
+  }
+}
@@ -0,0 +1,40 @@
+import { ProblemRecord } from './engine';
+
+// --- Learning Report ---
+export type LearningReport = {
+  correct: number,
+  wrong: number,
+  leaked: number,
+  // Correct answers over every committed answer and leak; fireball kills count as neither
+  accuracy: number,
+  medianResponseTime: number | null,
+  slowest: ProblemRecord[],
+  defeatProblem: ProblemRecord | null
+};
+
+const SLOWEST_COUNT = 3;
+
+const median = (values: number[]) => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+export const buildLearningReport = (log: ProblemRecord[], defeatedBy: number | null): LearningReport => {
+  const answered = log.filter(r => r.responseTime !== null);
+  const correct = answered.length;
+  const wrong = log.reduce((sum, r) => sum + r.wrongAnswers.length, 0);
+  const leaked = log.filter(r => r.reachedCastle).length;
+  const total = correct + wrong + leaked;
+
+  return {
+    correct,
+    wrong,
+    leaked,
+    accuracy: total > 0 ? correct / total : 0,
+    medianResponseTime: median(answered.map(r => r.responseTime as number)),
+    slowest: [...answered].sort((a, b) => (b.responseTime as number) - (a.responseTime as number)).slice(0, SLOWEST_COUNT),
+    defeatProblem: log.find(r => r.enemyId === defeatedBy) || null
+  };
+};
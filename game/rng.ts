@@ -0,0 +1,19 @@
+// --- Random Number Generation ---
+export type Rng = () => number;
+
+// Mulberry32: small, fast and good enough for gameplay randomness
+export const createRng = (seed: number): Rng => {
+  let t = seed >>> 0;
+  return () => {
+    t = (t + 0x6D2B79F5) >>> 0;
+    let r = Math.imul(t ^ (t >>> 15), 1 | t);
+    r = (r + Math.imul(r ^ (r >>> 7), 61 | r)) ^ r;
+    return ((r ^ (r >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export const randomSeed = () => Math.floor(Math.random() * 4294967296);
+
+export const randomInt = (rng: Rng, min: number, max: number) => Math.floor(rng() * (max - min + 1)) + min;
+
+export const pick = <T>(rng: Rng, items: T[]): T => items[Math.floor(rng() * items.length)];
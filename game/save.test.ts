@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { createProfile, getOverallBest, loadSave, MAX_SESSIONS, SAVE_VERSION, SaveData, SessionRecord, withBestScore, withoutProfile, withSession } from './save';
+import { useMemoryStorage } from './testStorage';
+
+useMemoryStorage();
+
+const SAVE_KEY = 'magicMathSave';
+
+const backups = () => Object.keys(localStorage).filter(key => key.startsWith('magicMathSaveBackup:'));
+
+const stored = () => JSON.parse(localStorage.getItem(SAVE_KEY));
+
+const session = (id: string, profileId = 'p1'): SessionRecord => ({
+  id, profileId, levelId: 1, difficulty: 'NORMAL', adaptive: false, startedAt: 0, duration: 30, score: 10, outcome: 'victory', problems: []
+});
+
+describe('loadSave', () => {
+  it('starts a fresh save with one player', () => {
+    const data = loadSave();
+    expect(data.version).toBe(SAVE_VERSION);
+    expect(data.profiles).toHaveLength(1);
+    expect(data.activeProfileId).toBe(data.profiles[0].id);
+    expect(stored()).toEqual(data);
+    expect(backups()).toEqual([]);
+  });
+
+  it('carries the old single high score over and removes it', () => {
+    localStorage.setItem('magicMathHighScore', '420');
+    const data = loadSave();
+    expect(data.profiles[0].legacyBest).toBe(420);
+    expect(localStorage.getItem('magicMathHighScore')).toBeNull();
+  });
+
+  it('migrates version 2 outcomes', () => {
+    const profile = { id: 'p1', name: 'ANA', avatar: '👻', createdAt: 0 };
+    const v2 = { version: 2, activeProfileId: 'p1', profiles: [profile], bestScores: {}, sessions: [{ ...session('s1'), outcome: "TIME'S UP!" }] };
+    localStorage.setItem(SAVE_KEY, JSON.stringify(v2));
+    const data = loadSave();
+    expect(data.version).toBe(SAVE_VERSION);
+    expect(data.sessions[0].outcome).toBe('victory');
+    expect(stored().version).toBe(SAVE_VERSION);
+  });
+
+  it('backs up a save it cannot read before starting fresh', () => {
+    ['{not json', JSON.stringify({ version: 99, profiles: [] }), JSON.stringify({ version: 'x' })].forEach(raw => {
+      localStorage.clear();
+      localStorage.setItem(SAVE_KEY, raw);
+      const data = loadSave();
+      expect(data.profiles).toHaveLength(1);
+      expect(backups().map(key => localStorage.getItem(key))).toEqual([raw]);
+    });
+  });
+
+  it('repairs an active player that no longer exists', () => {
+    loadSave();
+    localStorage.setItem(SAVE_KEY, JSON.stringify({ ...stored(), activeProfileId: 'gone' }));
+    const data = loadSave();
+    expect(data.activeProfileId).toBe(data.profiles[0].id);
+  });
+});
+
+describe('save updates', () => {
+  const save = (): SaveData => ({
+    version: 3,
+    activeProfileId: 'p1',
+    profiles: [{ ...createProfile('ANA', '👻'), id: 'p1', legacyBest: 40 }, { ...createProfile('BO', '👺'), id: 'p2' }],
+    bestScores: { p1: { '1:NORMAL': 30 } },
+    sessions: [session('s1'), session('s2', 'p2')]
+  });
+
+  it('keeps only better scores', () => {
+    expect(withBestScore(save(), 'p1', 1, 'NORMAL', 20).bestScores.p1['1:NORMAL']).toBe(30);
+    expect(withBestScore(save(), 'p1', 1, 'NORMAL', 50).bestScores.p1['1:NORMAL']).toBe(50);
+    expect(getOverallBest(save(), 'p1')).toBe(40);
+  });
+
+  it('removes a player with their scores and games, but never the last one', () => {
+    const data = withoutProfile(save(), 'p1');
+    expect(data.profiles.map(p => p.id)).toEqual(['p2']);
+    expect(data.bestScores).toEqual({});
+    expect(data.sessions.map(s => s.id)).toEqual(['s2']);
+    expect(data.activeProfileId).toBe('p2');
+    expect(withoutProfile(data, 'p2')).toBe(data);
+  });
+
+  it('drops the oldest games past the limit', () => {
+    let data = save();
+    for (let i = 0; i < MAX_SESSIONS; i++) data = withSession(data, session(`n${i}`));
+    expect(data.sessions).toHaveLength(MAX_SESSIONS);
+    expect(data.sessions[0].id).toBe('n0');
+  });
+});
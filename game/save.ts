@@ -0,0 +1,185 @@
+import { ProblemRecord, WinCondition } from './engine';
+
+// --- Persistent Save Data (profiles & records) ---
+export type Difficulty = 'EASY' | 'NORMAL' | 'HARD';
+
+export const DIFFICULTIES: Difficulty[] = ['EASY', 'NORMAL', 'HARD'];
+
+export const AVATARS = ['🧙‍♂️', '🧙‍♀️', '👺', '👻', '👹', '🧟'];
+
+export type PlayerProfile = {
+  id: string,
+  name: string,
+  avatar: string,
+  createdAt: number,
+  // Best score carried over from the single pre-profile high score, level and difficulty unknown
+  legacyBest?: number
+};
+
+export type SessionOutcome = 'defeated' | 'victory';
+
+export const SESSION_OUTCOMES: SessionOutcome[] = ['defeated', 'victory'];
+
+export type SessionRecord = {
+  id: string,
+  profileId: string,
+  levelId: number,
+  difficulty: Difficulty,
+  adaptive: boolean,
+  // Missing on sessions recorded before win conditions existed
+  winCondition?: WinCondition,
+  startedAt: number,
+  duration: number,
+  score: number,
+  outcome: SessionOutcome,
+  problems: ProblemRecord[]
+};
+
+export type SaveData = {
+  version: 3,
+  activeProfileId: string,
+  profiles: PlayerProfile[],
+  // profileId -> "levelId:difficulty" -> best score
+  bestScores: Record<string, Record<string, number>>,
+  sessions: SessionRecord[]
+};
+
+export const SAVE_VERSION = 3;
+// Oldest sessions are dropped past this so localStorage stays well under quota
+export const MAX_SESSIONS = 200;
+const SAVE_KEY = 'magicMathSave';
+const LEGACY_HIGH_SCORE_KEY = 'magicMathHighScore';
+// Unreadable saves are kept under this prefix, with the time they were set aside
+const SAVE_BACKUP_KEY = 'magicMathSaveBackup';
+
+export const createId = (prefix: string) => `${prefix}${Date.now().toString(36)}${Math.floor(Math.random() * 1e6).toString(36)}`;
+
+export const createProfile = (name: string, avatar: string): PlayerProfile => ({
+  id: createId('p'),
+  name: name.trim().slice(0, 12) || 'PLAYER',
+  avatar,
+  createdAt: Date.now()
+});
+
+// Version 0 is the old single `magicMathHighScore` key
+const migrateFromLegacy = () => {
+  const profile = createProfile('PLAYER 1', AVATARS[0]);
+  const legacy = parseInt(localStorage.getItem(LEGACY_HIGH_SCORE_KEY) || '0', 10);
+  if (legacy > 0) profile.legacyBest = legacy;
+  return { version: 1, activeProfileId: profile.id, profiles: [profile], bestScores: {} };
+};
+
+// Before version 3 sessions kept the English game-over title as their outcome
+const LEGACY_OUTCOMES: Record<string, SessionOutcome> = { 'DEFEATED': 'defeated', "TIME'S UP!": 'victory' };
+
+export const parseSessionOutcome = (value: unknown): SessionOutcome | null => {
+  if (SESSION_OUTCOMES.includes(value as SessionOutcome)) return value as SessionOutcome;
+  return typeof value === 'string' && Object.hasOwn(LEGACY_OUTCOMES, value) ? LEGACY_OUTCOMES[value] : null;
+};
+
+// Upgrades older save versions one step at a time; index N upgrades version N to N + 1
+const MIGRATIONS: ((data: any) => any)[] = [
+  () => migrateFromLegacy(),
+  (data) => ({ ...data, version: 2, sessions: [] }),
+  (data) => ({
+    ...data,
+    version: 3,
+    sessions: Array.isArray(data.sessions)
+      ? data.sessions.map((s: any) => ({ ...s, outcome: parseSessionOutcome(s.outcome) || s.outcome }))
+      : data.sessions
+  })
+];
+
+const isValidSave = (data: any): data is SaveData =>
+  data && data.version === SAVE_VERSION && Array.isArray(data.profiles) && data.profiles.length > 0 &&
+  typeof data.bestScores === 'object' && data.bestScores !== null && Array.isArray(data.sessions);
+
+export const writeSave = (data: SaveData) => {
+  localStorage.setItem(SAVE_KEY, JSON.stringify(data));
+};
+
+// Runs the migrations from `version` up to SAVE_VERSION
+const upgrade = (data: any, version: number) => {
+  for (; version < SAVE_VERSION; version++) data = MIGRATIONS[version](data);
+  return data;
+};
+
+export const loadSave = (): SaveData => {
+  const stored = localStorage.getItem(SAVE_KEY);
+  let data: any = null;
+  try {
+    data = JSON.parse(stored || 'null');
+  } catch (e) {}
+
+  // Nothing stored yet is version 0; stored saves are only migrated from versions this build knows
+  const version = stored === null ? 0 : data?.version;
+  if (stored === null || (Number.isInteger(version) && version >= 1 && version < SAVE_VERSION)) {
+    data = upgrade(data, version);
+    if (isValidSave(data)) {
+      writeSave(data);
+      localStorage.removeItem(LEGACY_HIGH_SCORE_KEY);
+    }
+  }
+
+  if (!isValidSave(data)) {
+    // Corrupt, or written by a newer version: set it aside instead of losing every profile in it
+    if (stored !== null) localStorage.setItem(`${SAVE_BACKUP_KEY}:${Date.now()}`, stored);
+    data = upgrade(null, 0);
+    writeSave(data);
+  }
+  if (!data.profiles.some((p: PlayerProfile) => p.id === data.activeProfileId)) {
+    data.activeProfileId = data.profiles[0].id;
+  }
+  return data;
+};
+
+export const getActiveProfile = (data: SaveData) =>
+  data.profiles.find(p => p.id === data.activeProfileId) || data.profiles[0];
+
+const scoreKey = (levelId: number, difficulty: Difficulty) => `${levelId}:${difficulty}`;
+
+export const getBestScore = (data: SaveData, profileId: string, levelId: number, difficulty: Difficulty) =>
+  data.bestScores[profileId]?.[scoreKey(levelId, difficulty)] || 0;
+
+// Highest score this profile has on any level, including the migrated legacy score
+export const getOverallBest = (data: SaveData, profileId: string) => {
+  const profile = data.profiles.find(p => p.id === profileId);
+  return Math.max(profile?.legacyBest || 0, ...Object.values(data.bestScores[profileId] || {}));
+};
+
+export const withBestScore = (data: SaveData, profileId: string, levelId: number, difficulty: Difficulty, score: number): SaveData => {
+  if (score <= getBestScore(data, profileId, levelId, difficulty)) return data;
+  return {
+    ...data,
+    bestScores: {
+      ...data.bestScores,
+      [profileId]: { ...data.bestScores[profileId], [scoreKey(levelId, difficulty)]: score }
+    }
+  };
+};
+
+export const withProfile = (data: SaveData, profile: PlayerProfile): SaveData => ({
+  ...data,
+  profiles: [...data.profiles, profile],
+  activeProfileId: profile.id
+});
+
+export const withActiveProfile = (data: SaveData, profileId: string): SaveData => ({ ...data, activeProfileId: profileId });
+
+export const withoutProfile = (data: SaveData, profileId: string): SaveData => {
+  if (data.profiles.length <= 1) return data;
+  const profiles = data.profiles.filter(p => p.id !== profileId);
+  const { [profileId]: _removed, ...bestScores } = data.bestScores;
+  return {
+    ...data,
+    profiles,
+    bestScores,
+    sessions: data.sessions.filter(session => session.profileId !== profileId),
+    activeProfileId: data.activeProfileId === profileId ? profiles[0].id : data.activeProfileId
+  };
+};
+
+export const withSession = (data: SaveData, session: SessionRecord): SaveData => ({
+  ...data,
+  sessions: [...data.sessions, session].slice(-MAX_SESSIONS)
+});
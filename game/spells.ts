@@ -0,0 +1,34 @@
+// --- Spells & Combos ---
+export type SpellId = 'freeze' | 'fireball' | 'slow';
+
+export type SpellDefinition = {
+  name: string,
+  icon: string,
+  hotkey: string,
+  cost: number,
+  // Seconds the effect lasts; 0 for instant spells
+  duration: number
+};
+
+export const SPELLS: Record<SpellId, SpellDefinition> = {
+  freeze: { name: 'FREEZE', icon: '❄️', hotkey: 'q', cost: 50, duration: 4 },
+  fireball: { name: 'FIREBALL', icon: '🔥', hotkey: 'w', cost: 70, duration: 0 },
+  slow: { name: 'SLOW TIME', icon: '⏳', hotkey: 'e', cost: 30, duration: 6 }
+};
+
+export const SPELL_IDS = Object.keys(SPELLS) as SpellId[];
+
+export const MAX_MANA = 100;
+// Everything within this many pixels of the fireball's target is cleared
+export const FIREBALL_RADIUS = 200;
+// Enemy speed while slow time is active
+export const SLOW_FACTOR = 0.4;
+
+// Every COMBO_STEP answers in a row add one to the score multiplier, up to MAX_MULTIPLIER
+const COMBO_STEP = 5;
+const MAX_MULTIPLIER = 4;
+
+export const comboMultiplier = (combo: number) => Math.min(MAX_MULTIPLIER, 1 + Math.floor(combo / COMBO_STEP));
+
+// Longer streaks charge mana faster
+export const manaForAnswer = (combo: number) => 5 + Math.min(combo, 10);
@@ -0,0 +1,36 @@
+import { afterEach, beforeEach, vi } from 'vitest';
+
+// --- localStorage for Tests ---
+// Tests run in Node, which has no localStorage. Items are own properties, as in browsers, so
+// Object.keys(localStorage) lists them. Writes to keys matching `failOn` throw, like a browser over its quota.
+export class MemoryStorage {
+  [key: string]: any;
+
+  getItem(key: string): string | null {
+    return Object.hasOwn(this, key) ? this[key] : null;
+  }
+
+  setItem(key: string, value: string) {
+    if (MemoryStorage.failOn?.(key)) throw new Error('QuotaExceededError');
+    this[key] = String(value);
+  }
+
+  removeItem(key: string) {
+    delete this[key];
+  }
+
+  clear() {
+    Object.keys(this).forEach(key => delete this[key]);
+  }
+
+  static failOn: ((key: string) => boolean) | null = null;
+}
+
+// Gives each test in the file an empty localStorage
+export const useMemoryStorage = () => {
+  beforeEach(() => {
+    MemoryStorage.failOn = null;
+    vi.stubGlobal('localStorage', new MemoryStorage());
+  });
+  afterEach(() => vi.unstubAllGlobals());
+};
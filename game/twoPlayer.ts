@@ -0,0 +1,28 @@
+import { WinCondition } from './engine';
+
+// --- Two-Player Mode ---
+// Two players on one keyboard: player 1 types on the digit row, player 2 on the number pad.
+// In versus each player has their own field and engine with the same seed, so both meet the same
+// problems, and every kill sends an extra minion to the other side. In co-op both wizards defend
+// one field and whoever types an answer first gets the kill.
+export type PlayerMode = 'solo' | 'versus' | 'coop';
+
+export const PLAYER_MODES: PlayerMode[] = ['solo', 'versus', 'coop'];
+
+// A round ends when a castle falls: the other player wins versus, the team's score stands in co-op
+export const TWO_PLAYER_WIN_CONDITION: WinCondition = 'castle';
+
+export type PlayerKey = { player: number, action: 'digit' | 'delete' | 'cast', digit?: string };
+
+// Maps a KeyboardEvent.code to the player it belongs to; by code, so NumLock and layout don't matter
+export const readPlayerKey = (code: string): PlayerKey | null => {
+  const digit = /^(Digit|Numpad)(\d)$/.exec(code);
+  if (digit) return { player: digit[1] === 'Digit' ? 0 : 1, action: 'digit', digit: digit[2] };
+  switch (code) {
+    case 'Backspace': return { player: 0, action: 'delete' };
+    case 'Enter': return { player: 0, action: 'cast' };
+    case 'NumpadDecimal': return { player: 1, action: 'delete' };
+    case 'NumpadEnter': return { player: 1, action: 'cast' };
+    default: return null;
+  }
+};
@@ -0,0 +1,67 @@
+import { Enemy } from './engine';
+import { Problem, Representation, REPRESENTATIONS } from './problems';
+
+// --- Visual Aids for Early Learners ---
+export type VisualAidSettings = {
+  // 'digits' draws no picture on the signs
+  representation: Representation | 'digits',
+  // The picture replaces the digits instead of sitting under them
+  pictureOnly: boolean,
+  // Seconds an enemy is on screen before practice mode shows its number line; 0 = off
+  hintDelay: number
+};
+
+export const HINT_DELAYS = [0, 5, 10];
+
+const SETTINGS_KEY = 'magicMathVisualAids';
+
+export const loadVisualAidSettings = (): VisualAidSettings => {
+  let saved: Record<string, any> = {};
+  try {
+    saved = JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}') || {};
+  } catch (e) {}
+  return {
+    representation: REPRESENTATIONS.includes(saved.representation) ? saved.representation : 'digits',
+    pictureOnly: saved.pictureOnly === true,
+    hintDelay: HINT_DELAYS.includes(saved.hintDelay) ? saved.hintDelay : 0
+  };
+};
+
+export const saveVisualAidSettings = (settings: VisualAidSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+// --- Hint Number Line ---
+export type NumberLine = { max: number, start: number, hops: { from: number, to: number }[] };
+
+// Counting on by ones for small steps, one jump for big ones; times tables skip-count from zero
+export const numberLineFor = (problem: Problem): NumberLine | null => {
+  if (!problem.operands) return null;
+  const [a, b] = problem.operands;
+  const step = (from: number, by: number, count: number) =>
+    Array.from({ length: count }, (_, i) => ({ from: from + i * by, to: from + (i + 1) * by }));
+
+  let start: number;
+  let hops: NumberLine['hops'];
+  if (problem.operation === 'add') {
+    start = a;
+    hops = b <= 10 ? step(a, 1, b) : [{ from: a, to: a + b }];
+  } else if (problem.operation === 'subtract') {
+    start = a;
+    hops = b <= 10 ? step(a, -1, b) : [{ from: a, to: a - b }];
+  } else if (problem.operation === 'multiply') {
+    start = 0;
+    hops = step(0, a, b);
+  } else {
+    return null;
+  }
+  const furthest = Math.max(start, ...hops.map(h => h.to));
+  return { max: Math.max(10, Math.ceil(furthest / 10) * 10), start, hops };
+};
+
+// The enemy nearest the castle that has waited long enough and can be drawn on a number line
+export const pickHintProblem = (enemies: Enemy[], elapsedTime: number, delay: number): Problem | null => {
+  const waiting = enemies.filter(e => elapsedTime - e.spawnedAt >= delay && numberLineFor(e.problem));
+  if (waiting.length === 0) return null;
+  return waiting.reduce((nearest, e) => (e.y > nearest.y ? e : nearest)).problem;
+};
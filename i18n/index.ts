@@ -0,0 +1,46 @@
+import { DataError } from '../game/errors';
+import { LevelDefinition } from '../game/levels';
+import { Locale, LOCALE_TAGS, LOCALES, Messages } from './messages';
+
+export * from './messages';
+
+const LOCALE_KEY = 'magicMathLocale';
+
+// Our players are Vietnamese primary-school pupils, so Vietnamese is the default
+export const loadLocale = (): Locale => {
+  const saved = localStorage.getItem(LOCALE_KEY) as Locale | null;
+  return saved && LOCALES.includes(saved) ? saved : 'vi';
+};
+
+export const saveLocale = (locale: Locale) => {
+  localStorage.setItem(LOCALE_KEY, locale);
+};
+
+export const formatNumber = (locale: Locale, value: number) => value.toLocaleString(LOCALE_TAGS[locale]);
+
+// A custom pack's own level name, otherwise "LVL n" in the player's language
+export const levelName = (t: Messages, level: LevelDefinition, index: number) => level.name || t.levelTitle(index + 1);
+
+// Why a file or code could not be read, in the player's language; `fallback` for anything unexpected
+export const describeError = (t: Messages, err: unknown, fallback: string) => {
+  if (!(err instanceof DataError)) return fallback;
+  const reason = t.dataErrors[err.code];
+  return err.level === null ? reason : t.levelError(err.level, reason);
+};
+
+// Built from the range so custom level packs are described correctly in every language
+export const describeLevel = (t: Messages, level: LevelDefinition) => {
+  const { range, operations } = level;
+  const parts: string[] = [];
+  if (operations.some(op => op === 'add' || op === 'subtract' || op === 'missing' || op === 'mixed')) {
+    parts.push(t.levelNumbers(range.min, range.max));
+  }
+  if (operations.some(op => op === 'multiply' || op === 'divide' || op === 'mixed')) {
+    parts.push(t.levelTables(range.maxFactor));
+  }
+  return parts.join(' · ');
+};
+
+// Problem text with symbols as words, so screen readers don't read "dash" or "question mark"
+export const speakProblem = (t: Messages, text: string) =>
+  text.split(' ').map(token => t.spoken[token] || token).join(' ').replace(/[()]/g, '');
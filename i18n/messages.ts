@@ -0,0 +1,511 @@
+import { Difficulty } from '../game/save';
+import { Operation, Representation } from '../game/problems';
+import { SpellId } from '../game/spells';
+import { WinCondition } from '../game/engine';
+import { RendererType } from '../renderers/renderer';
+import { AudioChannel } from '../audio/soundManager';
+import { RuleType } from '../game/problemSets';
+import { PlayerMode } from '../game/twoPlayer';
+import { AchievementId } from '../game/achievements';
+import { DataErrorCode } from '../game/errors';
+
+// --- UI Message Catalog ---
+export type Locale = 'vi' | 'en';
+
+export const LOCALES: Locale[] = ['vi', 'en'];
+
+// BCP 47 tags for Intl number formatting
+export const LOCALE_TAGS: Record<Locale, string> = { vi: 'vi-VN', en: 'en-US' };
+
+const formatter = (locale: Locale) => {
+  const format = new Intl.NumberFormat(LOCALE_TAGS[locale]);
+  return (value: number) => format.format(value);
+};
+
+const SHORT_DATE: Intl.DateTimeFormatOptions = { year: 'numeric', month: 'short', day: 'numeric' };
+const MONTH: Intl.DateTimeFormatOptions = { year: 'numeric', month: 'long' };
+
+const dateFormatter = (locale: Locale, options: Intl.DateTimeFormatOptions) => {
+  const format = new Intl.DateTimeFormat(LOCALE_TAGS[locale], options);
+  return (timestamp: number) => format.format(timestamp);
+};
+
+const n = formatter('en');
+
+const en = {
+  languageName: 'ENGLISH',
+  language: 'LANGUAGE',
+  title: ['MAGIC MATH', 'DEFENDER'],
+  loading: 'LOADING',
+
+  // Start screen
+  player: 'PLAYER',
+  playerName: 'NAME',
+  ok: 'OK',
+  cancel: 'CANCEL',
+  addPlayer: 'Add player',
+  deletePlayer: 'Delete player',
+  confirmDeletePlayer: 'Delete this player?',
+  best: 'BEST',
+  selectDifficulty: 'SELECT DIFFICULTY',
+  difficulties: { EASY: 'EASY', NORMAL: 'NORMAL', HARD: 'HARD' } as Record<Difficulty, string>,
+  practiceMode: 'PRACTICE MODE',
+  classic: 'CLASSIC',
+  adaptive: 'ADAPTIVE',
+  pictures: 'PICTURES',
+  representations: { digits: 'DIGITS', dots: 'DOTS', 'ten-frame': 'TEN-FRAME', fingers: 'FINGERS' } as Record<Representation | 'digits', string>,
+  withDigits: 'WITH DIGITS',
+  pictureOnly: 'PICTURE ONLY',
+  hintNumberLine: 'NUMBER LINE HINT AFTER',
+  numberLineHint: (problem: string) => `Number line hint for ${problem}`,
+  winConditionLabel: 'WIN CONDITION',
+  winConditions: { 'sudden-death': '1 HIT', castle: 'CASTLE HP', timed: 'ROUND' } as Record<WinCondition, string>,
+  seconds: (value: number) => `${n(value)}s`,
+  castSpell: 'CAST SPELL',
+  inputModes: { auto: 'AUTO', enter: 'PRESS ENTER' },
+  renderer: 'RENDERER',
+  renderers: { canvas: 'CANVAS', dom: 'DOM' } as Record<RendererType, string>,
+  selectOperations: 'SELECT OPERATIONS',
+  // Symbols are shown as-is; only word labels are translated
+  operationLabels: { mixed: 'MIX' } as Partial<Record<Operation, string>>,
+  levelTitle: (index: number) => `LVL ${n(index)}`,
+  levelNumbers: (min: number, max: number) => `NUMBERS ${n(min)}–${n(max)}`,
+  levelTables: (maxFactor: number) => `TABLES TO ${n(maxFactor)}`,
+  loadLevelPack: 'LOAD LEVEL PACK',
+  defaultLevels: 'DEFAULT LEVELS',
+  howToShoot: 'PRESS CORRECT ANSWER TO SHOOT',
+  howToWin: "DON'T LET THEM REACH THE CASTLE!",
+
+  // Teacher problem sets
+  problemSets: 'PROBLEM SETS',
+  problemSet: 'PROBLEM SET',
+  setName: 'SET NAME',
+  rules: 'FACT FAMILIES',
+  ruleTypes: { make: 'MAKE N', doubles: 'DOUBLES', table: 'TIMES TABLE' } as Record<RuleType, string>,
+  ruleLabel: (type: RuleType, value: number) =>
+    type === 'make' ? `MAKE ${n(value)}` : type === 'doubles' ? `DOUBLES TO ${n(value)}` : `${n(value)} TIMES TABLE`,
+  ruleNumber: 'Number',
+  addRule: 'ADD',
+  removeRule: 'Remove',
+  setProblems: 'PROBLEMS, ONE PER LINE',
+  invalidProblems: (lines: string) => `Cannot read: ${lines}`,
+  spawnEvery: 'NEW ENEMY EVERY',
+  enemySpeed: 'ENEMY SPEED',
+  setSpeeds: { slow: 'SLOW', normal: 'NORMAL', fast: 'FAST' },
+  problemCount: (count: number) => `${n(count)} PROBLEMS`,
+  shareCode: 'SHARE CODE',
+  copyLink: 'COPY LINK',
+  linkCopied: 'LINK COPIED',
+  loadCode: 'LOAD CODE',
+  invalidSetCode: 'Invalid problem set code',
+  play: 'PLAY',
+
+  // Leaderboards
+  leaderboard: 'LEADERBOARD',
+  level: 'LEVEL',
+  date: 'DATE',
+  noScores: 'NO SCORES YET',
+  close: 'CLOSE',
+  number: n,
+  shortDate: dateFormatter('en', SHORT_DATE),
+  newHighScore: 'NEW HIGH SCORE!',
+  enterInitials: 'ENTER YOUR INITIALS',
+  nextLetter: 'Next letter',
+  previousLetter: 'Previous letter',
+
+  // Daily challenge
+  dailyChallenge: 'DAILY CHALLENGE',
+  dailyOneAttempt: 'ONE SCORED TRY A DAY',
+  dailyDone: (score: number) => `TODAY: ${n(score)} ✓`,
+  dailyStreak: (days: number) => `STREAK: ${n(days)} ${days === 1 ? 'DAY' : 'DAYS'}`,
+  monthTitle: dateFormatter('en', MONTH),
+  // Monday first
+  weekdays: ['M', 'T', 'W', 'T', 'F', 'S', 'S'],
+  dailyPlayed: 'played',
+  dailySaved: 'DAILY SCORE SAVED',
+  dailyPractice: "PRACTICE: ONLY THE DAY'S FIRST TRY COUNTS",
+
+  // Replays
+  replay: 'REPLAY',
+  watchReplay: 'WATCH REPLAY',
+  saveReplay: 'SAVE REPLAY',
+  loadReplay: 'LOAD REPLAY',
+  replayPosition: 'Replay position',
+  jumpTo: (problem: string) => `Jump to ${problem}`,
+  speed: (factor: number) => `${n(factor)}×`,
+  invalidReplay: 'Invalid replay file',
+
+  // Campaign
+  campaign: 'CAMPAIGN',
+  stageLabel: (id: string) => `STAGE ${id}`,
+  starCount: (stars: number) => `${n(stars)} ${stars === 1 ? 'STAR' : 'STARS'}`,
+  locked: 'locked',
+  waveStart: (wave: number, total: number) => `WAVE ${n(wave)}/${n(total)}`,
+  waveCleared: 'WAVE CLEARED!',
+  stageClear: 'STAGE CLEAR!',
+  stageUnlocked: (id: string) => `STAGE ${id} UNLOCKED!`,
+  nextStage: 'NEXT STAGE',
+
+  // Two players
+  players: 'PLAYERS',
+  playerModes: { solo: '1 PLAYER', versus: '2P VERSUS', coop: '2P CO-OP' } as Record<PlayerMode, string>,
+  playerLabel: (player: number) => `P${n(player)}`,
+  playerWins: (player: string) => `${player} WINS!`,
+  teamScore: 'TEAM',
+  playAgain: 'PLAY AGAIN',
+  twoPlayerKeys: 'P1: 0-9 ⌫ ENTER · P2: NUMPAD 0-9 . ENTER',
+
+  // Achievements
+  stickerBook: 'STICKER BOOK',
+  stickerUnlocked: 'STICKER UNLOCKED!',
+  stickerCount: (collected: number, total: number) => `${n(collected)}/${n(total)} STICKERS`,
+  notYet: 'NOT YET',
+  achievements: {
+    'first-kill': { name: 'FIRST SPELL', description: 'Defeat your first monster' },
+    'first-100': { name: 'CENTURY', description: 'Score 100 points in one round' },
+    'score-1000': { name: 'GRAND WIZARD', description: 'Score 1,000 points in one round' },
+    'answer-streak': { name: 'ON FIRE', description: '20 right answers in a row without a miss' },
+    'level-3-boss': { name: 'BOSS SLAYER', description: 'Defeat a boss on level 3' },
+    'first-victory': { name: 'VICTORY', description: 'Win a round' },
+    'three-stars': { name: 'SUPERSTAR', description: 'Earn 3 stars on a campaign stage' },
+    'day-streak': { name: 'EVERY DAY', description: 'Play 5 days in a row' },
+    'facts-to-20': { name: 'SUM MASTER', description: 'Answer every addition fact up to 20' }
+  } as Record<AchievementId, { name: string, description: string }>,
+
+  // Accessibility settings
+  accessibility: 'ACCESSIBILITY',
+  announcements: 'SCREEN READER',
+  highContrast: 'HIGH CONTRAST',
+  textSize: 'TEXT SIZE',
+  reducedMotion: 'REDUCED MOTION',
+  palette: 'COLORS',
+  palettes: { default: 'DEFAULT', colorblind: 'COLOR-BLIND SAFE' },
+  on: 'ON',
+  off: 'OFF',
+
+  // Sound settings
+  sound: 'SOUND',
+  channels: { music: 'MUSIC', sfx: 'EFFECTS' } as Record<AudioChannel, string>,
+  mute: 'Mute',
+  unmute: 'Unmute',
+  volume: (channel: string) => `${channel} volume`,
+
+  // HUD
+  score: 'SCORE',
+  combo: 'COMBO',
+  castle: 'CASTLE',
+  time: 'TIME',
+  pause: 'Pause',
+  paused: 'PAUSED',
+  resume: 'RESUME',
+  restart: 'RESTART',
+  quitToMenu: 'QUIT TO MENU',
+  answer: 'Answer',
+  backspace: 'Delete digit',
+  cast: 'CAST',
+  spells: { freeze: 'FREEZE', fireball: 'FIREBALL', slow: 'SLOW TIME' } as Record<SpellId, string>,
+
+  // Game over
+  outcomes: {
+    defeated: 'DEFEATED',
+    // Titled by the win condition that was met
+    victory: { 'sudden-death': 'VICTORY!', castle: 'CASTLE SAVED!', timed: "TIME'S UP!" } as Record<WinCondition, string>
+  },
+  survivalBonus: (bonus: number) => `SURVIVAL BONUS +${n(bonus)}`,
+  highScore: 'HIGH SCORE',
+  accuracy: 'ACCURACY',
+  answerCounts: (correct: number, wrong: number, missed: number) => `(${n(correct)} OK / ${n(wrong)} WRONG / ${n(missed)} MISSED)`,
+  medianTime: 'MEDIAN TIME',
+  slowest: 'SLOWEST',
+  defeatedBy: 'DEFEATED BY',
+  tryAgain: 'TRY AGAIN',
+  responseTime: (seconds: number) => `${seconds.toFixed(1)}s`,
+
+  // Progress export / import
+  exportJson: 'EXPORT JSON',
+  csvGames: 'CSV GAMES',
+  csvProblems: 'CSV PROBLEMS',
+  importProgress: 'IMPORT',
+  importSummary: (players: number, games: number, duplicates: number, dropped: number) =>
+    `+${n(players)} PLAYERS, +${n(games)} GAMES, ${n(duplicates)} DUPLICATES SKIPPED` +
+    (dropped > 0 ? `, ${n(dropped)} OLDEST GAMES DROPPED` : ''),
+  invalidProgressFile: 'Invalid progress file',
+  invalidLevelPack: 'Invalid level pack',
+  // Why a level pack, progress file, replay or problem set code could not be read
+  levelError: (level: number, reason: string) => `Level #${n(level)}: ${reason}`,
+  dataErrors: {
+    'level-not-object': 'not an object',
+    'level-id': 'id must be an integer',
+    'level-name': 'name must be non-empty text',
+    'level-range': 'range needs positive min, max and maxFactor',
+    'level-range-narrow': 'range is too narrow',
+    'level-operations': 'operations must be a non-empty list of add, subtract, multiply, divide, missing, mixed',
+    'level-speed': 'enemySpeed must be positive',
+    'level-spawn': 'spawn needs baseRate, minRate, step and everyPoints',
+    'level-colors': 'colors needs button, monster and sign',
+    'level-background': 'background must be a built-in background name or an image URL',
+    'pack-empty': 'Level pack must be a non-empty list of levels',
+    'pack-duplicate-ids': 'Level ids must be unique',
+    'progress-format': 'Not a Magic Math Defender progress file',
+    'progress-newer': 'Progress file is from a newer version',
+    'progress-players': 'Progress file has invalid players',
+    'progress-sessions': 'Progress file has invalid games',
+    'progress-scores': 'Progress file has invalid scores',
+    'progress-storage': 'Not enough storage space to import this file',
+    'replay-format': 'Not a replay file',
+    'replay-newer': 'Replay is from a newer version',
+    'replay-settings': 'Replay settings are invalid',
+    'replay-operations': 'Replay operations are invalid',
+    'replay-inputs': 'Replay inputs are invalid',
+    'replay-waves': 'Replay waves are invalid',
+    'set-code': 'Not a problem set code',
+    'set-newer': 'Problem set code is from a newer version',
+    'set-problems': 'Problem set code has invalid problems',
+    'set-timing': 'Problem set code has invalid timing',
+    'set-empty': 'Problem set is empty'
+  } as Record<DataErrorCode, string>,
+
+  // Screen reader announcements; problems are spoken with these words for the symbols
+  spoken: { '+': 'plus', '-': 'minus', '×': 'times', '÷': 'divided by', '=': 'equals', '?': 'blank' } as Record<string, string>,
+  announceProblem: (problem: string) => `New problem: ${problem}`,
+  announceHit: (problem: string) => `Hit! Next: ${problem}`,
+  announceKill: (score: number) => `Correct! Score ${n(score)}`,
+  announceWrong: 'Wrong answer',
+  announceCastleHit: (hp: number) => `The castle was hit. ${n(hp)} hearts left`,
+  announceSpell: (spell: string) => `${spell} cast`,
+  announceGameOver: (outcome: string, score: number) => `${outcome} Score ${n(score)}`,
+  announceSticker: (name: string) => `Sticker unlocked: ${name}`
+};
+
+export type Messages = typeof en;
+
+const v = formatter('vi');
+
+const vi: Messages = {
+  languageName: 'TIẾNG VIỆT',
+  language: 'NGÔN NGỮ',
+  title: ['PHÁP SƯ TOÁN', 'THỦ THÀNH'],
+  loading: 'ĐANG TẢI',
+
+  player: 'NGƯỜI CHƠI',
+  playerName: 'TÊN',
+  ok: 'OK',
+  cancel: 'HỦY',
+  addPlayer: 'Thêm người chơi',
+  deletePlayer: 'Xóa người chơi',
+  confirmDeletePlayer: 'Xóa người chơi này?',
+  best: 'KỶ LỤC',
+  selectDifficulty: 'CHỌN ĐỘ KHÓ',
+  difficulties: { EASY: 'DỄ', NORMAL: 'VỪA', HARD: 'KHÓ' },
+  practiceMode: 'CHẾ ĐỘ LUYỆN TẬP',
+  classic: 'CỔ ĐIỂN',
+  adaptive: 'THÍCH ỨNG',
+  pictures: 'HÌNH MINH HỌA',
+  representations: { digits: 'CHỮ SỐ', dots: 'CHẤM TRÒN', 'ten-frame': 'KHUNG 10', fingers: 'NGÓN TAY' },
+  withDigits: 'KÈM CHỮ SỐ',
+  pictureOnly: 'CHỈ HÌNH',
+  hintNumberLine: 'GỢI Ý TIA SỐ SAU',
+  numberLineHint: (problem: string) => `Gợi ý tia số cho ${problem}`,
+  winConditionLabel: 'ĐIỀU KIỆN THẮNG',
+  winConditions: { 'sudden-death': '1 LẦN CHẠM', castle: 'MÁU LÂU ĐÀI', timed: 'VÒNG' },
+  seconds: (value: number) => `${v(value)} giây`,
+  castSpell: 'TUNG PHÉP',
+  inputModes: { auto: 'TỰ ĐỘNG', enter: 'NHẤN ENTER' },
+  renderer: 'ĐỒ HỌA',
+  renderers: { canvas: 'CANVAS', dom: 'DOM' },
+  selectOperations: 'CHỌN PHÉP TÍNH',
+  operationLabels: { mixed: 'TRỘN' },
+  levelTitle: (index: number) => `CẤP ${v(index)}`,
+  levelNumbers: (min: number, max: number) => `SỐ ${v(min)}–${v(max)}`,
+  levelTables: (maxFactor: number) => `BẢNG ĐẾN ${v(maxFactor)}`,
+  loadLevelPack: 'TẢI GÓI MÀN CHƠI',
+  defaultLevels: 'MÀN CHƠI GỐC',
+  howToShoot: 'GÕ ĐÚNG ĐÁP ÁN ĐỂ BẮN',
+  howToWin: 'ĐỪNG ĐỂ QUÁI VẬT ĐẾN LÂU ĐÀI!',
+
+  problemSets: 'BỘ BÀI TẬP',
+  problemSet: 'BỘ BÀI TẬP',
+  setName: 'TÊN BỘ BÀI',
+  rules: 'NHÓM PHÉP TÍNH',
+  ruleTypes: { make: 'TẠO SỐ N', doubles: 'GẤP ĐÔI', table: 'BẢNG NHÂN' },
+  ruleLabel: (type: RuleType, value: number) =>
+    type === 'make' ? `TẠO SỐ ${v(value)}` : type === 'doubles' ? `GẤP ĐÔI ĐẾN ${v(value)}` : `BẢNG NHÂN ${v(value)}`,
+  ruleNumber: 'Số',
+  addRule: 'THÊM',
+  removeRule: 'Xóa',
+  setProblems: 'PHÉP TÍNH, MỖI DÒNG MỘT PHÉP',
+  invalidProblems: (lines: string) => `Không đọc được: ${lines}`,
+  spawnEvery: 'QUÁI MỚI SAU MỖI',
+  enemySpeed: 'TỐC ĐỘ QUÁI',
+  setSpeeds: { slow: 'CHẬM', normal: 'VỪA', fast: 'NHANH' },
+  problemCount: (count: number) => `${v(count)} PHÉP TÍNH`,
+  shareCode: 'MÃ CHIA SẺ',
+  copyLink: 'SAO CHÉP LIÊN KẾT',
+  linkCopied: 'ĐÃ SAO CHÉP LIÊN KẾT',
+  loadCode: 'MỞ MÃ',
+  invalidSetCode: 'Mã bộ bài tập không hợp lệ',
+  play: 'CHƠI',
+
+  leaderboard: 'BẢNG XẾP HẠNG',
+  level: 'CẤP',
+  date: 'NGÀY',
+  noScores: 'CHƯA CÓ ĐIỂM',
+  close: 'ĐÓNG',
+  number: v,
+  shortDate: dateFormatter('vi', SHORT_DATE),
+  newHighScore: 'KỶ LỤC MỚI!',
+  enterInitials: 'NHẬP TÊN VIẾT TẮT',
+  nextLetter: 'Chữ tiếp theo',
+  previousLetter: 'Chữ trước',
+
+  dailyChallenge: 'THỬ THÁCH HẰNG NGÀY',
+  dailyOneAttempt: 'MỖI NGÀY MỘT LƯỢT TÍNH ĐIỂM',
+  dailyDone: (score: number) => `HÔM NAY: ${v(score)} ✓`,
+  dailyStreak: (days: number) => `CHUỖI: ${v(days)} NGÀY`,
+  monthTitle: dateFormatter('vi', MONTH),
+  weekdays: ['T2', 'T3', 'T4', 'T5', 'T6', 'T7', 'CN'],
+  dailyPlayed: 'đã chơi',
+  dailySaved: 'ĐÃ LƯU ĐIỂM THỬ THÁCH',
+  dailyPractice: 'LUYỆN TẬP: CHỈ LƯỢT ĐẦU MỖI NGÀY ĐƯỢC TÍNH',
+
+  replay: 'XEM LẠI',
+  watchReplay: 'XEM LẠI VÁN CHƠI',
+  saveReplay: 'LƯU BẢN GHI',
+  loadReplay: 'MỞ BẢN GHI',
+  replayPosition: 'Vị trí xem lại',
+  jumpTo: (problem: string) => `Đến ${problem}`,
+  speed: (factor: number) => `${v(factor)}×`,
+  invalidReplay: 'Tệp bản ghi không hợp lệ',
+
+  campaign: 'CHIẾN DỊCH',
+  stageLabel: (id: string) => `MÀN ${id}`,
+  starCount: (stars: number) => `${v(stars)} SAO`,
+  locked: 'đã khóa',
+  waveStart: (wave: number, total: number) => `ĐỢT ${v(wave)}/${v(total)}`,
+  waveCleared: 'ĐÃ DẸP XONG ĐỢT!',
+  stageClear: 'QUA MÀN!',
+  stageUnlocked: (id: string) => `ĐÃ MỞ MÀN ${id}!`,
+  nextStage: 'MÀN TIẾP THEO',
+
+  players: 'NGƯỜI CHƠI',
+  playerModes: { solo: '1 NGƯỜI', versus: '2 NGƯỜI ĐỐI KHÁNG', coop: '2 NGƯỜI HỢP SỨC' } as Record<PlayerMode, string>,
+  playerLabel: (player: number) => `P${v(player)}`,
+  playerWins: (player: string) => `${player} THẮNG!`,
+  teamScore: 'CẢ ĐỘI',
+  playAgain: 'CHƠI LẠI',
+  twoPlayerKeys: 'P1: 0-9 ⌫ ENTER · P2: BÀN PHÍM SỐ 0-9 . ENTER',
+
+  stickerBook: 'SỔ NHÃN DÁN',
+  stickerUnlocked: 'MỞ KHÓA NHÃN DÁN!',
+  stickerCount: (collected: number, total: number) => `${v(collected)}/${v(total)} NHÃN DÁN`,
+  notYet: 'CHƯA CÓ',
+  achievements: {
+    'first-kill': { name: 'PHÉP ĐẦU TIÊN', description: 'Hạ con quái vật đầu tiên' },
+    'first-100': { name: 'TRĂM ĐIỂM', description: 'Đạt 100 điểm trong một ván' },
+    'score-1000': { name: 'ĐẠI PHÁP SƯ', description: 'Đạt 1.000 điểm trong một ván' },
+    'answer-streak': { name: 'BỐC LỬA', description: 'Đúng 20 câu liên tiếp không trượt câu nào' },
+    'level-3-boss': { name: 'DIỆT TRÙM', description: 'Hạ một con trùm ở cấp 3' },
+    'first-victory': { name: 'CHIẾN THẮNG', description: 'Thắng một ván' },
+    'three-stars': { name: 'SIÊU SAO', description: 'Đạt 3 sao ở một màn chiến dịch' },
+    'day-streak': { name: 'NGÀY NÀO CŨNG CHƠI', description: 'Chơi 5 ngày liên tiếp' },
+    'facts-to-20': { name: 'BẬC THẦY PHÉP CỘNG', description: 'Trả lời mọi phép cộng đến 20' }
+  } as Record<AchievementId, { name: string, description: string }>,
+
+  accessibility: 'HỖ TRỢ TIẾP CẬN',
+  announcements: 'TRÌNH ĐỌC MÀN HÌNH',
+  highContrast: 'TƯƠNG PHẢN CAO',
+  textSize: 'CỠ CHỮ',
+  reducedMotion: 'GIẢM CHUYỂN ĐỘNG',
+  palette: 'MÀU SẮC',
+  palettes: { default: 'MẶC ĐỊNH', colorblind: 'CHO NGƯỜI MÙ MÀU' },
+  on: 'BẬT',
+  off: 'TẮT',
+
+  sound: 'ÂM THANH',
+  channels: { music: 'NHẠC', sfx: 'HIỆU ỨNG' },
+  mute: 'Tắt tiếng',
+  unmute: 'Bật tiếng',
+  volume: (channel: string) => `Âm lượng ${channel.toLowerCase()}`,
+
+  score: 'ĐIỂM',
+  combo: 'CHUỖI',
+  castle: 'LÂU ĐÀI',
+  time: 'GIỜ',
+  pause: 'Tạm dừng',
+  paused: 'TẠM DỪNG',
+  resume: 'CHƠI TIẾP',
+  restart: 'CHƠI LẠI',
+  quitToMenu: 'VỀ MENU',
+  answer: 'Đáp án',
+  backspace: 'Xóa chữ số',
+  cast: 'BẮN',
+  spells: { freeze: 'ĐÓNG BĂNG', fireball: 'QUẢ CẦU LỬA', slow: 'LÀM CHẬM' },
+
+  outcomes: {
+    defeated: 'THẤT BẠI',
+    victory: { 'sudden-death': 'CHIẾN THẮNG!', castle: 'LÂU ĐÀI AN TOÀN!', timed: 'HẾT GIỜ!' }
+  },
+  survivalBonus: (bonus: number) => `THƯỞNG TRỤ VỮNG +${v(bonus)}`,
+  highScore: 'KỶ LỤC',
+  accuracy: 'ĐỘ CHÍNH XÁC',
+  answerCounts: (correct: number, wrong: number, missed: number) => `(${v(correct)} ĐÚNG / ${v(wrong)} SAI / ${v(missed)} BỎ LỠ)`,
+  medianTime: 'THỜI GIAN TRUNG VỊ',
+  slowest: 'CHẬM NHẤT',
+  defeatedBy: 'THUA VÌ',
+  tryAgain: 'CHƠI LẠI',
+  responseTime: (seconds: number) => `${seconds.toLocaleString(LOCALE_TAGS.vi, { minimumFractionDigits: 1, maximumFractionDigits: 1 })} giây`,
+
+  exportJson: 'XUẤT JSON',
+  csvGames: 'CSV VÁN CHƠI',
+  csvProblems: 'CSV BÀI TOÁN',
+  importProgress: 'NHẬP',
+  importSummary: (players: number, games: number, duplicates: number, dropped: number) =>
+    `+${v(players)} NGƯỜI CHƠI, +${v(games)} VÁN, BỎ QUA ${v(duplicates)} BẢN TRÙNG` +
+    (dropped > 0 ? `, BỎ ${v(dropped)} VÁN CŨ NHẤT` : ''),
+  invalidProgressFile: 'Tệp tiến độ không hợp lệ',
+  invalidLevelPack: 'Gói màn chơi không hợp lệ',
+  levelError: (level: number, reason: string) => `Cấp #${v(level)}: ${reason}`,
+  dataErrors: {
+    'level-not-object': 'không phải là một đối tượng',
+    'level-id': 'id phải là số nguyên',
+    'level-name': 'name phải là chữ và không được để trống',
+    'level-range': 'range cần min, max và maxFactor là số dương',
+    'level-range-narrow': 'range quá hẹp',
+    'level-operations': 'operations phải là danh sách không rỗng gồm add, subtract, multiply, divide, missing, mixed',
+    'level-speed': 'enemySpeed phải là số dương',
+    'level-spawn': 'spawn cần baseRate, minRate, step và everyPoints',
+    'level-colors': 'colors cần button, monster và sign',
+    'level-background': 'background phải là tên hình nền có sẵn hoặc địa chỉ ảnh',
+    'pack-empty': 'Gói màn chơi phải là danh sách màn chơi không rỗng',
+    'pack-duplicate-ids': 'Các màn chơi không được trùng id',
+    'progress-format': 'Đây không phải tệp tiến độ của Magic Math Defender',
+    'progress-newer': 'Tệp tiến độ được tạo từ phiên bản mới hơn',
+    'progress-players': 'Tệp tiến độ có người chơi không hợp lệ',
+    'progress-sessions': 'Tệp tiến độ có ván chơi không hợp lệ',
+    'progress-scores': 'Tệp tiến độ có điểm số không hợp lệ',
+    'progress-storage': 'Không đủ dung lượng lưu trữ để nhập tệp này',
+    'replay-format': 'Đây không phải tệp bản ghi',
+    'replay-newer': 'Bản ghi được tạo từ phiên bản mới hơn',
+    'replay-settings': 'Cài đặt của bản ghi không hợp lệ',
+    'replay-operations': 'Phép tính của bản ghi không hợp lệ',
+    'replay-inputs': 'Thao tác trong bản ghi không hợp lệ',
+    'replay-waves': 'Các đợt quái trong bản ghi không hợp lệ',
+    'set-code': 'Đây không phải mã bộ bài tập',
+    'set-newer': 'Mã bộ bài tập được tạo từ phiên bản mới hơn',
+    'set-problems': 'Mã bộ bài tập có bài không hợp lệ',
+    'set-timing': 'Mã bộ bài tập có thời gian không hợp lệ',
+    'set-empty': 'Bộ bài tập không có bài nào'
+  },
+
+  spoken: { '+': 'cộng', '-': 'trừ', '×': 'nhân', '÷': 'chia', '=': 'bằng', '?': 'mấy' },
+  announceProblem: (problem: string) => `Bài mới: ${problem}`,
+  announceHit: (problem: string) => `Trúng! Tiếp theo: ${problem}`,
+  announceKill: (score: number) => `Đúng rồi! ${v(score)} điểm`,
+  announceWrong: 'Sai rồi',
+  announceCastleHit: (hp: number) => `Lâu đài bị tấn công. Còn ${v(hp)} tim`,
+  announceSpell: (spell: string) => `Đã tung phép ${spell}`,
+  announceGameOver: (outcome: string, score: number) => `${outcome} ${v(score)} điểm`,
+  announceSticker: (name: string) => `Mở khóa nhãn dán: ${name}`
+};
+
+export const MESSAGES: Record<Locale, Messages> = { vi, en };
@@ -1,203 +1,202 @@
 import React, { useEffect, useRef, useState } from 'react';
 import { createRoot } from 'react-dom/client';
+import '@fontsource/press-start-2p/400.css';
+import { AUTO_CAST_DELAY, CASTLE_MAX_HP, CASTLE_OFFSET, Enemy, GameEngine, GameEvent, WinCondition } from './game/engine';
+import { Problem } from './game/problems';
+import { comboMultiplier, MAX_MANA, SPELL_IDS, SpellId, SPELLS } from './game/spells';
+import { applyMasteryEvent, clearMastery, loadMastery, MasteryStore, saveMastery } from './game/mastery';
+import { createProfile, Difficulty, getActiveProfile, getBestScore, createId, getOverallBest, loadSave, SaveData, SessionOutcome, withActiveProfile, withBestScore, withoutProfile, withProfile, withSession, writeSave } from './game/save';
+import ProfileSelector from './components/ProfileSelector';
+import ProgressTransfer from './components/ProgressTransfer';
+import NumberPad from './components/NumberPad';
+import SoundSettings from './components/SoundSettings';
+import ProblemSetEditor from './components/ProblemSetEditor';
+import NumberLineHint from './components/NumberLineHint';
+import DailyChallenge from './components/DailyChallenge';
+import CampaignMap, { starText } from './components/CampaignMap';
+import ReplayViewer from './components/ReplayViewer';
+import TwoPlayerGame from './components/TwoPlayerGame';
+import StickerBook, { AchievementToast } from './components/StickerBook';
+import InitialsEntry from './components/InitialsEntry';
+import Leaderboard, { LeaderboardTable } from './components/Leaderboard';
+import { AudioChannel, AudioSettings, soundManager } from './audio/soundManager';
+import { FALLBACK_BACKGROUND, preloadAssets, resolveBackground, VIETNAMESE_FONT_FACES } from './assets';
+import { fitPlayfield, GROUND_HEIGHT, Viewport, WIZARD_OFFSET } from './game/playfield';
+import { buildLearningReport, LearningReport } from './game/report';
+import { Operation, OPERATIONS, PROBLEM_GENERATORS, REPRESENTATIONS } from './game/problems';
+import { HINT_DELAYS, loadVisualAidSettings, pickHintProblem, saveVisualAidSettings, VisualAidSettings } from './game/visualAids';
+import { createRenderer, GameRenderer, loadRendererType, PIXEL_FONT, READABLE_FONT, RendererType, RenderTheme, saveRendererType, VIETNAMESE_PIXEL_FONT } from './renderers';
+import { AccessibilitySettings, levelColors, loadAccessibilitySettings, PALETTES, saveAccessibilitySettings, STATUS_COLORS, TEXT_SCALES } from './game/accessibility';
+import { describeError, describeLevel, formatNumber, levelName, loadLocale, Locale, LOCALES, MESSAGES, saveLocale, speakProblem } from './i18n';
+import { encodeProblemSet, expandProblemSet, ProblemSet, problemSetLevel, readProblemSetFromUrl } from './game/problemSets';
+import { clearDailyResults, DAILY_DIFFICULTY, DAILY_WIN_CONDITION, dailyLevel, DailyResults, DailyRun, dailySeed, dateKey, loadDailyResults, saveDailyResults } from './game/daily';
+import { CAMPAIGN_DIFFICULTY, CAMPAIGN_WIN_CONDITION, CampaignProgress, clearCampaignProgress, isStageUnlocked, loadCampaignProgress, nextStage, saveCampaignProgress, Stage, stageLevel, starRating, totalStars, withStageStars } from './game/campaign';
+import { createRecordedEngine, createRecording, finishRecording, parseRecording, recordInput, recordKills, Recording, ReplayAction } from './game/replay';
+import { randomSeed } from './game/rng';
+import { PLAYER_MODES, PlayerMode } from './game/twoPlayer';
+import { AchievementId, AchievementProgress, AchievementRun, clearAchievements, createAchievementRun, loadAchievements, recordDayPlayed, saveAchievements, trackAchievementEvent, unlockAchievements } from './game/achievements';
+import { BoardKey, getBoard, LeaderboardEntry, Leaderboards, loadLeaderboards, qualifiesForBoard, saveLeaderboards, withLeaderboardEntry } from './game/leaderboard';
+import { clearLevelPack, findLevel, hasCustomLevelPack, LevelDefinition, loadLevelPack, parseLevelPack, saveLevelPack } from './game/levels';
 
 // --- Constants ---
 const GAME_DURATION = 60;
+// 3-2-1 before a round starts and again when it resumes from pause
+const COUNTDOWN_SECONDS = 3;
+// How long a campaign wave banner stays up (ms); shorter than the engine's break between waves
+const WAVE_BANNER_TIME = 2000;
+// How long a sticker unlock toast stays up (ms)
+const TOAST_TIME = 3500;
 
-// --- Audio System (Retro 8-bit) ---
-const NOTES = {
-  C3: 130.81, D3: 146.83, E3: 164.81, F3: 174.61, G3: 196.00, A3: 220.00, B3: 246.94,
-  C4: 261.63, D4: 293.66, E4: 329.63, F4: 349.23, G4: 392.00, A4: 440.00, B4: 493.88,
-  C5: 523.25, D5: 587.33, E5: 659.25, F5: 698.46, G5: 783.99,
-  SILENCE: 0
-};
-
-type Note = { freq: number, dur: number };
-
-// Melodies for each level
-const MELODIES: Record<number, Note[]> = {
-  0: [ // Menu: Relaxed / Title Screen
-    { freq: NOTES.E4, dur: 0.2 }, { freq: NOTES.B3, dur: 0.2 }, { freq: NOTES.C4, dur: 0.2 }, { freq: NOTES.D4, dur: 0.2 },
-    { freq: NOTES.C4, dur: 0.2 }, { freq: NOTES.B3, dur: 0.2 }, { freq: NOTES.A3, dur: 0.4 }, 
-    { freq: NOTES.A3, dur: 0.2 }, { freq: NOTES.C4, dur: 0.2 }, { freq: NOTES.E4, dur: 0.2 }, { freq: NOTES.D4, dur: 0.2 }, 
-    { freq: NOTES.C4, dur: 0.2 }, { freq: NOTES.B3, dur: 0.4 }
-  ],
-  1: [], 
-  2: [],
-  3: []
-};
-
-class SoundManager {
-  ctx: AudioContext | null = null;
-  bgmOsc: OscillatorNode | null = null;
-  bgmGain: GainNode | null = null;
-  bgmTimeout: number | null = null;
-  isPlaying: boolean = false;
-  currentLevel: number = 0;
-  noteIndex: number = 0;
-
-  init() {
-    if (!this.ctx) {
-      this.ctx = new (window.AudioContext || (window as any).webkitAudioContext)();
-    }
-    if (this.ctx.state === 'suspended') {
-      this.ctx.resume();
-    }
-  }
-
-  playTone(freq: number, type: OscillatorType, duration: number, volume: number = 0.1) {
-    if (!this.ctx) return;
-    const osc = this.ctx.createOscillator();
-    const gain = this.ctx.createGain();
-    osc.type = type;
-    osc.frequency.setValueAtTime(freq, this.ctx.currentTime);
-    osc.connect(gain);
-    gain.connect(this.ctx.destination);
-    gain.gain.setValueAtTime(volume, this.ctx.currentTime);
-    gain.gain.exponentialRampToValueAtTime(0.01, this.ctx.currentTime + duration);
-    osc.start();
-    osc.stop(this.ctx.currentTime + duration);
-  }
-
-  playSFX(type: 'shoot' | 'hit' | 'timesup' | 'gameover') {
-    this.init();
-    if (type === 'shoot') {
-      this.playTone(600, 'square', 0.1, 0.05);
-      setTimeout(() => this.playTone(800, 'square', 0.1, 0.05), 50);
-    } else if (type === 'hit') {
-      this.playTone(150, 'sawtooth', 0.2, 0.1);
-    } else if (type === 'timesup') {
-      this.playTone(880, 'square', 0.5, 0.1);
-      setTimeout(() => this.playTone(440, 'square', 0.5, 0.1), 300);
-    } else if (type === 'gameover') {
-      this.playTone(300, 'sawtooth', 0.3, 0.2);
-      setTimeout(() => this.playTone(250, 'sawtooth', 0.3, 0.2), 300);
-      setTimeout(() => this.playTone(200, 'sawtooth', 0.6, 0.2), 600);
-    }
-  }
-
-  playBGM(level: number) {
-    this.init();
-    this.stopBGM();
-    
-    if (level !== 0) return;
-
-    this.currentLevel = level;
-    this.isPlaying = true;
-    this.noteIndex = 0;
-    this.playNextNote();
-  }
-
-  playNextNote() {
-    if (!this.isPlaying || !this.ctx) return;
-    
-    const melody = MELODIES[this.currentLevel];
-    if (!melody || melody.length === 0) return;
-
-    const note = melody[this.noteIndex % melody.length];
-    
-    if (note.freq > 0) {
-      this.bgmOsc = this.ctx.createOscillator();
-      this.bgmGain = this.ctx.createGain();
-      this.bgmOsc.type = 'square'; 
-      this.bgmOsc.frequency.setValueAtTime(note.freq, this.ctx.currentTime);
-      this.bgmOsc.connect(this.bgmGain);
-      this.bgmGain.connect(this.ctx.destination);
-      this.bgmGain.gain.setValueAtTime(0.03, this.ctx.currentTime);
-      this.bgmGain.gain.setValueAtTime(0.03, this.ctx.currentTime + note.dur - 0.05);
-      this.bgmGain.gain.linearRampToValueAtTime(0, this.ctx.currentTime + note.dur);
-      this.bgmOsc.start();
-      this.bgmOsc.stop(this.ctx.currentTime + note.dur);
-    }
+const DIFFICULTY_MULTIPLIERS: Record<Difficulty, number> = { EASY: 4, NORMAL: 2, HARD: 1 };
 
-    this.noteIndex++;
-    this.bgmTimeout = window.setTimeout(() => this.playNextNote(), note.dur * 1000);
-  }
+// 'auto': cast as soon as the typed value hits. 'enter': cast only on Enter.
+type InputMode = 'auto' | 'enter';
 
-  stopBGM() {
-    this.isPlaying = false;
-    if (this.bgmTimeout) clearTimeout(this.bgmTimeout);
-    if (this.bgmOsc) {
-      try { this.bgmOsc.stop(); } catch (e) {}
-      this.bgmOsc = null;
-    }
-  }
-}
+// Runs are set up from the start screen's picks unless one of these overrides them
+type RoundOptions = { set?: ProblemSet | null, daily?: DailyRun | null, stage?: Stage | null };
 
-const soundManager = new SoundManager();
+// Touch devices get the on-screen number pad instead of the OS keyboard
+const isTouchDevice = () => window.matchMedia?.('(pointer: coarse)').matches || 'ontouchstart' in window;
 
 // --- Background & Visuals ---
-const LEVEL_IMAGES = {
-  1: "https://lh3.googleusercontent.com/d/1JUcHxpLWZ9KXAsTxrG5l2XLO7J2dEHKQ", 
-  2: "https://lh3.googleusercontent.com/d/1Y4sjh-PVZVMhqaaOvW063fU2X3h6HEC1", 
-  3: "https://lh3.googleusercontent.com/d/1MQ4UL2Hi1ZBSSggzc_5rXvOgVfic9maf?q=80&w=1000&auto=format&fit=crop"  
-};
-
-const getLevelBackgroundHTML = (level: number) => {
-  const bgUrl = LEVEL_IMAGES[level as keyof typeof LEVEL_IMAGES] || LEVEL_IMAGES[1];
+const getLevelBackgroundHTML = (level: LevelDefinition) => {
   return `
-    <img src="${bgUrl}" alt="Level Background" class="absolute inset-0 w-full h-full object-cover z-0 select-none pixelated" style="image-rendering: pixelated;" />
-    <div class="absolute inset-0 bg-black/20 z-1" style="background-image: linear-gradient(transparent 50%, rgba(0,0,0,0.1) 50%); background-size: 100% 4px;"></div>
+    <img src="${resolveBackground(level.background)}" alt="" class="level-background"
+         onerror="this.onerror = null; this.src = '${FALLBACK_BACKGROUND}';"
+         style="position: absolute; inset: 0; width: 100%; height: 100%; object-fit: cover; z-index: 0; user-select: none; image-rendering: pixelated;" />
+    <div style="position: absolute; inset: 0; z-index: 1; background-color: rgba(0,0,0,0.2); background-image: linear-gradient(transparent 50%, rgba(0,0,0,0.1) 50%); background-size: 100% 4px;"></div>
     
-    <!-- Ground Base for Wizard -->
-    <div class="absolute bottom-0 w-full h-16 bg-[#3a2c1e] border-t-4 border-black z-2"></div>
-
-    <!-- Wizard: Explicit inline style for centering -->
-    <div class="absolute bottom-[120px] left-1/2 -translate-x-1/2 w-24 h-24 text-7xl z-10 flex items-end justify-center filter drop-shadow-[4px_4px_0_rgba(0,0,0,1)]" 
-         style="left: 50%; transform: translateX(-50%); bottom: 120px;"
-         id="wizard-sprite">
-      🧙‍♂️
-    </div>
+    <!-- Ground Base for Wizard: follows the playfield's bottom edge and scale -->
+    <div style="position: absolute; width: 100%; z-index: 2; background: #3a2c1e; border-top: 4px solid #000;
+                bottom: var(--playfield-bottom, 0px); height: calc(${GROUND_HEIGHT}px * var(--stage-scale, 1));"></div>
   `;
 };
 
-const getEnemyStyle = (level: number) => {
-  switch(level) {
-    case 1: return "bg-[#2c3e50] text-white border-4 border-black shadow-[4px_4px_0_0_rgba(0,0,0,1)]"; 
-    case 2: return "bg-[#d35400] text-white border-4 border-black shadow-[4px_4px_0_0_rgba(0,0,0,1)]";
-    case 3: return "bg-[#c0392b] text-white border-4 border-black shadow-[4px_4px_0_0_rgba(0,0,0,1)]";
-    default: return "bg-black text-white";
-  }
-};
-
 // --- Game Component ---
 const MagicMathDefense = () => {
+  const rootRef = useRef<HTMLDivElement>(null);
+  const stageRef = useRef<HTMLDivElement>(null);
   const gameAreaRef = useRef<HTMLDivElement>(null);
+  const inputContainerRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
   const scoreRef = useRef<HTMLSpanElement>(null);
   const finalScoreRef = useRef<HTMLSpanElement>(null);
   const timeDisplayRef = useRef<HTMLSpanElement>(null);
+  const castleHpRef = useRef<HTMLSpanElement>(null);
+  const castleBoxRef = useRef<HTMLDivElement>(null);
+  const comboRef = useRef<HTMLSpanElement>(null);
+  const manaBarRef = useRef<HTMLDivElement>(null);
+  const spellButtonRefs = useRef<Partial<Record<SpellId, HTMLButtonElement | null>>>({});
+  const gameOverBonusRef = useRef<HTMLDivElement>(null);
+  const gameOverDailyRef = useRef<HTMLDivElement>(null);
+  const waveBannerRef = useRef<HTMLDivElement>(null);
   const startScreenRef = useRef<HTMLDivElement>(null);
   const gameOverScreenRef = useRef<HTMLDivElement>(null);
+  const pauseScreenRef = useRef<HTMLDivElement>(null);
+  const resumeButtonRef = useRef<HTMLButtonElement>(null);
   const gameOverTitleRef = useRef<HTMLHeadingElement>(null);
-  const startHighScoreRef = useRef<HTMLSpanElement>(null);
   const gameOverHighScoreRef = useRef<HTMLSpanElement>(null);
-
-  const [currentLevelUI, setCurrentLevelUI] = useState(1);
-  const [gameDifficulty, setGameDifficulty] = useState<'EASY' | 'NORMAL' | 'HARD'>('HARD');
+  const announcerRef = useRef<HTMLDivElement>(null);
+
+  const [levels, setLevels] = useState<LevelDefinition[]>(loadLevelPack);
+  const [isCustomPack, setIsCustomPack] = useState(hasCustomLevelPack);
+  const [levelPackError, setLevelPackError] = useState<string | null>(null);
+  const levelPackInputRef = useRef<HTMLInputElement>(null);
+  const replayInputRef = useRef<HTMLInputElement>(null);
+  const [currentLevelUI, setCurrentLevelUI] = useState(levels[0].id);
+  const [gameDifficulty, setGameDifficulty] = useState<Difficulty>('HARD');
+  const [save, setSave] = useState<SaveData>(loadSave);
+  const activeProfile = getActiveProfile(save);
   const [countdown, setCountdown] = useState<number | null>(null);
+  const [activeOperations, setActiveOperations] = useState<Operation[]>(['add']);
+  const [report, setReport] = useState<LearningReport | null>(null);
+  const [isAdaptive, setIsAdaptive] = useState(false);
+  const [winCondition, setWinCondition] = useState<WinCondition>('sudden-death');
+  const [inputMode, setInputMode] = useState<InputMode>('auto');
+  const [rendererType, setRendererType] = useState<RendererType>(loadRendererType);
+  const [showNumberPad] = useState(isTouchDevice);
+  const [locale, setLocale] = useState<Locale>(loadLocale);
+  const [a11y, setA11y] = useState<AccessibilitySettings>(loadAccessibilitySettings);
+  const [audioSettings, setAudioSettings] = useState<AudioSettings>(soundManager.settings);
+  // Fraction of assets preloaded; null once the start screen can be shown
+  const [loadProgress, setLoadProgress] = useState<number | null>(0);
+  // Opened from a shared link (?set=...) or made in the editor
+  const [problemSet, setProblemSet] = useState<ProblemSet | null>(readProblemSetFromUrl);
+  const [isEditingSet, setIsEditingSet] = useState(false);
+  const [visualAids, setVisualAids] = useState<VisualAidSettings>(loadVisualAidSettings);
+  const [hintProblem, setHintProblem] = useState<Problem | null>(null);
+  const [leaderboards, setLeaderboards] = useState<Leaderboards>(loadLeaderboards);
+  const [isViewingLeaderboard, setIsViewingLeaderboard] = useState(false);
+  // A ranked run waiting for initials, then the board it was added to
+  const [pendingRun, setPendingRun] = useState<{ key: BoardKey, entry: LeaderboardEntry } | null>(null);
+  const [rankedRun, setRankedRun] = useState<{ key: BoardKey, rank: number } | null>(null);
+  const [lastRecording, setLastRecording] = useState<Recording | null>(null);
+  // The recording open in the replay viewer
+  const [replay, setReplay] = useState<Recording | null>(null);
+  const [replayError, setReplayError] = useState<string | null>(null);
+  const [dailyResults, setDailyResults] = useState<DailyResults>(() => loadDailyResults(activeProfile.id));
+  const [campaignProgress, setCampaignProgress] = useState<CampaignProgress>(() => loadCampaignProgress(activeProfile.id));
+  const [isViewingCampaign, setIsViewingCampaign] = useState(false);
+  const [playerMode, setPlayerMode] = useState<PlayerMode>('solo');
+  // Level of the two-player round being played
+  const [twoPlayerLevel, setTwoPlayerLevel] = useState<LevelDefinition | null>(null);
+  const [achievements, setAchievements] = useState<AchievementProgress>(() => loadAchievements(activeProfile.id));
+  const [isViewingStickers, setIsViewingStickers] = useState(false);
+  const [toasts, setToasts] = useState<{ key: number, id: AchievementId }[]>([]);
+  // Stars for the campaign stage just played, and the stage it opened up
+  const [stageResult, setStageResult] = useState<{ stage: Stage, stars: number, unlocked: Stage | null } | null>(null);
+  const t = MESSAGES[locale];
+  const renderTheme: RenderTheme = {
+    font: a11y.highContrast ? READABLE_FONT : PIXEL_FONT,
+    textScale: a11y.textScale,
+    highContrast: a11y.highContrast,
+    reducedMotion: a11y.reducedMotion
+  };
+  const fmt = (value: number) => formatNumber(locale, value);
 
-  // Game state
+  // Game state (rules live in the engine; this is the renderer's side)
   const gameState = useRef({
-    level: 1,
-    score: 0,
     isPlaying: false,
+    // Engine, renderer effects and music are frozen (pause menu open or resume countdown running)
     isPaused: false,
+    isPauseMenuOpen: false,
+    countdownTimer: 0,
     isGameActive: false,
-    elapsedTime: 0,
-    spawnRate: 2000,
-    enemySpeed: 1,
-    lastSpawnTime: 0,
-    enemies: [] as any[],
     animationFrameId: 0,
-    difficultyMultiplier: 1,
+    engine: null as GameEngine | null,
+    unsubscribe: null as (() => void) | null,
+    renderer: null as GameRenderer | null,
+    viewport: fitPlayfield(window.innerWidth, window.innerHeight) as Viewport,
+    // Only set in adaptive practice
+    mastery: null as MasteryStore | null,
+    // Only set while playing a teacher's problem set
+    problemSet: null as ProblemSet | null,
+    // Only set while playing the daily challenge
+    daily: null as DailyRun | null,
+    // Only set while playing a campaign stage
+    stage: null as Stage | null,
+    waveBannerTimer: 0,
+    // The player's stickers and what the current run has done towards them
+    achievements: null as AchievementProgress | null,
+    achievementRun: null as AchievementRun | null,
+    toastCount: 0,
+    recording: null as Recording | null,
+    profileId: '',
+    difficulty: 'HARD' as Difficulty,
+    startedAt: 0,
+    inputMode: 'auto' as InputMode,
+    autoCastTimer: 0,
+    // Level colors after the color-blind palette is applied
+    levelColors: null as LevelDefinition['colors'] | null,
+    // Messages queued in the same tick are read out together
+    announcements: [] as string[],
+    announceTimer: 0,
+    // Seconds before the number line hint appears; 0 = off
+    hintDelay: 0,
+    hintText: null as string | null,
   });
 
   useEffect(() => {
-    const savedHighScore = localStorage.getItem('magicMathHighScore') || '0';
-    if (startHighScoreRef.current) startHighScoreRef.current.innerText = savedHighScore;
-    if (gameOverHighScoreRef.current) gameOverHighScoreRef.current.innerText = savedHighScore;
-
     const handleInteraction = () => {
         soundManager.init();
         if (!gameState.current.isGameActive) {
@@ -207,338 +206,740 @@ const MagicMathDefense = () => {
     document.addEventListener('click', handleInteraction, { once: true });
     document.addEventListener('keydown', handleInteraction, { once: true });
 
+    preloadAssets(
+      levels.map(level => resolveBackground(level.background)),
+      [`16px ${PIXEL_FONT}`, `16px ${VIETNAMESE_PIXEL_FONT}`],
+      (loaded, total) => setLoadProgress(total > 0 ? loaded / total : 1)
+    ).then(() => setLoadProgress(null));
+
+    updateLayout();
+    window.addEventListener('resize', updateLayout);
+    window.addEventListener('orientationchange', updateLayout);
+
+    // Switching tabs or apps must not leave the castle undefended
+    const handleVisibilityChange = () => { if (document.hidden) pauseGame(); };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    window.addEventListener('blur', pauseGame);
+
     return () => {
+      window.removeEventListener('resize', updateLayout);
+      window.removeEventListener('orientationchange', updateLayout);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      window.removeEventListener('blur', pauseGame);
       cancelAnimationFrame(gameState.current.animationFrameId);
+      clearInterval(gameState.current.countdownTimer);
+      clearTimeout(gameState.current.announceTimer);
+      gameState.current.unsubscribe?.();
+      gameState.current.renderer?.destroy();
       soundManager.stopBGM();
     };
   }, []);
 
-  const generateProblem = (level: number) => {
-    let maxSum = 20;
-    let minSum = 2;
+  // Text size changes the number pad's height
+  useEffect(() => updateLayout(), [a11y.textScale]);
 
-    if (level === 2) {
-        maxSum = 50;
-        minSum = 10; 
-    } else if (level === 3) {
-        maxSum = 100;
-        minSum = 20; 
+  useEffect(() => setDailyResults(loadDailyResults(activeProfile.id)), [activeProfile.id]);
+  useEffect(() => setCampaignProgress(loadCampaignProgress(activeProfile.id)), [activeProfile.id]);
+  useEffect(() => setAchievements(loadAchievements(activeProfile.id)), [activeProfile.id]);
+
+  // Scales the logical playfield into the screen area above the number pad (if shown)
+  const updateLayout = () => {
+    const state = gameState.current;
+    const padHeight = showNumberPad ? inputContainerRef.current?.offsetHeight || 0 : 0;
+    const viewport = fitPlayfield(window.innerWidth, window.innerHeight - padHeight);
+    state.viewport = viewport;
+    const bounds = state.engine?.bounds;
+    if (bounds && (bounds.width !== viewport.bounds.width || bounds.height !== viewport.bounds.height)) {
+      recordAction({ type: 'bounds', bounds: viewport.bounds });
     }
+    state.engine?.setBounds(viewport.bounds);
 
-    const answer = Math.floor(Math.random() * (maxSum - minSum + 1)) + minSum;
-    const num1 = Math.floor(Math.random() * (answer - 1)) + 1;
-    const num2 = answer - num1;
+    if (stageRef.current) {
+      stageRef.current.style.width = `${viewport.bounds.width}px`;
+      stageRef.current.style.height = `${viewport.bounds.height}px`;
+      stageRef.current.style.transform = `translate(${viewport.offsetX}px, ${viewport.offsetY}px) scale(${viewport.scale})`;
+    }
+    rootRef.current?.style.setProperty('--stage-scale', viewport.scale.toString());
+    rootRef.current?.style.setProperty('--playfield-bottom', `${padHeight}px`);
+  };
 
-    return {
-      text: `${num1} + ${num2}`,
-      answer: answer
-    };
+  const getEnemyCenter = (enemy: Enemy) => gameState.current.renderer?.getEnemyCenter(enemy) ?? null;
+
+  const removeEnemy = (id: number) => gameState.current.renderer?.removeEnemy(id);
+
+  const shootAtEnemy = (enemy: Enemy) => {
+    const center = getEnemyCenter(enemy);
+    if (center) shootProjectile(center.x, center.y);
   };
 
-  const createEnemy = () => {
+  const showSpell = (spell: SpellId, target: Enemy | null, killed: Enemy[]) => {
     const state = gameState.current;
-    if (!gameAreaRef.current) return;
-
-    const problem = generateProblem(state.level); 
-    const element = document.createElement('div');
-    
-    element.style.cssText = `
-      position: absolute;
-      display: flex;
-      flex-direction: column;
-      align-items: center;
-      z-index: 2;
-      font-family: 'Press Start 2P', cursive;
-    `;
-    
-    const monsters = ['👺', '👻', '👹', '🧟'];
-    const goblinChar = monsters[Math.floor(Math.random() * monsters.length)];
-    
-    const color = state.level === 1 ? '#2ecc71' : state.level === 2 ? '#f39c12' : '#e74c3c';
-    const enemyClass = getEnemyStyle(state.level);
-
-    element.innerHTML = `
-      <div class="${enemyClass}" style="
-        padding: 4px 8px;
-        font-size: 16px;
-        margin-bottom: 5px;
-      ">${problem.text}</div>
-      <div style="
-        font-size: 40px;
-        color: ${color};
-        filter: drop-shadow(4px 4px 0 #000);
-        animation: float 2s ease-in-out infinite;
-      ">${goblinChar}</div>
-    `;
-
-    const maxX = window.innerWidth - 120;
-    const enemyWidth = 120;
-    let x = 0;
-    let safePosition = false;
-    let attempts = 0;
-
-    while (!safePosition && attempts < 10) {
-        x = Math.random() * (maxX - 10) + 10;
-        safePosition = true;
-        for (const enemy of state.enemies) {
-            if (enemy.y < 150) {
-                if (Math.abs(enemy.x - x) < enemyWidth) {
-                    safePosition = false;
-                    break;
-                }
-            }
+    if (spell === 'fireball') {
+      // Enemies are already gone from the engine; keep their sprites until the fireball lands
+      const centers = killed.map(getEnemyCenter);
+      const targetCenter = target ? getEnemyCenter(target) : null;
+      if (!targetCenter) {
+        killed.forEach(e => removeEnemy(e.id));
+        return;
+      }
+      shootProjectile(targetCenter.x, targetCenter.y, {
+        onImpact: () => {
+          createExplosion(targetCenter.x, targetCenter.y, '🔥', 140);
+          centers.forEach(c => c && createExplosion(c.x, c.y, '💥', 60, true));
+          killed.forEach(e => removeEnemy(e.id));
         }
-        attempts++;
+      });
+      return;
     }
+    soundManager.playSFX(spell);
+    state.engine?.state.enemies.forEach(enemy => {
+      const center = getEnemyCenter(enemy);
+      if (center) createExplosion(center.x, center.y, SPELLS[spell].icon, 40, true);
+    });
+  };
 
-    let y = -100;
+  const castSpell = (spell: SpellId) => {
+    if (!gameState.current.isPlaying || gameState.current.isPaused) return;
+    if (gameState.current.engine?.castSpell(spell)) recordAction({ type: 'spell', spell });
+    inputRef.current?.focus();
+  };
 
-    element.style.left = `${x}px`;
-    element.style.top = `${y}px`;
-    
-    gameAreaRef.current.appendChild(element);
-
-    const enemyObj = {
-      problem,
-      element,
-      x,
-      y,
-      move: () => {
-        enemyObj.y += state.enemySpeed + (state.score / 5000); 
-        element.style.top = `${enemyObj.y}px`;
-        if (enemyObj.y > window.innerHeight - 150) { 
-          endGame("DEFEATED");
-        }
-      },
-      remove: () => {
-        if (element.parentNode) {
-          element.parentNode.removeChild(element);
+  // Logs what the player did to the current run's recording
+  const recordAction = (action: ReplayAction) => {
+    const { engine, recording, isGameActive } = gameState.current;
+    if (engine && recording && isGameActive) recordInput(recording, engine, action);
+  };
+
+  const submitAnswer = (val: number) => {
+    const enemy = gameState.current.engine?.submitAnswer(val);
+    if (enemy) recordAction({ type: 'answer', value: val });
+    return enemy;
+  };
+
+  const recordWrongAnswer = (val: number) => {
+    recordAction({ type: 'wrong', value: val });
+    gameState.current.engine?.recordWrongAnswer(val);
+  };
+
+  const updateMastery = (event: GameEvent) => {
+    const { engine, mastery, profileId } = gameState.current;
+    if (engine && mastery && applyMasteryEvent(mastery, engine.level.id, event)) saveMastery(profileId, mastery);
+  };
+
+  const updateAchievements = (event: GameEvent) => {
+    const { engine, achievements, achievementRun } = gameState.current;
+    if (engine && achievements && achievementRun && trackAchievementEvent(achievementRun, achievements, event, engine.state.score)) {
+      checkAchievements();
+    }
+  };
+
+  // Saves the player's progress and shows a toast for each newly unlocked sticker
+  const checkAchievements = () => {
+    const { achievements, achievementRun, profileId } = gameState.current;
+    if (!achievements) return;
+    const unlocked = unlockAchievements(achievementRun, achievements);
+    saveAchievements(profileId, achievements);
+    if (unlocked.length === 0) return;
+    setAchievements({ ...achievements });
+    unlocked.forEach(showAchievementToast);
+  };
+
+  const showAchievementToast = (id: AchievementId) => {
+    const key = ++gameState.current.toastCount;
+    soundManager.playSFX('sticker');
+    announce(t.announceSticker(t.achievements[id].name));
+    setToasts(toasts => [...toasts, { key, id }]);
+    window.setTimeout(() => setToasts(toasts => toasts.filter(toast => toast.key !== key)), TOAST_TIME);
+  };
+
+  const handleGameEvent = (event: GameEvent) => {
+    const { engine, recording } = gameState.current;
+    if (engine && recording) recordKills(recording, engine, event);
+    updateMastery(event);
+    updateAchievements(event);
+    switch (event.type) {
+      case 'spawn':
+        if (gameState.current.levelColors) gameState.current.renderer?.addEnemy(event.enemy, gameState.current.levelColors);
+        announce(t.announceProblem(speakProblem(t, event.enemy.problem.text)));
+        break;
+      case 'hit':
+        shootAtEnemy(event.enemy);
+        gameState.current.renderer?.updateEnemyStage(event.enemy);
+        announce(t.announceHit(speakProblem(t, event.enemy.problem.text)));
+        break;
+      case 'kill':
+        shootAtEnemy(event.enemy);
+        removeEnemy(event.enemy.id);
+        if (scoreRef.current) scoreRef.current.innerText = fmt(event.score);
+        announce(t.announceKill(event.score));
+        break;
+      case 'miss': {
+        // In sudden death the enemy stays on screen for the defeat
+        const engine = gameState.current.engine;
+        if (!engine || engine.winCondition === 'sudden-death') break;
+        removeEnemy(event.enemy.id);
+        soundManager.playSFX('hit');
+        if (engine.winCondition === 'castle') {
+          updateCastleHp(engine.state.castleHp);
+          announce(t.announceCastleHit(engine.state.castleHp));
         }
+        break;
       }
-    };
-    
-    state.enemies.push(enemyObj);
+      case 'defeat':
+        endGame('defeated');
+        break;
+      case 'wrong':
+        showWrongAnswer();
+        announce(t.announceWrong);
+        break;
+      case 'victory':
+        endGame('victory', event.bonus);
+        break;
+      case 'spell':
+        showSpell(event.spell, event.target, event.killed);
+        if (scoreRef.current) scoreRef.current.innerText = fmt(event.score);
+        announce(t.announceSpell(t.spells[event.spell]));
+        break;
+      case 'wave-start':
+        showWaveBanner(t.waveStart(event.wave + 1, event.total));
+        break;
+      case 'wave-clear':
+        // The last wave's clear is followed at once by the victory screen
+        if (event.wave < event.total - 1) showWaveBanner(t.waveCleared);
+        break;
+    }
   };
 
-  const endGame = (message: string = "GAME OVER") => {
+  // Campaign intermission banner over the playfield
+  const showWaveBanner = (text: string) => {
     const state = gameState.current;
+    const banner = waveBannerRef.current;
+    announce(text);
+    if (!banner) return;
+    banner.innerText = text;
+    banner.classList.remove('hidden', 'wave-banner-show');
+    void banner.offsetWidth;
+    banner.classList.add('wave-banner-show');
+    clearTimeout(state.waveBannerTimer);
+    state.waveBannerTimer = window.setTimeout(hideWaveBanner, WAVE_BANNER_TIME);
+  };
+
+  const hideWaveBanner = () => {
+    clearTimeout(gameState.current.waveBannerTimer);
+    waveBannerRef.current?.classList.add('hidden');
+  };
+
+  // Polite live region: the screen reader finishes what it is saying first
+  const announce = (text: string) => {
+    const state = gameState.current;
+    if (!a11y.announce) return;
+    state.announcements.push(text);
+    clearTimeout(state.announceTimer);
+    state.announceTimer = window.setTimeout(() => {
+      if (announcerRef.current) announcerRef.current.textContent = state.announcements.join('. ');
+      state.announcements = [];
+    }, 100);
+  };
+
+  const updateCastleHp = (hp: number) => {
+    if (castleHpRef.current) castleHpRef.current.innerText = '❤️'.repeat(hp) + '🖤'.repeat(CASTLE_MAX_HP - hp);
+  };
+
+  const endGame = (outcome: SessionOutcome, survivalBonus: number = 0) => {
+    const state = gameState.current;
+    const isVictory = outcome === 'victory';
     state.isPlaying = false;
     state.isGameActive = false;
+    clearTimeout(state.autoCastTimer);
+    updateHint(null);
+    hideWaveBanner();
     soundManager.stopBGM();
-    soundManager.playSFX('gameover');
-
-    const currentScore = state.score;
-    const storedHighScore = parseInt(localStorage.getItem('magicMathHighScore') || '0', 10);
-    let displayHighScore = storedHighScore;
+    soundManager.playSFX(isVictory ? 'timesup' : 'gameover');
 
-    if (currentScore > storedHighScore) {
-        localStorage.setItem('magicMathHighScore', currentScore.toString());
-        displayHighScore = currentScore;
+    const currentScore = state.engine ? state.engine.state.score : 0;
+    if (state.engine && state.recording) {
+      finishRecording(state.recording, state.engine);
+      setLastRecording(state.recording);
     }
+    const runReport = state.engine ? buildLearningReport(state.engine.state.answerLog, state.engine.state.defeatedBy) : null;
+    setReport(runReport);
+    const levelId = state.engine ? state.engine.level.id : currentLevelUI;
+    // Re-read storage: this runs from the game loop and may hold a stale `save`
+    let updatedSave = withBestScore(loadSave(), state.profileId, levelId, state.difficulty, currentScore);
+    if (state.engine) {
+      updatedSave = withSession(updatedSave, {
+        id: createId('s'),
+        profileId: state.profileId,
+        levelId,
+        difficulty: state.difficulty,
+        adaptive: state.mastery !== null,
+        winCondition: state.engine.winCondition,
+        startedAt: state.startedAt,
+        duration: state.engine.state.elapsedTime,
+        score: currentScore,
+        outcome,
+        problems: state.engine.state.answerLog
+      });
+    }
+    writeSave(updatedSave);
+    setSave(updatedSave);
+    const displayHighScore = getBestScore(updatedSave, state.profileId, levelId, state.difficulty);
 
-    if (finalScoreRef.current) finalScoreRef.current.innerText = currentScore.toString();
+    if (finalScoreRef.current) finalScoreRef.current.innerText = fmt(currentScore);
+    const title = !isVictory ? t.outcomes.defeated : state.stage ? t.stageClear : t.outcomes.victory[state.engine.winCondition];
     if (gameOverTitleRef.current) {
-        gameOverTitleRef.current.innerText = message;
-        gameOverTitleRef.current.style.color = '#e74c3c';
+        gameOverTitleRef.current.innerText = title;
+        gameOverTitleRef.current.style.color = isVictory ? 'var(--color-good)' : 'var(--color-bad)';
+    }
+    announce(t.announceGameOver(title, currentScore));
+    if (gameOverBonusRef.current) {
+        gameOverBonusRef.current.innerText = isVictory ? t.survivalBonus(survivalBonus) : '';
+        gameOverBonusRef.current.classList.toggle('hidden', !isVictory);
+    }
+    if (gameOverDailyRef.current) {
+        gameOverDailyRef.current.innerText = state.daily ? (state.daily.scored ? t.dailySaved : t.dailyPractice) : '';
+        gameOverDailyRef.current.classList.toggle('hidden', !state.daily);
     }
     
-    if (startHighScoreRef.current) startHighScoreRef.current.innerText = displayHighScore.toString();
-    if (gameOverHighScoreRef.current) gameOverHighScoreRef.current.innerText = displayHighScore.toString();
+    if (gameOverHighScoreRef.current) gameOverHighScoreRef.current.innerText = fmt(displayHighScore);
+
+    if (state.daily?.scored) {
+      const results = { ...loadDailyResults(state.profileId), [state.daily.date]: currentScore };
+      saveDailyResults(state.profileId, results);
+      setDailyResults(results);
+    }
+
+    setStageResult(null);
+    if (state.stage && state.engine) {
+      const stars = starRating(isVictory, runReport.accuracy, state.engine.state.castleHp);
+      const progress = loadCampaignProgress(state.profileId);
+      const next = nextStage(state.stage);
+      const updated = withStageStars(progress, state.stage, stars);
+      saveCampaignProgress(state.profileId, updated);
+      setCampaignProgress(updated);
+      setStageResult({
+        stage: state.stage,
+        stars,
+        unlocked: next && !isStageUnlocked(progress, next) && isStageUnlocked(updated, next) ? next : null
+      });
+      if (state.achievementRun) state.achievementRun.stars = stars;
+    }
+    if (state.achievementRun) state.achievementRun.won = isVictory;
+    checkAchievements();
+    if (state.achievements) setAchievements({ ...state.achievements });
+
+    // Adaptive practice, problem sets, the daily challenge and the campaign are not ranked
+    setRankedRun(null);
+    setPendingRun(null);
+    if (state.engine && state.mastery === null && !state.problemSet && !state.daily && !state.stage) {
+      const key: BoardKey = { levelId, difficulty: state.difficulty, mode: state.engine.winCondition };
+      if (qualifiesForBoard(loadLeaderboards(), key, currentScore)) {
+        setPendingRun({
+          key,
+          entry: { initials: '', score: currentScore, date: Date.now(), accuracy: runReport.accuracy, timeSurvived: state.engine.state.elapsedTime }
+        });
+      }
+    }
 
     if (gameOverScreenRef.current) gameOverScreenRef.current.classList.remove('hidden');
   };
 
-  const shootProjectile = (targetX: number, targetY: number) => {
-    if (!gameAreaRef.current) return;
-    soundManager.playSFX('shoot');
-
-    const startX = window.innerWidth / 2;
-    const startY = window.innerHeight - 150;
-
-    const projectile = document.createElement('div');
-    projectile.style.cssText = `
-        position: absolute;
-        width: 10px;
-        height: 10px;
-        background: #f1c40f;
-        border: 2px solid #fff;
-        box-shadow: 0 0 0 2px #000;
-        z-index: 4;
-        left: ${startX}px;
-        top: ${startY}px;
-    `;
-    gameAreaRef.current.appendChild(projectile);
-
-    const duration = 200;
-    const startTime = performance.now();
-
-    const animateProjectile = (currentTime: number) => {
-      const elapsed = currentTime - startTime;
-      const progress = Math.min(elapsed / duration, 1);
-
-      const currentX = startX + (targetX - startX) * progress;
-      const currentY = startY + (targetY - startY) * progress;
-
-      projectile.style.left = `${currentX}px`;
-      projectile.style.top = `${currentY}px`;
-
-      if (progress < 1) {
-        requestAnimationFrame(animateProjectile);
-      } else {
-        projectile.remove();
-        createExplosion(targetX, targetY);
-      }
-    };
-    requestAnimationFrame(animateProjectile);
+  // Fireballs are bigger and slower and call onImpact instead of the default explosion
+  const shootProjectile = (targetX: number, targetY: number, fireball: { onImpact: () => void } | null = null) => {
+    const { renderer, viewport } = gameState.current;
+    if (!renderer) return;
+    soundManager.playSFX(fireball ? 'fireball' : 'shoot');
+
+    // From the wizard, standing on the castle line
+    const from = { x: viewport.bounds.width / 2, y: viewport.bounds.height - CASTLE_OFFSET };
+    renderer.shootProjectile(from, { x: targetX, y: targetY }, {
+      fireball: fireball !== null,
+      onImpact: fireball ? fireball.onImpact : () => createExplosion(targetX, targetY)
+    });
   };
 
-  const createExplosion = (x: number, y: number) => {
-    if (!gameAreaRef.current) return;
-    soundManager.playSFX('hit');
+  const createExplosion = (x: number, y: number, icon: string = '💥', size: number = 60, silent: boolean = false) => {
+    if (!silent) soundManager.playSFX('hit');
+    if (!a11y.reducedMotion) gameState.current.renderer?.explode({ x, y }, icon, size);
+  };
 
-    const explosion = document.createElement('div');
-    explosion.innerText = '💥';
-    explosion.style.cssText = `
-        position: absolute;
-        font-size: 60px;
-        left: ${x}px;
-        top: ${y}px;
-        transform: translate(-50%, -50%);
-        z-index: 6;
-        text-shadow: 4px 4px 0 #000;
-    `;
-    gameAreaRef.current.appendChild(explosion);
-    setTimeout(() => explosion.remove(), 300);
+  const showWrongAnswer = () => {
+    soundManager.playSFX('wrong');
+    const input = inputRef.current;
+    if (!input) return;
+    input.value = '';
+    // Restart the shake animation even if it is still running
+    input.classList.remove('wrong-answer');
+    void input.offsetWidth;
+    input.classList.add('wrong-answer');
+  };
+
+  const castAnswer = (val: number) => {
+    const state = gameState.current;
+    // Nothing can be hit before the round starts or while it is frozen, including during either countdown
+    if (!inputRef.current || !state.engine || !state.isPlaying || state.isPaused) return;
+    if (submitAnswer(val)) {
+      inputRef.current.value = '';
+    } else {
+      recordWrongAnswer(val);
+    }
   };
 
   const checkInput = () => {
     const state = gameState.current;
-    if (!inputRef.current) return;
+    clearTimeout(state.autoCastTimer);
+    if (!inputRef.current || !state.engine || !state.isPlaying || state.isPaused) return;
+    recordAction({ type: 'typed', text: inputRef.current.value });
+    if (state.inputMode !== 'auto') return;
     const val = parseInt(inputRef.current.value);
     if (isNaN(val)) return;
 
-    const matchIndex = state.enemies.findIndex(e => e.problem.answer === val);
-
-    if (matchIndex !== -1) {
-      const enemy = state.enemies[matchIndex];
-      const rect = enemy.element.getBoundingClientRect();
-      shootProjectile(rect.left + rect.width / 2, rect.top + rect.height / 2);
-      
-      state.enemies.splice(matchIndex, 1);
-      enemy.remove();
-      
-      state.score += 10;
-      
-      if (scoreRef.current) scoreRef.current.innerText = state.score.toString();
-      
-      inputRef.current.value = '';
-      state.lastSpawnTime = -10000; 
-
-      // Min spawn rate also respects difficulty
-      const baseMinSpawn = state.level === 3 ? 2000 : 1000;
-      const minSpawnRate = baseMinSpawn * state.difficultyMultiplier;
-      
-      if (state.score % 50 === 0) {
-        state.spawnRate = Math.max(minSpawnRate, state.spawnRate - 50);
-      }
+    switch (state.engine.autoCast(val.toString())) {
+      case 'wrong':
+        recordWrongAnswer(val);
+        break;
+      // Might be the start of a longer answer: hold the cast until the player pauses
+      case 'wait':
+        state.autoCastTimer = window.setTimeout(() => {
+          if (submitAnswer(val) && inputRef.current) inputRef.current.value = '';
+        }, AUTO_CAST_DELAY);
+        break;
+      case 'cast':
+        castAnswer(val);
+        break;
+      // Nothing on screen to check the digits against, e.g. between waves: leave them in the field
+      case 'hold':
+        break;
     }
   };
 
   const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
-    if (e.key === 'Enter' && inputRef.current) {
-      inputRef.current.value = '';
+    if (e.key === 'Escape') {
+      pauseGame();
+      return;
     }
+    const spell = SPELL_IDS.find(id => SPELLS[id].hotkey === e.key.toLowerCase());
+    if (spell) {
+      e.preventDefault();
+      castSpell(spell);
+      return;
+    }
+    if (e.key === 'Enter') castTypedAnswer();
+  };
+
+  const castTypedAnswer = () => {
+    if (!inputRef.current) return;
+    clearTimeout(gameState.current.autoCastTimer);
+    const val = parseInt(inputRef.current.value);
+    if (isNaN(val)) return;
+    castAnswer(val);
+  };
+
+  // Number pad keys edit the field like typing would, including auto-cast
+  const pressDigit = (digit: string) => {
+    if (!inputRef.current || !gameState.current.isPlaying) return;
+    inputRef.current.value += digit;
+    checkInput();
+  };
+
+  const pressBackspace = () => {
+    if (!inputRef.current) return;
+    inputRef.current.value = inputRef.current.value.slice(0, -1);
+    checkInput();
   };
 
   const handleGameLoop = (timestamp: number) => {
     const state = gameState.current;
-    if (!state.isPlaying || state.isPaused) {
+    const engine = state.engine;
+    if (!state.isPlaying || state.isPaused || !engine) {
+      engine?.resetClock();
+      if (engine) renderEngine(engine, timestamp);
       state.animationFrameId = requestAnimationFrame(handleGameLoop);
       return;
     }
 
-    state.elapsedTime += 1/60;
-    if (timeDisplayRef.current) {
-        timeDisplayRef.current.innerText = Math.floor(state.elapsedTime).toString();
-    }
+    engine.advance(timestamp);
 
-    if (timestamp - state.lastSpawnTime > state.spawnRate) {
-      createEnemy();
-      state.lastSpawnTime = timestamp;
+    if (timeDisplayRef.current) {
+        // Timed rounds count down instead of up
+        const seconds = engine.winCondition === 'timed'
+          ? Math.max(0, Math.ceil(engine.timeLimit - engine.state.elapsedTime))
+          : Math.floor(engine.state.elapsedTime);
+        timeDisplayRef.current.innerText = fmt(seconds);
     }
 
-    state.enemies.forEach(enemy => enemy.move());
+    renderEngine(engine, timestamp);
+    updateSpellHud(engine);
+    updateHint(engine);
+    soundManager.setIntensity(engine.threatLevel());
 
     state.animationFrameId = requestAnimationFrame(handleGameLoop);
   };
 
-  const startGame = (level: number) => {
+  const renderEngine = (engine: GameEngine, timestamp: number) => {
+    const { enemies, freezeTimer, slowTimer } = engine.state;
+    gameState.current.renderer?.render(enemies, { frozen: freezeTimer > 0, slowed: slowTimer > 0 }, timestamp);
+  };
+
+  const updateSpellHud = (engine: GameEngine) => {
+    const { combo, mana } = engine.state;
+    if (comboRef.current) comboRef.current.innerText = `x${comboMultiplier(combo)} (${fmt(combo)})`;
+    if (manaBarRef.current) manaBarRef.current.style.width = `${100 * mana / MAX_MANA}%`;
+    SPELL_IDS.forEach(id => {
+      const button = spellButtonRefs.current[id];
+      if (button) button.disabled = !engine.canCast(id);
+    });
+  };
+
+  // Re-renders only when the hinted problem changes, not every frame
+  const updateHint = (engine: GameEngine | null) => {
     const state = gameState.current;
+    const problem = engine && state.hintDelay > 0 ? pickHintProblem(engine.state.enemies, engine.state.elapsedTime, state.hintDelay) : null;
+    const text = problem ? problem.text : null;
+    if (text === state.hintText) return;
+    state.hintText = text;
+    setHintProblem(problem);
+  };
+
+  // Player's picks narrowed to what the level allows
+  const pickedOperations = (level: LevelDefinition) => {
+    const allowed = activeOperations.filter(op => level.operations.includes(op));
+    return allowed.length === 0 ? level.operations : allowed;
+  };
+
+  const startGame = (level: LevelDefinition, { set = null, daily = null, stage = null }: RoundOptions = {}) => {
+    const state = gameState.current;
+    // The daily challenge is the same for everyone, and campaign stages are tuned for fixed settings,
+    // whatever is picked on the start screen
+    const difficulty = daily ? DAILY_DIFFICULTY : stage ? CAMPAIGN_DIFFICULTY : gameDifficulty;
+    const roundWinCondition = daily ? DAILY_WIN_CONDITION : stage ? CAMPAIGN_WIN_CONDITION : winCondition;
+    stopRound();
     state.isGameActive = true; 
-    state.level = level; 
-    setCurrentLevelUI(level); 
+    setCurrentLevelUI(level.id); 
     
-    soundManager.stopBGM();
+    soundManager.playBGM(level.music);
 
     if (startScreenRef.current) startScreenRef.current.classList.add('hidden');
     if (gameOverScreenRef.current) gameOverScreenRef.current.classList.add('hidden');
-
-    state.score = 0;
-    state.elapsedTime = 0;
-    state.enemies.forEach(e => e.remove());
-    state.enemies = [];
+    setPendingRun(null);
+    setRankedRun(null);
+    setStageResult(null);
+
+    state.unsubscribe?.();
+    state.renderer?.destroy();
+    state.renderer = createRenderer(rendererType);
+    state.renderer.setTheme(renderTheme);
+    if (gameAreaRef.current) state.renderer.mount(gameAreaRef.current);
+    const levelIndex = levels.findIndex(l => l.id === level.id);
+    state.levelColors = levelColors(level, Math.max(0, levelIndex), a11y.palette);
     
     if (scoreRef.current) scoreRef.current.innerText = '0';
-    if (timeDisplayRef.current) timeDisplayRef.current.innerText = '0';
-
-    // Determine Difficulty Multiplier
-    let multiplier = 1;
-    if (gameDifficulty === 'NORMAL') multiplier = 2;
-    if (gameDifficulty === 'EASY') multiplier = 4;
-    state.difficultyMultiplier = multiplier;
-
-    // Base Spawn Rates (Hard mode baseline)
-    let baseSpawnRate = 2000;
-
-    if (level === 1) {
-        state.enemySpeed = 1.2; 
-        baseSpawnRate = 2000; 
-    } else if (level === 2) {
-        state.enemySpeed = 0.8; 
-        baseSpawnRate = 3000; 
-    } else {
-        state.enemySpeed = 0.5; 
-        baseSpawnRate = 4000; 
-    }
-
-    // Apply multiplier
-    state.spawnRate = baseSpawnRate * multiplier;
+    if (timeDisplayRef.current) timeDisplayRef.current.innerText = fmt(roundWinCondition === 'timed' ? GAME_DURATION : 0);
+    updateCastleHp(CASTLE_MAX_HP);
+    castleBoxRef.current?.classList.toggle('hidden', roundWinCondition !== 'castle');
+
+    const operations = daily || stage ? level.operations : pickedOperations(level);
+
+    state.profileId = activeProfile.id;
+    state.difficulty = difficulty;
+    state.inputMode = inputMode;
+    state.hintDelay = visualAids.hintDelay;
+    // A teacher's set decides the problems and the pace, so adaptive practice sits it out
+    state.problemSet = set;
+    state.daily = daily;
+    state.stage = stage;
+    state.mastery = isAdaptive && !set && !daily && !stage ? loadMastery(activeProfile.id) : null;
+    state.recording = createRecording({
+      player: activeProfile.name,
+      recordedAt: Date.now(),
+      seed: daily ? dailySeed(daily.date) : randomSeed(),
+      level,
+      difficulty,
+      difficultyMultiplier: DIFFICULTY_MULTIPLIERS[difficulty],
+      operations,
+      winCondition: roundWinCondition,
+      timeLimit: GAME_DURATION,
+      representation: visualAids.representation === 'digits' ? null : visualAids.representation,
+      pictureOnly: visualAids.pictureOnly,
+      problemSet: set ? encodeProblemSet(set) : null,
+      mastery: state.mastery,
+      waves: stage ? stage.waves : null,
+      // The daily challenge spawns on the clock, so the day's enemies come at the same times for everyone
+      pacing: stage ? 'waves' : state.mastery ? 'adaptive' : daily ? 'steady' : 'score',
+      bounds: state.viewport.bounds
+    });
+    const engine = createRecordedEngine(state.recording, state.mastery);
+    state.unsubscribe = engine.on(handleGameEvent);
+    state.engine = engine;
+    updateSpellHud(engine);
+
+    state.achievements = loadAchievements(activeProfile.id);
+    state.achievementRun = createAchievementRun(levelIndex);
+    recordDayPlayed(state.achievements);
+    checkAchievements();
+
+    runCountdown();
+  };
 
-    let count = 3;
-    setCountdown(3);
-    
-    const countInterval = setInterval(() => {
+  // Counts down, then starts the round or lets a paused one carry on
+  const runCountdown = () => {
+    const state = gameState.current;
+    let count = COUNTDOWN_SECONDS;
+    setCountdown(count);
+    clearInterval(state.countdownTimer);
+    state.countdownTimer = window.setInterval(() => {
         count--;
         if (count > 0) {
             setCountdown(count);
+            return;
+        }
+        clearInterval(state.countdownTimer);
+        setCountdown(null);
+        if (state.isPlaying) {
+            unfreeze();
         } else {
-            clearInterval(countInterval);
-            setCountdown(null);
-            
-            state.isPlaying = true;
-            state.isPaused = false;
-            
-            if (inputRef.current) {
-                inputRef.current.value = '';
-                inputRef.current.focus();
-            }
-            state.lastSpawnTime = performance.now();
-            cancelAnimationFrame(state.animationFrameId);
-            state.animationFrameId = requestAnimationFrame(handleGameLoop);
+            beginPlay();
         }
     }, 1000);
   };
 
+  const beginPlay = () => {
+    const state = gameState.current;
+    state.isPlaying = true;
+    state.startedAt = Date.now();
+    if (inputRef.current) inputRef.current.value = '';
+    cancelAnimationFrame(state.animationFrameId);
+    state.animationFrameId = requestAnimationFrame(handleGameLoop);
+    unfreeze();
+  };
+
+  const unfreeze = () => {
+    const state = gameState.current;
+    state.isPaused = false;
+    state.engine?.resetClock();
+    state.renderer?.setPaused(false);
+    soundManager.resumeBGM();
+    if (inputRef.current) inputRef.current.focus();
+  };
+
+  // Ends the current round without a result (restart or quit)
+  const stopRound = () => {
+    const state = gameState.current;
+    clearInterval(state.countdownTimer);
+    clearTimeout(state.autoCastTimer);
+    cancelAnimationFrame(state.animationFrameId);
+    setCountdown(null);
+    state.isPlaying = false;
+    state.isPaused = false;
+    state.isGameActive = false;
+    setPauseMenuOpen(false);
+    updateHint(null);
+    hideWaveBanner();
+  };
+
+  const toggleOperation = (op: Operation) => {
+    setActiveOperations(prev => {
+      if (!prev.includes(op)) return [...prev, op];
+      // Keep at least one operation selected
+      return prev.length > 1 ? prev.filter(o => o !== op) : prev;
+    });
+  };
+
+  const handleLevelPackFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const pack = parseLevelPack(JSON.parse(await file.text()));
+      saveLevelPack(pack);
+      setLevels(pack);
+      setIsCustomPack(true);
+      setCurrentLevelUI(pack[0].id);
+      setLevelPackError(null);
+    } catch (err) {
+      setLevelPackError(describeError(t, err, t.invalidLevelPack));
+    }
+  };
+
+  const handleReplayFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setReplay(parseRecording(JSON.parse(await file.text())));
+      setReplayError(null);
+    } catch (err) {
+      setReplayError(describeError(t, err, t.invalidReplay));
+    }
+  };
+
+  const resetLevelPack = () => {
+    clearLevelPack();
+    const pack = loadLevelPack();
+    setLevels(pack);
+    setIsCustomPack(false);
+    setCurrentLevelUI(pack[0].id);
+    setLevelPackError(null);
+  };
+
+  const selectLocale = (next: Locale) => {
+    saveLocale(next);
+    setLocale(next);
+  };
+
+  const updateA11y = (changes: Partial<AccessibilitySettings>) => {
+    saveAccessibilitySettings(changes);
+    setA11y(prev => ({ ...prev, ...changes }));
+  };
+
+  const updateVisualAids = (changes: Partial<VisualAidSettings>) => {
+    const next = { ...visualAids, ...changes };
+    saveVisualAidSettings(next);
+    setVisualAids(next);
+  };
+
+  const updateAudio = (channel: AudioChannel, changes: Partial<AudioSettings[AudioChannel]>) => {
+    soundManager.updateSettings(channel, changes);
+    setAudioSettings(soundManager.settings);
+  };
+
+  const selectRenderer = (type: RendererType) => {
+    saveRendererType(type);
+    setRendererType(type);
+  };
+
+  const updateSave = (next: SaveData) => {
+    writeSave(next);
+    setSave(next);
+  };
+
+  // The import has already written storage; it can also bring stars, stickers, daily results and
+  // leaderboard entries for the active player
+  const importProgress = (next: SaveData) => {
+    setSave(next);
+    setDailyResults(loadDailyResults(activeProfile.id));
+    setCampaignProgress(loadCampaignProgress(activeProfile.id));
+    setAchievements(loadAchievements(activeProfile.id));
+    setLeaderboards(loadLeaderboards());
+  };
+
+  const deleteProfile = (profileId: string) => {
+    clearMastery(profileId);
+    clearDailyResults(profileId);
+    clearCampaignProgress(profileId);
+    clearAchievements(profileId);
+    updateSave(withoutProfile(save, profileId));
+  };
+
+  const submitInitials = (initials: string) => {
+    // Re-read so a board saved in another tab is not overwritten
+    const result = withLeaderboardEntry(loadLeaderboards(), pendingRun.key, { ...pendingRun.entry, initials });
+    saveLeaderboards(result.boards);
+    setLeaderboards(result.boards);
+    setRankedRun({ key: pendingRun.key, rank: result.rank });
+    setPendingRun(null);
+  };
+
   const resetToStart = () => {
     if (gameOverScreenRef.current) gameOverScreenRef.current.classList.add('hidden');
     if (startScreenRef.current) startScreenRef.current.classList.remove('hidden');
@@ -546,32 +947,102 @@ const MagicMathDefense = () => {
     soundManager.playBGM(0);
   };
 
-  const togglePause = () => {
+  const setPauseMenuOpen = (open: boolean) => {
+    gameState.current.isPauseMenuOpen = open;
+    pauseScreenRef.current?.classList.toggle('hidden', !open);
+  };
+
+  // Also runs from the blur/visibility listeners, so it only touches refs
+  const pauseGame = () => {
     const state = gameState.current;
-    if (!state.isPlaying && !countdown) return;
-    state.isPaused = !state.isPaused;
-    if (!state.isPaused) {
-        state.lastSpawnTime = performance.now();
-        soundManager.init();
-        if (inputRef.current) inputRef.current.focus();
+    if (!state.isGameActive || state.isPauseMenuOpen) return;
+    // A pending countdown starts over on resume
+    clearInterval(state.countdownTimer);
+    setCountdown(null);
+    clearTimeout(state.autoCastTimer);
+    state.isPaused = true;
+    state.renderer?.setPaused(true);
+    soundManager.pauseBGM();
+    setPauseMenuOpen(true);
+    resumeButtonRef.current?.focus();
+  };
+
+  const resumeGame = () => {
+    if (!gameState.current.isPauseMenuOpen) return;
+    setPauseMenuOpen(false);
+    soundManager.init();
+    runCountdown();
+  };
+
+  const restartGame = () => {
+    const { engine, problemSet, daily, stage } = gameState.current;
+    // The day's attempt is used up once started
+    if (engine) startGame(engine.level, { set: problemSet, daily: daily && { ...daily, scored: false }, stage });
+  };
+
+  // Starting the day's first attempt uses it up, so quitting and restarting can't fish for a better run
+  const playDailyChallenge = () => {
+    const date = dateKey();
+    const scored = !(date in dailyResults);
+    if (scored) {
+      const results = { ...dailyResults, [date]: 0 };
+      saveDailyResults(activeProfile.id, results);
+      setDailyResults(results);
+    }
+    startGame(dailyLevel(levels, date), { daily: { date, scored } });
+  };
+
+  const playLevel = (level: LevelDefinition) => {
+    if (playerMode === 'solo') {
+      startGame(level);
     } else {
-        soundManager.ctx?.suspend();
+      if (startScreenRef.current) startScreenRef.current.classList.add('hidden');
+      setCurrentLevelUI(level.id);
+      setTwoPlayerLevel(level);
     }
   };
 
+  const exitTwoPlayer = () => {
+    setTwoPlayerLevel(null);
+    resetToStart();
+  };
+
+  const playStage = (stage: Stage) => {
+    setIsViewingCampaign(false);
+    startGame(stageLevel(levels, stage), { stage });
+  };
+
+  const playProblemSet = (set: ProblemSet) => {
+    setProblemSet(set);
+    setIsEditingSet(false);
+    startGame(problemSetLevel(set), { set });
+  };
+
+  const quitGame = () => {
+    const state = gameState.current;
+    stopRound();
+    state.unsubscribe?.();
+    state.unsubscribe = null;
+    state.renderer?.clear();
+    resetToStart();
+  };
+
   return (
-    <div style={{ 
+    <div ref={rootRef} lang={locale} className={`${a11y.highContrast ? 'a11y-contrast' : ''} ${a11y.reducedMotion ? 'a11y-reduced-motion' : ''}`} style={{ 
       position: 'relative', 
       width: '100%', 
       height: '100vh', 
       overflow: 'hidden',
-      fontFamily: "'Press Start 2P', cursive",
-      background: '#2c3e50',
+      fontFamily: a11y.highContrast ? READABLE_FONT : locale === 'vi' ? VIETNAMESE_PIXEL_FONT : PIXEL_FONT,
+      background: a11y.highContrast ? '#000' : '#2c3e50',
       color: '#fff',
-      userSelect: 'none'
-    }}>
-        <style>{`
-            @import url('https://fonts.googleapis.com/css2?family=Press+Start+2P&display=swap');
+      userSelect: 'none',
+      '--text-scale': a11y.textScale,
+      '--color-good': STATUS_COLORS[a11y.palette].good,
+      '--color-warning': STATUS_COLORS[a11y.palette].warning,
+      '--color-bad': STATUS_COLORS[a11y.palette].bad
+    } as React.CSSProperties}>
+        <style>{`${VIETNAMESE_FONT_FACES}
 
             .scanlines {
                 position: fixed;
@@ -610,6 +1081,42 @@ const MagicMathDefense = () => {
                 width: 320px;
             }
 
+            #input-container.touch {
+                bottom: 0;
+                left: 0;
+                transform: none;
+                width: 100%;
+                padding: 10px;
+                box-sizing: border-box;
+                background: #34495e;
+                border-top: 4px solid #000;
+                display: flex;
+                flex-direction: column;
+                align-items: center;
+                gap: 10px;
+            }
+            #input-container.touch #spell-input { max-width: 320px; padding: 10px; box-sizing: border-box; }
+
+            .number-pad {
+                display: grid;
+                grid-template-columns: repeat(3, 1fr);
+                gap: 8px;
+                width: 100%;
+                max-width: 320px;
+            }
+            .number-pad .btn { margin: 0; padding: 12px 0; font-size: 18px; touch-action: manipulation; }
+
+            .profile-name-input {
+                padding: 10px;
+                font-size: 14px;
+                text-align: center;
+                border: 4px solid #fff;
+                outline: none;
+                background: #000;
+                color: #fff;
+                font-family: inherit;
+            }
+
             #spell-input {
                 width: 100%;
                 padding: 15px;
@@ -619,10 +1126,57 @@ const MagicMathDefense = () => {
                 outline: none;
                 background: #000;
                 color: #fff;
-                font-family: 'Press Start 2P', cursive;
+                font-family: inherit;
                 box-shadow: 8px 8px 0 rgba(0,0,0,0.5);
             }
 
+            .mana-bar {
+                width: 120px;
+                height: 16px;
+                background: #000;
+                border: 4px solid #fff;
+                box-shadow: 4px 4px 0 #000;
+            }
+            .mana-fill { height: 100%; width: 0; background: #3498db; transition: width 0.2s; }
+
+            .number-line-hint {
+                position: absolute;
+                top: 100%;
+                left: 50%;
+                transform: translateX(-50%);
+                margin-top: 4px;
+                background: rgba(0,0,0,0.6);
+                pointer-events: none;
+            }
+            /* The number pad sits under the field on touch screens, so the hint goes above it */
+            #input-container.touch .number-line-hint { top: auto; bottom: 100%; margin: 0 0 6px; }
+
+            .volume-slider { width: 140px; accent-color: var(--color-warning); }
+            .volume-slider:disabled { opacity: 0.35; }
+
+            .spell-btn {
+                padding: 6px 8px;
+                font-size: 16px;
+                margin: 0;
+                position: relative;
+            }
+            .spell-btn span { font-size: 8px; position: absolute; right: 2px; bottom: 2px; }
+            .spell-btn:disabled { opacity: 0.35; cursor: default; transform: none; }
+
+            #game-area.frozen > div { filter: hue-rotate(180deg) brightness(1.4); }
+            #game-area.slowed div { animation-duration: 6s !important; }
+
+            #spell-input.wrong-answer, .player-input.wrong-answer {
+                border-color: #e74c3c;
+                animation: shake 0.3s linear;
+            }
+
+            @keyframes shake {
+                0%, 100% { transform: translateX(0); }
+                25% { transform: translateX(-8px); }
+                75% { transform: translateX(8px); }
+            }
+
             .screen {
                 position: absolute;
                 top: 0; left: 0; width: 100%; height: 100%;
@@ -630,12 +1184,65 @@ const MagicMathDefense = () => {
                 display: flex;
                 flex-direction: column;
                 justify-content: center;
+                justify-content: safe center;
                 align-items: center;
+                overflow-y: auto;
+                padding: 20px 0;
+                box-sizing: border-box;
                 z-index: 100;
             }
 
+            .wave-banner {
+                position: absolute;
+                top: 35%; left: 50%;
+                transform: translate(-50%, -50%);
+                z-index: 60;
+                padding: 15px 30px;
+                font-size: 24px;
+                color: #f1c40f;
+                text-shadow: 4px 4px 0 #000;
+                white-space: nowrap;
+                pointer-events: none;
+            }
+            .wave-banner-show { animation: banner-in 0.4s ease-out; }
+            @keyframes banner-in {
+                from { transform: translate(-50%, -50%) scale(0.5); opacity: 0; }
+                to { transform: translate(-50%, -50%) scale(1); opacity: 1; }
+            }
+
+            .achievement-toasts {
+                position: absolute;
+                top: 100px; right: 20px;
+                z-index: 120;
+                display: flex;
+                flex-direction: column;
+                gap: 10px;
+                pointer-events: none;
+            }
+            .achievement-toast { animation: toast-in 0.3s ease-out; }
+            @keyframes toast-in {
+                from { transform: translateX(120%); }
+                to { transform: translateX(0); }
+            }
+
+            .pause-screen { background: #2c3e50; }
+            #game-area.paused * { animation-play-state: paused !important; }
+
             .hidden { display: none !important; }
 
+            .sr-only {
+                position: absolute;
+                width: 1px; height: 1px;
+                padding: 0; margin: -1px;
+                overflow: hidden;
+                clip: rect(0, 0, 0, 0);
+                white-space: nowrap;
+                border: 0;
+            }
+
+            .load-bar { width: 240px; height: 20px; background: #000; border: 4px solid #fff; box-shadow: 4px 4px 0 #000; }
+            .load-fill { height: 100%; background: var(--color-good); }
+
             h1 {
                 font-size: 32px;
                 color: #f1c40f;
@@ -652,7 +1259,7 @@ const MagicMathDefense = () => {
                 padding: 20px;
                 font-size: 14px;
                 cursor: pointer;
-                font-family: 'Press Start 2P', cursive;
+                font-family: inherit;
                 box-shadow: 6px 6px 0 #000;
                 margin: 10px;
                 text-transform: uppercase;
@@ -661,10 +1268,6 @@ const MagicMathDefense = () => {
             .btn:hover { background: #2980b9; transform: translate(-2px, -2px); box-shadow: 8px 8px 0 #000; }
             .btn:active { transform: translate(2px, 2px); box-shadow: 2px 2px 0 #000; }
             
-            .level-btn-1 { background: #2ecc71; }
-            .level-btn-2 { background: #e67e22; }
-            .level-btn-3 { background: #e74c3c; }
-            
             .diff-btn {
                 padding: 10px 15px;
                 font-size: 12px;
@@ -674,12 +1277,37 @@ const MagicMathDefense = () => {
                 border: 2px solid #7f8c8d;
             }
             .diff-btn.active {
-                background: #f39c12;
+                background: var(--color-warning);
                 color: #000;
                 border-color: #fff;
-                box-shadow: 0 0 10px #f39c12;
+                box-shadow: 0 0 10px var(--color-warning);
             }
             
+            .hud-bar, .screen > *, #input-container { zoom: var(--text-scale, 1); }
+            .hud-bar { flex-wrap: wrap; gap: 10px; }
+
+            /* --- Accessibility: high contrast --- */
+            .a11y-contrast * { font-family: ${READABLE_FONT} !important; font-weight: bold; }
+            .a11y-contrast .scanlines, .a11y-contrast .level-background { display: none; }
+            .a11y-contrast .screen { background: #000; }
+            .a11y-contrast .hud-bar { background: #000; border-bottom-color: #fff; }
+            .a11y-contrast .retro-box { color: #fff !important; }
+            .a11y-contrast .btn { background: #000 !important; color: #fff; border-color: #fff; }
+            .a11y-contrast .diff-btn.active { background: #ff0 !important; color: #000; box-shadow: none; }
+            .a11y-contrast h1 { color: #fff; text-shadow: none; }
+            .a11y-contrast :focus-visible { outline: 4px solid #ff0; outline-offset: 2px; }
+
+            /* --- Accessibility: reduced motion --- */
+            .a11y-reduced-motion .scanlines { display: none; }
+            .a11y-reduced-motion *, .a11y-reduced-motion *::before, .a11y-reduced-motion *::after {
+                animation: none !important;
+                transition: none !important;
+            }
+            .a11y-reduced-motion .btn:hover, .a11y-reduced-motion .btn:active { transform: none; }
+            /* Keeps the red border for a moment without shaking; animationend still clears it */
+            .a11y-reduced-motion #spell-input.wrong-answer, .a11y-reduced-motion .player-input.wrong-answer { animation: hold 0.3s linear !important; }
+            @keyframes hold { from, to { transform: none; } }
+
             @keyframes float {
                 0% { transform: translateY(0px); }
                 50% { transform: translateY(-10px); }
@@ -692,24 +1320,39 @@ const MagicMathDefense = () => {
         {/* Background */}
         <div 
             style={{position:'absolute', width:'100%', height:'100%', background: '#2c3e50'}}
-            dangerouslySetInnerHTML={{ __html: getLevelBackgroundHTML(currentLevelUI) }}
+            dangerouslySetInnerHTML={{ __html: getLevelBackgroundHTML(findLevel(levels, currentLevelUI)) }}
         >
         </div>
 
         {/* Game UI */}
         <div style={{position:'absolute', width:'100%', zIndex:10}}>
             <div className="hud-bar">
-                <div className="retro-box">SCORE: <span ref={scoreRef}>0</span></div>
                 <div style={{display:'flex', gap:'10px', alignItems:'center'}}>
-                    <div className="retro-box" style={{color:'#f1c40f'}}>TIME: <span ref={timeDisplayRef}>0</span></div>
-                    <button className="btn" style={{padding:'10px 15px', fontSize:'12px', margin:0}} onClick={togglePause}>||</button>
+                    <div className="retro-box">{t.score}: <span ref={scoreRef}>0</span></div>
+                    <div className="retro-box" style={{color:'#e67e22', fontSize:'12px'}}>{t.combo}: <span ref={comboRef}>x1</span></div>
+                    <div className="mana-bar"><div ref={manaBarRef} className="mana-fill"></div></div>
+                    {SPELL_IDS.map(id => (
+                        <button
+                            key={id}
+                            ref={el => { spellButtonRefs.current[id] = el; }}
+                            className="btn spell-btn"
+                            title={`${t.spells[id]} (${SPELLS[id].cost})`}
+                            aria-label={t.spells[id]}
+                            onMouseDown={e => e.preventDefault()}
+                            onClick={() => castSpell(id)}>{SPELLS[id].icon}<span>{SPELLS[id].hotkey.toUpperCase()}</span></button>
+                    ))}
+                </div>
+                <div style={{display:'flex', gap:'10px', alignItems:'center'}}>
+                    <div ref={castleBoxRef} className="retro-box hidden" style={{fontSize:'12px'}}>{t.castle}: <span ref={castleHpRef}></span></div>
+                    <div className="retro-box" style={{color:'#f1c40f'}}>{t.time}: <span ref={timeDisplayRef}>0</span></div>
+                    <button className="btn" style={{padding:'10px 15px', fontSize:'12px', margin:0}} aria-label={t.pause} onClick={pauseGame}>||</button>
                 </div>
             </div>
         </div>
 
         {/* Countdown Overlay */}
         {countdown !== null && (
-            <div style={{
+            <div aria-hidden="true" style={{
                 position: 'absolute',
                 top: '50%', left: '50%',
                 transform: 'translate(-50%, -50%)',
@@ -723,65 +1366,407 @@ const MagicMathDefense = () => {
             </div>
         )}
 
-        {/* Game World Layer for enemies/projectiles */}
-        <div id="game-area" ref={gameAreaRef} style={{position:'absolute', top:0, left:0, width:'100%', height:'100%', overflow:'hidden', zIndex: 5}}>
+        {/* Campaign wave banner */}
+        <div ref={waveBannerRef} className="retro-box wave-banner hidden" aria-hidden="true"></div>
+
+        {/* Logical playfield, scaled to fit by updateLayout */}
+        <div id="game-stage" ref={stageRef} style={{position:'absolute', top:0, left:0, transformOrigin:'0 0', zIndex: 5}}>
+            {/* Game World Layer for enemies/projectiles */}
+            <div id="game-area" ref={gameAreaRef} aria-hidden="true" style={{position:'absolute', top:0, left:0, width:'100%', height:'100%', overflow:'hidden'}}>
+            </div>
+            <div id="wizard-sprite" aria-hidden="true" style={{
+                position: 'absolute',
+                left: '50%',
+                bottom: `${WIZARD_OFFSET}px`,
+                transform: 'translateX(-50%)',
+                width: '96px',
+                height: '96px',
+                fontSize: '72px',
+                lineHeight: 1,
+                display: 'flex',
+                alignItems: 'flex-end',
+                justifyContent: 'center',
+                filter: 'drop-shadow(4px 4px 0 #000)',
+                zIndex: 10
+            }}>
+                🧙‍♂️
+            </div>
         </div>
 
         {/* Input */}
-        <div id="input-container">
+        <div id="input-container" ref={inputContainerRef} className={showNumberPad ? 'touch' : ''}>
             <input 
                 type="number" 
                 id="spell-input" 
                 placeholder="???" 
                 autoFocus 
                 autoComplete="off"
+                aria-label={t.answer}
+                readOnly={showNumberPad}
+                inputMode={showNumberPad ? 'none' : 'numeric'}
                 ref={inputRef}
                 onInput={checkInput}
                 onKeyDown={handleKeyDown}
+                onAnimationEnd={e => e.currentTarget.classList.remove('wrong-answer')}
             />
+            {hintProblem && <NumberLineHint problem={hintProblem} t={t} />}
+            {showNumberPad && <NumberPad onDigit={pressDigit} onBackspace={pressBackspace} onCast={castTypedAnswer} t={t} />}
+        </div>
+
+        {/* Sticker unlocks; read out through the announcer instead */}
+        <div className="achievement-toasts" aria-hidden="true">
+            {toasts.map(toast => <div key={toast.key}><AchievementToast id={toast.id} t={t} /></div>)}
         </div>
 
+        {/* Screen reader announcements */}
+        <div ref={announcerRef} className="sr-only" aria-live="polite" aria-atomic="true"></div>
+
+        {/* Loading Screen: covers the start screen until art and font are ready */}
+        {loadProgress !== null && (
+            <div className="screen" style={{zIndex: 110}} role="progressbar" aria-label={t.loading} aria-valuemin={0} aria-valuemax={100} aria-valuenow={Math.round(loadProgress * 100)}>
+                <div style={{marginBottom: '20px'}}>{t.loading}</div>
+                <div className="load-bar"><div className="load-fill" style={{width: `${loadProgress * 100}%`}}></div></div>
+            </div>
+        )}
+
         {/* Start Screen */}
         <div id="start-screen" className="screen" ref={startScreenRef}>
-            <h1 style={{padding:'0 20px'}}>MAGIC MATH<br/>DEFENDER</h1>
-            <div style={{marginBottom:'20px', color:'#2ecc71'}}>BEST: <span ref={startHighScoreRef}>0</span></div>
+            <h1 style={{padding:'0 20px'}}>{t.title[0]}<br/>{t.title[1]}</h1>
+
+            <div style={{marginBottom: '20px'}}>
+                <div style={{fontSize: '10px', color: '#bdc3c7', marginBottom: '10px', textAlign: 'center'}}>{t.language}</div>
+                <div style={{display: 'flex', justifyContent: 'center'}}>
+                    {LOCALES.map(l => (
+                        <button
+                            key={l}
+                            lang={l}
+                            className={`btn diff-btn ${locale === l ? 'active' : ''}`}
+                            onClick={() => selectLocale(l)}>{MESSAGES[l].languageName}</button>
+                    ))}
+                </div>
+            </div>
+
+            <ProfileSelector
+                profiles={save.profiles}
+                activeProfileId={activeProfile.id}
+                onSelect={id => updateSave(withActiveProfile(save, id))}
+                onCreate={(name, avatar) => updateSave(withProfile(save, createProfile(name, avatar)))}
+                onDelete={deleteProfile}
+                t={t}
+            />
+            <div style={{marginBottom:'20px', color:'var(--color-good)'}}>{t.best}: {fmt(getOverallBest(save, activeProfile.id))}</div>
+            <DailyChallenge results={dailyResults} today={new Date()} onPlay={playDailyChallenge} t={t} />
+            <button className="btn" style={{background: '#8e44ad', marginBottom: '20px'}} onClick={() => setIsViewingCampaign(true)}>
+                {t.campaign}
+                <span style={{display: 'block', fontSize: '10px', marginTop: '8px'}}>★ {t.starCount(totalStars(campaignProgress))}</span>
+            </button>
             
             <div style={{marginBottom: '20px'}}>
-                <div style={{fontSize: '10px', color: '#bdc3c7', marginBottom: '10px', textAlign: 'center'}}>SELECT DIFFICULTY</div>
+                <div style={{fontSize: '10px', color: '#bdc3c7', marginBottom: '10px', textAlign: 'center'}}>{t.selectDifficulty}</div>
                 <div style={{display: 'flex', justifyContent: 'center'}}>
                     <button 
                         className={`btn diff-btn ${gameDifficulty === 'EASY' ? 'active' : ''}`} 
-                        onClick={() => setGameDifficulty('EASY')}>EASY</button>
+                        onClick={() => setGameDifficulty('EASY')}>{t.difficulties.EASY}</button>
                     <button 
                         className={`btn diff-btn ${gameDifficulty === 'NORMAL' ? 'active' : ''}`} 
-                        onClick={() => setGameDifficulty('NORMAL')}>NORMAL</button>
+                        onClick={() => setGameDifficulty('NORMAL')}>{t.difficulties.NORMAL}</button>
                     <button 
                         className={`btn diff-btn ${gameDifficulty === 'HARD' ? 'active' : ''}`} 
-                        onClick={() => setGameDifficulty('HARD')}>HARD</button>
+                        onClick={() => setGameDifficulty('HARD')}>{t.difficulties.HARD}</button>
+                </div>
+            </div>
+
+            <div style={{marginBottom: '20px'}}>
+                <div style={{fontSize: '10px', color: '#bdc3c7', marginBottom: '10px', textAlign: 'center'}}>{t.players}</div>
+                <div style={{display: 'flex', justifyContent: 'center', flexWrap: 'wrap', gap: '10px 0'}}>
+                    {PLAYER_MODES.map(mode => (
+                        <button
+                            key={mode}
+                            className={`btn diff-btn ${playerMode === mode ? 'active' : ''}`}
+                            onClick={() => setPlayerMode(mode)}>{t.playerModes[mode]}</button>
+                    ))}
+                </div>
+            </div>
+
+            <div style={{marginBottom: '20px'}}>
+                <div style={{fontSize: '10px', color: '#bdc3c7', marginBottom: '10px', textAlign: 'center'}}>{t.practiceMode}</div>
+                <div style={{display: 'flex', justifyContent: 'center'}}>
+                    <button 
+                        className={`btn diff-btn ${!isAdaptive ? 'active' : ''}`} 
+                        onClick={() => setIsAdaptive(false)}>{t.classic}</button>
+                    <button 
+                        className={`btn diff-btn ${isAdaptive ? 'active' : ''}`} 
+                        onClick={() => setIsAdaptive(true)}>{t.adaptive}</button>
+                </div>
+                <div style={{fontSize: '10px', color: '#bdc3c7', margin: '15px 0 10px', textAlign: 'center'}}>{t.pictures}</div>
+                <div style={{display: 'flex', justifyContent: 'center', flexWrap: 'wrap', gap: '10px 0'}}>
+                    {(['digits', ...REPRESENTATIONS] as const).map(representation => (
+                        <button
+                            key={representation}
+                            className={`btn diff-btn ${visualAids.representation === representation ? 'active' : ''}`}
+                            onClick={() => updateVisualAids({ representation })}>{t.representations[representation]}</button>
+                    ))}
+                </div>
+                {visualAids.representation !== 'digits' && (
+                    <div style={{display: 'flex', justifyContent: 'center', marginTop: '10px'}}>
+                        <button
+                            className={`btn diff-btn ${!visualAids.pictureOnly ? 'active' : ''}`}
+                            onClick={() => updateVisualAids({ pictureOnly: false })}>{t.withDigits}</button>
+                        <button
+                            className={`btn diff-btn ${visualAids.pictureOnly ? 'active' : ''}`}
+                            onClick={() => updateVisualAids({ pictureOnly: true })}>{t.pictureOnly}</button>
+                    </div>
+                )}
+                <div style={{fontSize: '10px', color: '#bdc3c7', margin: '15px 0 10px', textAlign: 'center'}}>{t.hintNumberLine}</div>
+                <div style={{display: 'flex', justifyContent: 'center'}}>
+                    {HINT_DELAYS.map(delay => (
+                        <button
+                            key={delay}
+                            className={`btn diff-btn ${visualAids.hintDelay === delay ? 'active' : ''}`}
+                            onClick={() => updateVisualAids({ hintDelay: delay })}>{delay > 0 ? t.seconds(delay) : t.off}</button>
+                    ))}
+                </div>
+            </div>
+
+            <div style={{marginBottom: '20px'}}>
+                <div style={{fontSize: '10px', color: '#bdc3c7', marginBottom: '10px', textAlign: 'center'}}>{t.winConditionLabel}</div>
+                <div style={{display: 'flex', justifyContent: 'center'}}>
+                    <button 
+                        className={`btn diff-btn ${winCondition === 'sudden-death' ? 'active' : ''}`} 
+                        onClick={() => setWinCondition('sudden-death')}>{t.winConditions['sudden-death']}</button>
+                    <button 
+                        className={`btn diff-btn ${winCondition === 'castle' ? 'active' : ''}`} 
+                        onClick={() => setWinCondition('castle')}>{t.winConditions.castle}</button>
+                    <button 
+                        className={`btn diff-btn ${winCondition === 'timed' ? 'active' : ''}`} 
+                        onClick={() => setWinCondition('timed')}>{t.seconds(GAME_DURATION)} {t.winConditions.timed}</button>
+                </div>
+            </div>
+
+            <div style={{marginBottom: '20px'}}>
+                <div style={{fontSize: '10px', color: '#bdc3c7', marginBottom: '10px', textAlign: 'center'}}>{t.castSpell}</div>
+                <div style={{display: 'flex', justifyContent: 'center'}}>
+                    <button 
+                        className={`btn diff-btn ${inputMode === 'auto' ? 'active' : ''}`} 
+                        onClick={() => setInputMode('auto')}>{t.inputModes.auto}</button>
+                    <button 
+                        className={`btn diff-btn ${inputMode === 'enter' ? 'active' : ''}`} 
+                        onClick={() => setInputMode('enter')}>{t.inputModes.enter}</button>
+                </div>
+            </div>
+
+            <div style={{marginBottom: '20px'}}>
+                <div style={{fontSize: '10px', color: '#bdc3c7', marginBottom: '10px', textAlign: 'center'}}>{t.renderer}</div>
+                <div style={{display: 'flex', justifyContent: 'center'}}>
+                    <button 
+                        className={`btn diff-btn ${rendererType === 'canvas' ? 'active' : ''}`} 
+                        onClick={() => selectRenderer('canvas')}>{t.renderers.canvas}</button>
+                    <button 
+                        className={`btn diff-btn ${rendererType === 'dom' ? 'active' : ''}`} 
+                        onClick={() => selectRenderer('dom')}>{t.renderers.dom}</button>
+                </div>
+            </div>
+
+            <div style={{marginBottom: '20px'}}>
+                <div style={{fontSize: '10px', color: '#bdc3c7', marginBottom: '10px', textAlign: 'center'}}>{t.selectOperations}</div>
+                <div style={{display: 'flex', justifyContent: 'center', flexWrap: 'wrap'}}>
+                    {OPERATIONS.map(op => (
+                        <button
+                            key={op}
+                            className={`btn diff-btn ${activeOperations.includes(op) ? 'active' : ''}`}
+                            onClick={() => toggleOperation(op)}>{t.operationLabels[op] || PROBLEM_GENERATORS[op].label}</button>
+                    ))}
                 </div>
             </div>
 
             <div style={{display:'flex', flexDirection:'column', gap:'15px'}}>
-                <button className="btn level-btn-1" onClick={() => startGame(1)}>LVL 1 (SUM &lt; 20)</button>
-                <button className="btn level-btn-2" onClick={() => startGame(2)}>LVL 2 (SUM &lt; 50)</button>
-                <button className="btn level-btn-3" onClick={() => startGame(3)}>LVL 3 (SUM &lt; 100)</button>
+                {levels.map((level, index) => {
+                    const best = getBestScore(save, activeProfile.id, level.id, gameDifficulty);
+                    return (
+                        <button key={level.id} className="btn" style={{background: levelColors(level, index, a11y.palette).button}} onClick={() => playLevel(level)}>
+                            {levelName(t, level, index)} ({describeLevel(t, level)})
+                            <span style={{display: 'block', fontSize: '10px', marginTop: '8px'}}>{t.best}: {best ? fmt(best) : '-'}</span>
+                        </button>
+                    );
+                })}
+                {problemSet && (
+                    <button className="btn" style={{background: problemSetLevel(problemSet).colors.button}} onClick={() => playProblemSet(problemSet)}>
+                        {t.problemSet}: {problemSet.name || '-'}
+                        <span style={{display: 'block', fontSize: '10px', marginTop: '8px'}}>{t.problemCount(expandProblemSet(problemSet).length)}</span>
+                    </button>
+                )}
+            </div>
+            <div style={{marginTop: '20px', display: 'flex', justifyContent: 'center'}}>
+                <input type="file" accept="application/json,.json" className="hidden" ref={levelPackInputRef} onChange={handleLevelPackFile} />
+                <button className="btn diff-btn" onClick={() => levelPackInputRef.current?.click()}>{t.loadLevelPack}</button>
+                {isCustomPack && <button className="btn diff-btn" onClick={resetLevelPack}>{t.defaultLevels}</button>}
+                <button className="btn diff-btn" onClick={() => setIsEditingSet(true)}>{t.problemSets}</button>
+                <button className="btn diff-btn" onClick={() => setIsViewingLeaderboard(true)}>{t.leaderboard}</button>
+                <button className="btn diff-btn" onClick={() => setIsViewingStickers(true)}>{t.stickerBook}</button>
+                <input type="file" accept="application/json,.json" className="hidden" ref={replayInputRef} onChange={handleReplayFile} />
+                <button className="btn diff-btn" onClick={() => replayInputRef.current?.click()}>{t.loadReplay}</button>
             </div>
+            {levelPackError && <div role="alert" style={{marginTop: '10px', fontSize: '10px', color: 'var(--color-bad)', textAlign: 'center'}}>{levelPackError}</div>}
+            {replayError && <div role="alert" style={{marginTop: '10px', fontSize: '10px', color: 'var(--color-bad)', textAlign: 'center'}}>{replayError}</div>}
+            <ProgressTransfer save={save} onImport={importProgress} t={t} />
+            <SoundSettings settings={audioSettings} onChange={updateAudio} t={t} />
+
+            <div style={{marginTop: '20px'}}>
+                <div style={{fontSize: '10px', color: '#bdc3c7', marginBottom: '10px', textAlign: 'center'}}>{t.accessibility}</div>
+                <div style={{display: 'flex', justifyContent: 'center', flexWrap: 'wrap', gap: '10px 0'}}>
+                    <button
+                        className={`btn diff-btn ${a11y.announce ? 'active' : ''}`}
+                        aria-pressed={a11y.announce}
+                        onClick={() => updateA11y({ announce: !a11y.announce })}>{t.announcements}: {a11y.announce ? t.on : t.off}</button>
+                    <button
+                        className={`btn diff-btn ${a11y.highContrast ? 'active' : ''}`}
+                        aria-pressed={a11y.highContrast}
+                        onClick={() => updateA11y({ highContrast: !a11y.highContrast })}>{t.highContrast}: {a11y.highContrast ? t.on : t.off}</button>
+                    <button
+                        className={`btn diff-btn ${a11y.reducedMotion ? 'active' : ''}`}
+                        aria-pressed={a11y.reducedMotion}
+                        onClick={() => updateA11y({ reducedMotion: !a11y.reducedMotion })}>{t.reducedMotion}: {a11y.reducedMotion ? t.on : t.off}</button>
+                </div>
+                <div style={{fontSize: '10px', color: '#bdc3c7', margin: '15px 0 10px', textAlign: 'center'}}>{t.textSize}</div>
+                <div style={{display: 'flex', justifyContent: 'center'}}>
+                    {TEXT_SCALES.map(scale => (
+                        <button
+                            key={scale}
+                            className={`btn diff-btn ${a11y.textScale === scale ? 'active' : ''}`}
+                            onClick={() => updateA11y({ textScale: scale })}>{fmt(Math.round(scale * 100))}%</button>
+                    ))}
+                </div>
+                <div style={{fontSize: '10px', color: '#bdc3c7', margin: '15px 0 10px', textAlign: 'center'}}>{t.palette}</div>
+                <div style={{display: 'flex', justifyContent: 'center'}}>
+                    {PALETTES.map(palette => (
+                        <button
+                            key={palette}
+                            className={`btn diff-btn ${a11y.palette === palette ? 'active' : ''}`}
+                            onClick={() => updateA11y({ palette })}>{t.palettes[palette]}</button>
+                    ))}
+                </div>
+            </div>
+
             <div style={{marginTop: '40px', fontSize: '10px', color: '#95a5a6', lineHeight: '1.8', textAlign: 'center'}}>
-                <p style={{marginBottom:'10px'}}>PRESS CORRECT ANSWER TO SHOOT</p>
-                <p>DON'T LET THEM REACH THE CASTLE!</p>
+                <p style={{marginBottom:'10px'}}>{t.howToShoot}</p>
+                <p>{t.howToWin}</p>
             </div>
         </div>
 
+        {isEditingSet && (
+            <ProblemSetEditor
+                set={problemSet}
+                onSave={set => { setProblemSet(set); setIsEditingSet(false); }}
+                onPlay={playProblemSet}
+                onClose={() => setIsEditingSet(false)}
+                t={t}
+            />
+        )}
+
+        {twoPlayerLevel && playerMode !== 'solo' && (
+            <TwoPlayerGame
+                mode={playerMode}
+                level={twoPlayerLevel}
+                difficultyMultiplier={DIFFICULTY_MULTIPLIERS[gameDifficulty]}
+                operations={pickedOperations(twoPlayerLevel)}
+                autoCast={inputMode === 'auto'}
+                showNumberPad={showNumberPad}
+                rendererType={rendererType}
+                theme={renderTheme}
+                colors={levelColors(twoPlayerLevel, Math.max(0, levels.indexOf(twoPlayerLevel)), a11y.palette)}
+                onExit={exitTwoPlayer}
+                t={t}
+            />
+        )}
+
+        {isViewingCampaign && (
+            <CampaignMap
+                levels={levels}
+                progress={campaignProgress}
+                palette={a11y.palette}
+                onPlay={playStage}
+                onClose={() => setIsViewingCampaign(false)}
+                t={t}
+            />
+        )}
+
+        {isViewingStickers && <StickerBook progress={achievements} onClose={() => setIsViewingStickers(false)} t={t} />}
+
+        {isViewingLeaderboard && (
+            <Leaderboard
+                levels={levels}
+                boards={leaderboards}
+                initialKey={{ levelId: currentLevelUI, difficulty: gameDifficulty, mode: winCondition }}
+                onClose={() => setIsViewingLeaderboard(false)}
+                t={t}
+            />
+        )}
+
+        {replay && (
+            <ReplayViewer
+                recording={replay}
+                rendererType={rendererType}
+                theme={renderTheme}
+                colors={levelColors(replay.level, Math.max(0, levels.findIndex(l => l.id === replay.level.id)), a11y.palette)}
+                onClose={() => setReplay(null)}
+                t={t}
+            />
+        )}
+
+        {/* Pause Screen: opaque so the board cannot be studied while paused */}
+        <div id="pause-screen" className="screen pause-screen hidden" ref={pauseScreenRef} role="dialog" aria-modal="true" aria-labelledby="pause-title"
+             onKeyDown={e => { if (e.key === 'Escape') resumeGame(); }}>
+            <h1 id="pause-title">{t.paused}</h1>
+            <button ref={resumeButtonRef} className="btn" onClick={resumeGame}>{t.resume}</button>
+            <button className="btn" onClick={restartGame}>{t.restart}</button>
+            <button className="btn" onClick={quitGame}>{t.quitToMenu}</button>
+        </div>
+
         {/* Game Over Screen */}
         <div id="game-over-screen" className="screen hidden" ref={gameOverScreenRef}>
-            <h1 ref={gameOverTitleRef} style={{fontSize:'40px', color:'#e74c3c'}}>DEFEATED</h1>
-            <div className="retro-box" style={{marginBottom:'20px'}}>SCORE: <span ref={finalScoreRef}>0</span></div>
-            <div style={{marginBottom:'40px', color:'#f1c40f'}}>HIGH SCORE: <span ref={gameOverHighScoreRef}>0</span></div>
-            <button className="btn" onClick={resetToStart}>TRY AGAIN</button>
+            <h1 ref={gameOverTitleRef} style={{fontSize:'40px', color:'var(--color-bad)'}}>{t.outcomes.defeated}</h1>
+            <div ref={gameOverBonusRef} className="hidden" style={{marginBottom:'20px', color:'var(--color-good)', fontSize:'14px'}}></div>
+            <div ref={gameOverDailyRef} className="hidden" style={{marginBottom:'20px', color:'#e67e22', fontSize:'10px'}}></div>
+            {stageResult && (
+                <div style={{marginBottom:'20px', textAlign:'center'}}>
+                    <div style={{fontSize:'10px', color:'#bdc3c7', marginBottom:'10px'}}>{t.stageLabel(stageResult.stage.id)}</div>
+                    <div role="img" aria-label={t.starCount(stageResult.stars)} style={{fontSize:'32px', color:'#f1c40f', textShadow:'4px 4px 0 #000'}}>{starText(stageResult.stars)}</div>
+                    {stageResult.unlocked && <div style={{marginTop:'10px', fontSize:'10px', color:'var(--color-good)'}}>{t.stageUnlocked(stageResult.unlocked.id)}</div>}
+                </div>
+            )}
+            <div className="retro-box" style={{marginBottom:'20px'}}>{t.score}: <span ref={finalScoreRef}>0</span></div>
+            <div style={{marginBottom:'20px', color:'#f1c40f'}}>{t.highScore}: <span ref={gameOverHighScoreRef}>0</span></div>
+            {pendingRun && <InitialsEntry defaultInitials={activeProfile.name} onSubmit={submitInitials} t={t} />}
+            {rankedRun && <LeaderboardTable entries={getBoard(leaderboards, rankedRun.key)} highlight={rankedRun.rank} t={t} />}
+            {report && (
+                <div className="retro-box" style={{marginBottom:'40px', fontSize:'10px', lineHeight:'2', color:'#fff', maxWidth:'90%'}}>
+                    <div>{t.accuracy}: <span style={{color:'var(--color-good)'}}>{fmt(Math.round(report.accuracy * 100))}%</span> {t.answerCounts(report.correct, report.wrong, report.leaked)}</div>
+                    <div>{t.medianTime}: <span style={{color:'#f1c40f'}}>{report.medianResponseTime !== null ? t.responseTime(report.medianResponseTime) : '-'}</span></div>
+                    {report.slowest.length > 0 && (
+                        <div>{t.slowest}: {report.slowest.map(r => `${r.text} (${t.responseTime(r.responseTime as number)})`).join(', ')}</div>
+                    )}
+                    {report.defeatProblem && (
+                        <div style={{color:'var(--color-bad)'}}>{t.defeatedBy}: {report.defeatProblem.text} = {report.defeatProblem.answer}</div>
+                    )}
+                </div>
+            )}
+            <div style={{display: 'flex', justifyContent: 'center', flexWrap: 'wrap'}}>
+                <button className="btn" onClick={resetToStart}>{t.tryAgain}</button>
+                {stageResult && stageResult.stars > 0 && nextStage(stageResult.stage) && (
+                    <button className="btn" onClick={() => playStage(nextStage(stageResult.stage))}>{t.nextStage}</button>
+                )}
+                {lastRecording && <button className="btn" onClick={() => setReplay(lastRecording)}>{t.watchReplay}</button>}
+            </div>
+            <ProgressTransfer save={save} onImport={importProgress} t={t} />
         </div>
     </div>
   );
 };
 
+// Precaches the build for offline play; the worker is only generated by `vite build`
+if ('serviceWorker' in navigator && import.meta.env.PROD) {
+  window.addEventListener('load', () => navigator.serviceWorker.register(`${import.meta.env.BASE_URL}sw.js`));
+}
+
 const root = createRoot(document.getElementById('root')!);
 root.render(<MagicMathDefense />);
\ No newline at end of file
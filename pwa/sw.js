@@ -0,0 +1,49 @@
+// --- Offline Service Worker ---
+// Generated into the build by the `serviceWorker` plugin in vite.config.ts, which fills in
+// the precache list and a version derived from it.
+const CACHE_NAME = 'magic-math-__VERSION__';
+const PRECACHE = __PRECACHE__;
+
+self.addEventListener('install', event => {
+  event.waitUntil(
+    caches.open(CACHE_NAME)
+      .then(cache => cache.addAll(PRECACHE))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys
+        .filter(key => key.startsWith('magic-math-') && key !== CACHE_NAME)
+        .map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+const fetchAndCache = async request => {
+  const response = await fetch(request);
+  if (response.ok || response.type === 'opaque') {
+    const cache = await caches.open(CACHE_NAME);
+    cache.put(request, response.clone());
+  }
+  return response;
+};
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(fetch(request).catch(() => caches.match('./index.html')));
+    return;
+  }
+
+  // Bundled files are content-hashed, so the cached copy is always current.
+  // Other origins (custom level pack art) prefer the network and fall back to the cache.
+  const sameOrigin = new URL(request.url).origin === self.location.origin;
+  event.respondWith(sameOrigin
+    ? caches.match(request).then(cached => cached || fetchAndCache(request))
+    : fetchAndCache(request).catch(() => caches.match(request)));
+});
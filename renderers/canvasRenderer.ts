@@ -0,0 +1,316 @@
+import { Enemy } from '../game/engine';
+import { Problem } from '../game/problems';
+import { drawPicture, hasPicture, HIGH_CONTRAST_PICTURE_COLORS, measurePicture, PICTURE_COLORS, PICTURE_UNIT } from './pictures';
+import {
+  DEFAULT_FLOAT_PERIOD, DEFAULT_RENDER_THEME, DEFAULT_SIGN_FONT_SIZE, DEFAULT_SPRITE_SIZE, ENEMY_SPRITE_SIZE, EnemyColors, EXPLOSION_DURATION,
+  FIREBALL_DURATION, FLOAT_PERIOD, GameRenderer, HIGH_CONTRAST_SIGN, Point, PROJECTILE_DURATION, ProjectileOptions, SIGN_FONT_SIZE,
+  RenderTheme, SLOWED_FLOAT_PERIOD, VisualEffects
+} from './renderer';
+
+type EnemySprite = {
+  enemy: Enemy,
+  colors: EnemyColors,
+  x: number,
+  y: number,
+  addedAt: number
+};
+
+type Projectile = { from: Point, to: Point, start: number, fireball: boolean, onImpact: () => void };
+
+type Explosion = { at: Point, icon: string, size: number, start: number };
+
+const SHADOW_OFFSET = 4;
+const SIGN_PADDING_X = 8;
+const SIGN_PADDING_Y = 4;
+const SIGN_BORDER = 4;
+const SIGN_MARGIN = 5;
+const HP_BAR_WIDTH = 84;
+const HP_BAR_HEIGHT = 12;
+const HP_BAR_MARGIN = 4;
+const FLOAT_HEIGHT = 10;
+
+// --- Canvas Renderer ---
+// Draws everything onto one <canvas> per frame. Emoji and problem labels are rasterized once into
+// a sprite cache and blitted with drawImage, which is far cheaper than laying out DOM nodes.
+export class CanvasRenderer implements GameRenderer {
+  container: HTMLElement | null = null;
+  canvas: HTMLCanvasElement | null = null;
+  ctx: CanvasRenderingContext2D | null = null;
+  pixelRatio = 1;
+  theme: RenderTheme = DEFAULT_RENDER_THEME;
+  spriteCache = new Map<string, HTMLCanvasElement>();
+  enemies = new Map<number, EnemySprite>();
+  projectiles: Projectile[] = [];
+  explosions: Explosion[] = [];
+  pausedAt: number | null = null;
+
+  // Labels rasterized before the pixel font finished loading would stay in the fallback font
+  handleFontsLoaded = () => this.spriteCache.clear();
+
+  mount(container: HTMLElement) {
+    this.container = container;
+    this.canvas = document.createElement('canvas');
+    this.canvas.style.cssText = 'position: absolute; inset: 0; width: 100%; height: 100%; z-index: 2; pointer-events: none;';
+    this.ctx = this.canvas.getContext('2d');
+    container.appendChild(this.canvas);
+    document.fonts?.addEventListener('loadingdone', this.handleFontsLoaded);
+  }
+
+  setTheme(theme: RenderTheme) {
+    this.theme = theme;
+    this.spriteCache.clear();
+  }
+
+  destroy() {
+    this.clear();
+    document.fonts?.removeEventListener('loadingdone', this.handleFontsLoaded);
+    this.canvas?.remove();
+    this.canvas = null;
+    this.ctx = null;
+    this.container = null;
+    this.spriteCache.clear();
+  }
+
+  clear() {
+    this.enemies.clear();
+    this.projectiles = [];
+    this.explosions = [];
+    if (this.ctx && this.canvas) this.ctx.clearRect(0, 0, this.canvas.width, this.canvas.height);
+  }
+
+  addEnemy(enemy: Enemy, colors: EnemyColors) {
+    this.enemies.set(enemy.id, { enemy, colors, x: enemy.x, y: enemy.y, addedAt: performance.now() });
+  }
+
+  // The sign is drawn from enemy.problem every frame, so a new stage needs nothing extra
+  updateEnemyStage(enemy: Enemy) {
+    const sprite = this.enemies.get(enemy.id);
+    if (sprite) sprite.enemy = enemy;
+  }
+
+  removeEnemy(id: number) {
+    this.enemies.delete(id);
+  }
+
+  getEnemyCenter(enemy: Enemy) {
+    const sprite = this.enemies.get(enemy.id);
+    if (!sprite) return null;
+    const layout = this.layoutEnemy(sprite);
+    return { x: sprite.x + layout.width / 2, y: sprite.y + layout.height / 2 };
+  }
+
+  shootProjectile(from: Point, to: Point, options: ProjectileOptions) {
+    this.projectiles.push({ from, to, start: performance.now(), fireball: options.fireball, onImpact: options.onImpact });
+  }
+
+  explode(at: Point, icon: string, size: number) {
+    this.explosions.push({ at, icon, size, start: performance.now() });
+  }
+
+  // --- Sprite cache ---
+  getSprite(key: string, width: number, height: number, draw: (ctx: CanvasRenderingContext2D) => void) {
+    let sprite = this.spriteCache.get(key);
+    if (!sprite) {
+      sprite = document.createElement('canvas');
+      sprite.width = Math.ceil(width * this.pixelRatio);
+      sprite.height = Math.ceil(height * this.pixelRatio);
+      const ctx = sprite.getContext('2d');
+      if (ctx) {
+        ctx.scale(this.pixelRatio, this.pixelRatio);
+        draw(ctx);
+      }
+      this.spriteCache.set(key, sprite);
+    }
+    return sprite;
+  }
+
+  getEmoji(char: string, size: number) {
+    const box = size * 1.3 + SHADOW_OFFSET;
+    return this.getSprite(`emoji|${char}|${size}|${this.pixelRatio}`, box, box, ctx => {
+      ctx.font = `${size}px sans-serif`;
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      ctx.shadowColor = '#000';
+      ctx.shadowOffsetX = SHADOW_OFFSET * this.pixelRatio;
+      ctx.shadowOffsetY = SHADOW_OFFSET * this.pixelRatio;
+      ctx.fillText(char, (box - SHADOW_OFFSET) / 2, (box - SHADOW_OFFSET) / 2);
+    });
+  }
+
+  // Problem text, its picture under it, or just the picture
+  getLabel(problem: Problem, signColor: string, fontSize: number) {
+    const { text } = problem;
+    const { highContrast } = this.theme;
+    const background = highContrast ? HIGH_CONTRAST_SIGN.background : signColor;
+    const border = highContrast ? HIGH_CONTRAST_SIGN.border : '#000';
+    const font = `${fontSize}px ${this.theme.font}`;
+    const showPicture = hasPicture(problem);
+    const showText = !showPicture || !problem.pictureOnly;
+    const unit = fontSize * PICTURE_UNIT;
+    const picture = showPicture ? measurePicture(problem, unit) : { width: 0, height: 0 };
+    const measure = this.ctx;
+    if (measure) measure.font = font;
+    const textWidth = !showText ? 0 : measure ? measure.measureText(text).width : text.length * fontSize;
+    const textHeight = showText ? fontSize : 0;
+    const pictureTop = SIGN_BORDER + SIGN_PADDING_Y + (showText ? textHeight + SIGN_PADDING_Y : 0);
+    const width = Math.max(textWidth, picture.width) + 2 * (SIGN_PADDING_X + SIGN_BORDER);
+    const height = textHeight + (showPicture ? picture.height + (showText ? SIGN_PADDING_Y : 0) : 0) + 2 * (SIGN_PADDING_Y + SIGN_BORDER);
+    const key = `label|${text}|${showPicture ? `${problem.representation}|${showText}` : ''}|${background}|${font}|${this.pixelRatio}`;
+
+    return this.getSprite(key, width + SHADOW_OFFSET, height + SHADOW_OFFSET, ctx => {
+      ctx.fillStyle = '#000';
+      ctx.fillRect(SHADOW_OFFSET, SHADOW_OFFSET, width, height);
+      ctx.fillStyle = border;
+      ctx.fillRect(0, 0, width, height);
+      ctx.fillStyle = background;
+      ctx.fillRect(SIGN_BORDER, SIGN_BORDER, width - 2 * SIGN_BORDER, height - 2 * SIGN_BORDER);
+      if (showText) {
+        ctx.fillStyle = '#fff';
+        ctx.font = font;
+        ctx.textBaseline = 'middle';
+        ctx.textAlign = 'center';
+        ctx.fillText(text, width / 2, SIGN_BORDER + SIGN_PADDING_Y + textHeight / 2 + 1);
+      }
+      if (showPicture) {
+        drawPicture(ctx, problem, (width - picture.width) / 2, pictureTop, unit, highContrast ? HIGH_CONTRAST_PICTURE_COLORS : PICTURE_COLORS);
+      }
+    });
+  }
+
+  // Same stacking as the DOM renderer: sign, optional health bar, then the monster
+  layoutEnemy(sprite: EnemySprite) {
+    const { enemy, colors } = sprite;
+    const fontSize = (SIGN_FONT_SIZE[enemy.kind] || DEFAULT_SIGN_FONT_SIZE) * this.theme.textScale;
+    const label = this.getLabel(enemy.problem, colors.sign, fontSize);
+    const labelWidth = label.width / this.pixelRatio;
+    const labelHeight = label.height / this.pixelRatio;
+    const bodySize = ENEMY_SPRITE_SIZE[enemy.kind] || DEFAULT_SPRITE_SIZE;
+    const body = this.getEmoji(enemy.sprite, bodySize);
+    const bodyBox = body.width / this.pixelRatio;
+    const hasShield = enemy.kind === 'shielded' && enemy.stage === 0;
+    const bodyWidth = hasShield ? bodyBox * 1.8 : bodyBox;
+    const hpHeight = enemy.stages.length > 1 ? HP_BAR_HEIGHT + HP_BAR_MARGIN : 0;
+    const width = Math.max(labelWidth, bodyWidth, hpHeight ? HP_BAR_WIDTH : 0);
+
+    return {
+      label, labelWidth, labelHeight, body, bodyBox, bodySize, hasShield, bodyWidth, hpHeight, width,
+      height: labelHeight + SIGN_MARGIN + hpHeight + bodyBox
+    };
+  }
+
+  // The container is laid out in logical pixels and may be CSS-scaled to fit the screen;
+  // back the canvas with enough device pixels for the scaled size so it stays sharp
+  resize() {
+    if (!this.canvas || !this.container || !this.ctx) return;
+    const logicalWidth = this.container.clientWidth;
+    const cssScale = logicalWidth > 0 ? this.container.getBoundingClientRect().width / logicalWidth : 1;
+    const ratio = (window.devicePixelRatio || 1) * cssScale;
+    const width = Math.round(logicalWidth * ratio);
+    const height = Math.round(this.container.clientHeight * ratio);
+    if (ratio !== this.pixelRatio) {
+      this.pixelRatio = ratio;
+      this.spriteCache.clear();
+    }
+    if (this.canvas.width !== width || this.canvas.height !== height) {
+      this.canvas.width = width;
+      this.canvas.height = height;
+    }
+  }
+
+  setPaused(paused: boolean) {
+    const now = performance.now();
+    if (paused) {
+      if (this.pausedAt === null) this.pausedAt = now;
+      return;
+    }
+    if (this.pausedAt === null) return;
+    // Shift every start time by the pause so animations continue where they stopped
+    const pausedFor = now - this.pausedAt;
+    this.projectiles.forEach(p => p.start += pausedFor);
+    this.explosions.forEach(e => e.start += pausedFor);
+    this.enemies.forEach(sprite => sprite.addedAt += pausedFor);
+    this.pausedAt = null;
+  }
+
+  render(enemies: Enemy[], effects: VisualEffects, now: number) {
+    if (this.pausedAt !== null) now = this.pausedAt;
+    const ctx = this.ctx;
+    if (!ctx || !this.canvas) return;
+    this.resize();
+    ctx.setTransform(this.pixelRatio, 0, 0, this.pixelRatio, 0, 0);
+    ctx.clearRect(0, 0, this.canvas.width, this.canvas.height);
+
+    enemies.forEach(enemy => {
+      const sprite = this.enemies.get(enemy.id);
+      if (sprite) {
+        sprite.x = enemy.x;
+        sprite.y = enemy.y;
+      }
+    });
+
+    ctx.filter = effects.frozen ? 'hue-rotate(180deg) brightness(1.4)' : 'none';
+    this.enemies.forEach(sprite => this.drawEnemy(ctx, sprite, effects, now));
+    ctx.filter = 'none';
+
+    const landed: Projectile[] = [];
+    this.projectiles.forEach(p => {
+      const progress = Math.min((now - p.start) / (p.fireball ? FIREBALL_DURATION : PROJECTILE_DURATION), 1);
+      const x = p.from.x + (p.to.x - p.from.x) * progress;
+      const y = p.from.y + (p.to.y - p.from.y) * progress;
+      const size = p.fireball ? 28 : 10;
+      ctx.fillStyle = '#000';
+      ctx.fillRect(x - 4, y - 4, size + 8, size + 8);
+      ctx.fillStyle = '#fff';
+      ctx.fillRect(x - 2, y - 2, size + 4, size + 4);
+      ctx.fillStyle = p.fireball ? '#e67e22' : '#f1c40f';
+      ctx.fillRect(x, y, size, size);
+      if (progress >= 1) landed.push(p);
+    });
+
+    this.explosions = this.explosions.filter(e => now - e.start < EXPLOSION_DURATION);
+    this.explosions.forEach(e => {
+      const sprite = this.getEmoji(e.icon, e.size);
+      const box = sprite.width / this.pixelRatio;
+      ctx.drawImage(sprite, e.at.x - box / 2, e.at.y - box / 2, box, box);
+    });
+
+    // Impact callbacks may add explosions or remove enemies, so run them after drawing
+    this.projectiles = this.projectiles.filter(p => !landed.includes(p));
+    landed.forEach(p => p.onImpact());
+  }
+
+  drawEnemy(ctx: CanvasRenderingContext2D, sprite: EnemySprite, effects: VisualEffects, now: number) {
+    const { enemy } = sprite;
+    const layout = this.layoutEnemy(sprite);
+    const centerX = sprite.x + layout.width / 2;
+    let y = sprite.y;
+
+    ctx.drawImage(layout.label, centerX - layout.labelWidth / 2, y, layout.labelWidth, layout.labelHeight);
+    y += layout.labelHeight + SIGN_MARGIN;
+
+    if (layout.hpHeight) {
+      const left = centerX - HP_BAR_WIDTH / 2;
+      const remaining = (enemy.stages.length - enemy.stage) / enemy.stages.length;
+      ctx.fillStyle = '#fff';
+      ctx.fillRect(left, y, HP_BAR_WIDTH, HP_BAR_HEIGHT);
+      ctx.fillStyle = '#000';
+      ctx.fillRect(left + 2, y + 2, HP_BAR_WIDTH - 4, HP_BAR_HEIGHT - 4);
+      ctx.fillStyle = '#e74c3c';
+      ctx.fillRect(left + 2, y + 2, (HP_BAR_WIDTH - 4) * remaining, HP_BAR_HEIGHT - 4);
+      y += layout.hpHeight;
+    }
+
+    const period = effects.slowed ? SLOWED_FLOAT_PERIOD : (FLOAT_PERIOD[enemy.kind] || DEFAULT_FLOAT_PERIOD);
+    const phase = ((now - sprite.addedAt) / 1000) / period;
+    const float = this.theme.reducedMotion ? 0 : -FLOAT_HEIGHT * (1 - Math.cos(2 * Math.PI * phase)) / 2;
+
+    let bodyLeft = centerX - layout.bodyWidth / 2;
+    if (layout.hasShield) {
+      const shield = this.getEmoji('🛡️', layout.bodySize * 0.6);
+      const shieldBox = shield.width / this.pixelRatio;
+      ctx.drawImage(shield, bodyLeft, y + float + (layout.bodyBox - shieldBox), shieldBox, shieldBox);
+      bodyLeft += layout.bodyWidth - layout.bodyBox;
+    }
+    ctx.drawImage(layout.body, bodyLeft, y + float, layout.bodyBox, layout.bodyBox);
+  }
+}
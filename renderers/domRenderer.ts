@@ -0,0 +1,237 @@
+import { Enemy } from '../game/engine';
+import { Problem } from '../game/problems';
+import { drawPicture, hasPicture, HIGH_CONTRAST_PICTURE_COLORS, measurePicture, PICTURE_COLORS, PICTURE_UNIT } from './pictures';
+import {
+  DEFAULT_FLOAT_PERIOD, DEFAULT_RENDER_THEME, DEFAULT_SIGN_FONT_SIZE, DEFAULT_SPRITE_SIZE, ENEMY_SPRITE_SIZE, EnemyColors, EXPLOSION_DURATION,
+  FIREBALL_DURATION, FLOAT_PERIOD, GameRenderer, HIGH_CONTRAST_SIGN, Point, PROJECTILE_DURATION, ProjectileOptions, SIGN_FONT_SIZE,
+  RenderTheme, VisualEffects
+} from './renderer';
+
+// --- DOM Renderer (fallback) ---
+// One absolutely positioned element per enemy, projectile and explosion.
+export class DomRenderer implements GameRenderer {
+  container: HTMLElement | null = null;
+  enemyElements = new Map<number, HTMLDivElement>();
+  effects: HTMLElement[] = [];
+  theme: RenderTheme = DEFAULT_RENDER_THEME;
+  pausedAt: number | null = null;
+  // Total time spent paused; effects are timed against clock(), which stands still while paused
+  pausedFor = 0;
+
+  mount(container: HTMLElement) {
+    this.container = container;
+  }
+
+  setTheme(theme: RenderTheme) {
+    this.theme = theme;
+  }
+
+  destroy() {
+    this.clear();
+    this.container?.classList.remove('frozen', 'slowed', 'paused');
+    this.container = null;
+  }
+
+  clear() {
+    this.enemyElements.forEach(element => element.remove());
+    this.enemyElements.clear();
+    this.effects.forEach(element => element.remove());
+    this.effects = [];
+  }
+
+  addEnemy(enemy: Enemy, colors: EnemyColors) {
+    if (!this.container) return;
+    const element = document.createElement('div');
+    const { font, textScale, highContrast, reducedMotion } = this.theme;
+    const fontSize = (SIGN_FONT_SIZE[enemy.kind] || DEFAULT_SIGN_FONT_SIZE) * textScale;
+    
+    element.style.cssText = `
+      position: absolute;
+      display: flex;
+      flex-direction: column;
+      align-items: center;
+      z-index: 2;
+      font-family: ${font};
+    `;
+
+    element.innerHTML = `
+      <div data-role="sign" style="
+        color: #fff;
+        border: 4px solid #000;
+        box-shadow: 4px 4px 0 0 #000;
+        background: ${highContrast ? HIGH_CONTRAST_SIGN.background : colors.sign};
+        ${highContrast ? `border-color: ${HIGH_CONTRAST_SIGN.border};` : ''}
+        padding: 4px 8px;
+        font-size: ${fontSize}px;
+        margin-bottom: 5px;
+        text-align: center;
+      "></div>
+      ${enemy.stages.length > 1 ? `
+        <div style="width: 80px; height: 8px; background: #000; border: 2px solid #fff; margin-bottom: 4px;">
+          <div data-role="hp" style="width: 100%; height: 100%; background: #e74c3c;"></div>
+        </div>` : ''}
+      <div style="
+        font-size: ${ENEMY_SPRITE_SIZE[enemy.kind] || DEFAULT_SPRITE_SIZE}px;
+        color: ${colors.monster};
+        filter: drop-shadow(4px 4px 0 #000);
+        animation: ${reducedMotion ? 'none' : `float ${FLOAT_PERIOD[enemy.kind] || DEFAULT_FLOAT_PERIOD}s ease-in-out infinite`};
+      ">${enemy.kind === 'shielded' ? '<span data-role="shield">🛡️</span>' : ''}${enemy.sprite}</div>
+    `;
+
+    element.style.left = `${enemy.x}px`;
+    element.style.top = `${enemy.y}px`;
+    this.fillSign(element.querySelector<HTMLElement>('[data-role="sign"]'), enemy.problem, fontSize);
+    
+    this.container.appendChild(element);
+    this.enemyElements.set(enemy.id, element);
+  }
+
+  // Multi-stage enemies show the next problem and lose a chunk of their health bar
+  updateEnemyStage(enemy: Enemy) {
+    const element = this.enemyElements.get(enemy.id);
+    if (!element) return;
+    const sign = element.querySelector<HTMLElement>('[data-role="sign"]');
+    const hp = element.querySelector<HTMLElement>('[data-role="hp"]');
+    if (sign) this.fillSign(sign, enemy.problem, (SIGN_FONT_SIZE[enemy.kind] || DEFAULT_SIGN_FONT_SIZE) * this.theme.textScale);
+    if (hp) hp.style.width = `${100 * (enemy.stages.length - enemy.stage) / enemy.stages.length}%`;
+    element.querySelector('[data-role="shield"]')?.remove();
+  }
+
+  // Problem text, its picture under it, or just the picture
+  fillSign(sign: HTMLElement, problem: Problem, fontSize: number) {
+    sign.textContent = '';
+    if (!hasPicture(problem) || !problem.pictureOnly) {
+      const text = document.createElement('div');
+      text.innerText = problem.text;
+      sign.appendChild(text);
+    }
+    if (!hasPicture(problem)) return;
+
+    const unit = fontSize * PICTURE_UNIT;
+    const { width, height } = measurePicture(problem, unit);
+    const ratio = window.devicePixelRatio || 1;
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.ceil(width * ratio);
+    canvas.height = Math.ceil(height * ratio);
+    canvas.style.cssText = `display: block; width: ${width}px; height: ${height}px; margin: ${problem.pictureOnly ? 0 : 4}px auto 0;`;
+    const ctx = canvas.getContext('2d');
+    if (ctx) {
+      ctx.scale(ratio, ratio);
+      drawPicture(ctx, problem, 0, 0, unit, this.theme.highContrast ? HIGH_CONTRAST_PICTURE_COLORS : PICTURE_COLORS);
+    }
+    sign.appendChild(canvas);
+  }
+
+  removeEnemy(id: number) {
+    this.enemyElements.get(id)?.remove();
+    this.enemyElements.delete(id);
+  }
+
+  getEnemyCenter(enemy: Enemy) {
+    const element = this.enemyElements.get(enemy.id);
+    if (!element || !this.container) return null;
+    const rect = element.getBoundingClientRect();
+    const origin = this.container.getBoundingClientRect();
+    // Screen pixels back to the container's (possibly scaled) logical pixels
+    const scale = this.container.clientWidth > 0 ? origin.width / this.container.clientWidth : 1;
+    return {
+      x: (rect.left - origin.left + rect.width / 2) / scale,
+      y: (rect.top - origin.top + rect.height / 2) / scale
+    };
+  }
+
+  shootProjectile(from: Point, to: Point, options: ProjectileOptions) {
+    if (!this.container) return;
+    const size = options.fireball ? 28 : 10;
+
+    const projectile = document.createElement('div');
+    projectile.style.cssText = `
+        position: absolute;
+        width: ${size}px;
+        height: ${size}px;
+        background: ${options.fireball ? '#e67e22' : '#f1c40f'};
+        border: 2px solid #fff;
+        box-shadow: 0 0 0 2px #000;
+        z-index: 4;
+        left: ${from.x}px;
+        top: ${from.y}px;
+    `;
+    this.container.appendChild(projectile);
+    this.effects.push(projectile);
+
+    const duration = options.fireball ? FIREBALL_DURATION : PROJECTILE_DURATION;
+    const startTime = this.clock();
+
+    const animateProjectile = () => {
+      const elapsed = this.clock() - startTime;
+      const progress = Math.min(elapsed / duration, 1);
+
+      projectile.style.left = `${from.x + (to.x - from.x) * progress}px`;
+      projectile.style.top = `${from.y + (to.y - from.y) * progress}px`;
+
+      if (progress < 1) {
+        requestAnimationFrame(animateProjectile);
+      } else {
+        this.removeEffect(projectile);
+        options.onImpact();
+      }
+    };
+    requestAnimationFrame(animateProjectile);
+  }
+
+  explode(at: Point, icon: string, size: number) {
+    if (!this.container) return;
+    const explosion = document.createElement('div');
+    explosion.innerText = icon;
+    explosion.style.cssText = `
+        position: absolute;
+        font-size: ${size}px;
+        left: ${at.x}px;
+        top: ${at.y}px;
+        transform: translate(-50%, -50%);
+        z-index: 6;
+        text-shadow: 4px 4px 0 #000;
+    `;
+    this.container.appendChild(explosion);
+    this.effects.push(explosion);
+
+    const startTime = this.clock();
+    const expire = () => {
+      if (this.clock() - startTime < EXPLOSION_DURATION) requestAnimationFrame(expire);
+      else this.removeEffect(explosion);
+    };
+    requestAnimationFrame(expire);
+  }
+
+  clock() {
+    return (this.pausedAt ?? performance.now()) - this.pausedFor;
+  }
+
+  setPaused(paused: boolean) {
+    if (paused && this.pausedAt === null) {
+      this.pausedAt = performance.now();
+    } else if (!paused && this.pausedAt !== null) {
+      this.pausedFor += performance.now() - this.pausedAt;
+      this.pausedAt = null;
+    }
+    // Stops the CSS float animation too
+    this.container?.classList.toggle('paused', paused);
+  }
+
+  removeEffect(element: HTMLElement) {
+    element.remove();
+    this.effects = this.effects.filter(e => e !== element);
+  }
+
+  render(enemies: Enemy[], effects: VisualEffects) {
+    enemies.forEach(enemy => {
+      const element = this.enemyElements.get(enemy.id);
+      if (element) {
+        element.style.left = `${enemy.x}px`;
+        element.style.top = `${enemy.y}px`;
+      }
+    });
+    this.container?.classList.toggle('frozen', effects.frozen);
+    this.container?.classList.toggle('slowed', effects.slowed);
+  }
+}
@@ -0,0 +1,17 @@
+import { CanvasRenderer } from './canvasRenderer';
+import { DomRenderer } from './domRenderer';
+import { GameRenderer, RendererType } from './renderer';
+
+export * from './renderer';
+
+const STORAGE_KEY = 'magicMathRenderer';
+
+export const createRenderer = (type: RendererType): GameRenderer =>
+  type === 'dom' ? new DomRenderer() : new CanvasRenderer();
+
+export const loadRendererType = (): RendererType =>
+  localStorage.getItem(STORAGE_KEY) === 'dom' ? 'dom' : 'canvas';
+
+export const saveRendererType = (type: RendererType) => {
+  localStorage.setItem(STORAGE_KEY, type);
+};
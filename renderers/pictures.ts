@@ -0,0 +1,155 @@
+import { Problem, Representation } from '../game/problems';
+
+// --- Problem Pictures ---
+// Dot groups, ten-frames and fingers for sums and differences. Both renderers draw them with these
+// functions onto a canvas, sized in units (one dot or frame cell) so they follow the sign's font size.
+export type PictureColors = { first: string, second: string, ink: string, cross: string };
+
+export const PICTURE_COLORS: PictureColors = { first: '#f1c40f', second: '#5dade2', ink: '#fff', cross: '#e74c3c' };
+export const HIGH_CONTRAST_PICTURE_COLORS: PictureColors = { first: '#fff', second: '#ff0', ink: '#fff', cross: '#f00' };
+
+// Picture unit relative to the sign's font size
+export const PICTURE_UNIT = 0.75;
+
+type Part = { width: number, height: number, draw: (ctx: CanvasRenderingContext2D, x: number, y: number) => void };
+
+// Units between the parts of a picture
+const GAP = 0.5;
+const DOTS_PER_ROW = 5;
+
+const crossOut = (ctx: CanvasRenderingContext2D, x: number, y: number, size: number, colors: PictureColors) => {
+  ctx.strokeStyle = colors.cross;
+  ctx.lineWidth = Math.max(2, size / 6);
+  ctx.beginPath();
+  ctx.moveTo(x, y);
+  ctx.lineTo(x + size, y + size);
+  ctx.moveTo(x + size, y);
+  ctx.lineTo(x, y + size);
+  ctx.stroke();
+};
+
+// Rows of five, like dice faces lined up; the last `crossed` dots are taken away
+const dots = (count: number, crossed: number, color: string, colors: PictureColors, unit: number): Part => {
+  const columns = Math.min(count, DOTS_PER_ROW);
+  const rows = Math.ceil(count / DOTS_PER_ROW);
+  return {
+    width: columns * unit,
+    height: rows * unit,
+    draw: (ctx, x, y) => {
+      for (let i = 0; i < count; i++) {
+        const cx = x + (i % DOTS_PER_ROW + 0.5) * unit;
+        const cy = y + (Math.floor(i / DOTS_PER_ROW) + 0.5) * unit;
+        ctx.beginPath();
+        ctx.arc(cx, cy, unit * 0.38, 0, 2 * Math.PI);
+        if (i >= count - crossed) {
+          ctx.strokeStyle = color;
+          ctx.lineWidth = Math.max(1, unit / 8);
+          ctx.stroke();
+          crossOut(ctx, cx - unit * 0.3, cy - unit * 0.3, unit * 0.6, colors);
+        } else {
+          ctx.fillStyle = color;
+          ctx.fill();
+        }
+      }
+    }
+  };
+};
+
+// 2 × 5 frames side by side, filled left to right, top row first
+const tenFrames = (count: number, crossed: number, color: string, colors: PictureColors, unit: number): Part => {
+  const frames = Math.max(1, Math.ceil(count / 10));
+  const frameWidth = 5 * unit;
+  return {
+    width: frames * frameWidth + (frames - 1) * unit * GAP,
+    height: 2 * unit,
+    draw: (ctx, x, y) => {
+      ctx.lineWidth = Math.max(1, unit / 10);
+      for (let cell = 0; cell < frames * 10; cell++) {
+        const frame = Math.floor(cell / 10);
+        const cx = x + frame * (frameWidth + unit * GAP) + (cell % 5) * unit;
+        const cy = y + Math.floor((cell % 10) / 5) * unit;
+        ctx.strokeStyle = colors.ink;
+        ctx.strokeRect(cx, cy, unit, unit);
+        if (cell >= count) continue;
+        ctx.beginPath();
+        ctx.arc(cx + unit / 2, cy + unit / 2, unit * 0.32, 0, 2 * Math.PI);
+        ctx.fillStyle = color;
+        ctx.fill();
+        if (cell >= count - crossed) crossOut(ctx, cx + unit * 0.2, cy + unit * 0.2, unit * 0.6, colors);
+      }
+    }
+  };
+};
+
+// One hand per five; raised fingers count, folded ones stay short
+const fingers = (count: number, crossed: number, color: string, colors: PictureColors, unit: number): Part => {
+  const hands = count > 5 ? 2 : 1;
+  const fingerWidth = unit * 0.45;
+  const fingerStep = unit * 0.6;
+  const handWidth = fingerStep * 4 + fingerWidth;
+  const palmHeight = unit;
+  const raisedHeight = unit * 1.6;
+  return {
+    width: hands * handWidth + (hands - 1) * unit * GAP,
+    height: raisedHeight + palmHeight,
+    draw: (ctx, x, y) => {
+      for (let hand = 0; hand < hands; hand++) {
+        const left = x + hand * (handWidth + unit * GAP);
+        const raised = Math.min(5, count - hand * 5);
+        ctx.fillStyle = color;
+        ctx.fillRect(left, y + raisedHeight, handWidth, palmHeight);
+        for (let finger = 0; finger < 5; finger++) {
+          const fx = left + finger * fingerStep;
+          const isRaised = finger < raised;
+          const height = isRaised ? raisedHeight : unit * 0.3;
+          ctx.fillRect(fx, y + raisedHeight - height, fingerWidth, height);
+          const index = hand * 5 + finger;
+          if (isRaised && index >= count - crossed) crossOut(ctx, fx - unit * 0.1, y + unit * 0.3, fingerWidth + unit * 0.2, colors);
+        }
+      }
+    }
+  };
+};
+
+const PARTS: Record<Representation, typeof dots> = { dots, 'ten-frame': tenFrames, fingers };
+
+// Drawn with lines so it looks the same in every font
+const plus = (colors: PictureColors, unit: number): Part => ({
+  width: unit,
+  height: unit,
+  draw: (ctx, x, y) => {
+    ctx.fillStyle = colors.ink;
+    const bar = Math.max(2, unit / 5);
+    ctx.fillRect(x, y + (unit - bar) / 2, unit, bar);
+    ctx.fillRect(x + (unit - bar) / 2, y, bar, unit);
+  }
+});
+
+// A sum shows both numbers side by side; a difference shows the first with the second crossed out
+const pictureParts = (problem: Problem, unit: number, colors: PictureColors): Part[] => {
+  const [first, second] = problem.operands;
+  const part = PARTS[problem.representation];
+  if (problem.operation === 'subtract') return [part(first, second, colors.first, colors, unit)];
+  return [part(first, 0, colors.first, colors, unit), plus(colors, unit), part(second, 0, colors.second, colors, unit)];
+};
+
+export const hasPicture = (problem: Problem) => !!problem.representation && !!problem.operands;
+
+export const measurePicture = (problem: Problem, unit: number) => {
+  const parts = pictureParts(problem, unit, PICTURE_COLORS);
+  return {
+    width: parts.reduce((sum, p) => sum + p.width, 0) + (parts.length - 1) * unit * GAP,
+    height: Math.max(...parts.map(p => p.height))
+  };
+};
+
+// Parts are centred vertically on the tallest one
+export const drawPicture = (ctx: CanvasRenderingContext2D, problem: Problem, x: number, y: number, unit: number, colors: PictureColors) => {
+  const parts = pictureParts(problem, unit, colors);
+  const height = Math.max(...parts.map(p => p.height));
+  let left = x;
+  parts.forEach(part => {
+    part.draw(ctx, left, y + (height - part.height) / 2);
+    left += part.width + unit * GAP;
+  });
+};
@@ -0,0 +1,65 @@
+import { Enemy } from '../game/engine';
+import { EnemyKind } from '../game/enemies';
+
+// --- Renderer Interface ---
+// The component drives a renderer from engine events and handleGameLoop; renderers only draw.
+export type RendererType = 'canvas' | 'dom';
+
+export type Point = { x: number, y: number };
+
+export type EnemyColors = { monster: string, sign: string };
+
+export type VisualEffects = { frozen: boolean, slowed: boolean };
+
+export type RenderTheme = {
+  font: string,
+  // Multiplies problem sign font sizes
+  textScale: number,
+  // Signs become white on black with a white border
+  highContrast: boolean,
+  // Enemies stop floating
+  reducedMotion: boolean
+};
+
+export type ProjectileOptions = {
+  fireball: boolean,
+  onImpact: () => void
+};
+
+export interface GameRenderer {
+  mount(container: HTMLElement): void;
+  setTheme(theme: RenderTheme): void;
+  destroy(): void;
+  clear(): void;
+  addEnemy(enemy: Enemy, colors: EnemyColors): void;
+  updateEnemyStage(enemy: Enemy): void;
+  removeEnemy(id: number): void;
+  // Center of the enemy in container coordinates, or null if it is not drawn
+  getEnemyCenter(enemy: Enemy): Point | null;
+  shootProjectile(from: Point, to: Point, options: ProjectileOptions): void;
+  explode(at: Point, icon: string, size: number): void;
+  // Freezes projectiles, explosions and floating; they carry on from the same point when unpaused
+  setPaused(paused: boolean): void;
+  // Called once per animation frame with the engine's live enemies
+  render(enemies: Enemy[], effects: VisualEffects, now: number): void;
+}
+
+export const ENEMY_SPRITE_SIZE: Partial<Record<EnemyKind, number>> = { boss: 64, minion: 28 };
+export const DEFAULT_SPRITE_SIZE = 40;
+export const SIGN_FONT_SIZE: Partial<Record<EnemyKind, number>> = { minion: 12 };
+export const DEFAULT_SIGN_FONT_SIZE = 16;
+// Seconds per float cycle; runners bob faster
+export const FLOAT_PERIOD: Partial<Record<EnemyKind, number>> = { runner: 0.6 };
+export const DEFAULT_FLOAT_PERIOD = 2;
+export const SLOWED_FLOAT_PERIOD = 6;
+export const EXPLOSION_DURATION = 300;
+export const PROJECTILE_DURATION = 200;
+export const FIREBALL_DURATION = 400;
+
+export const PIXEL_FONT = "'Press Start 2P', cursive";
+// VT323, scaled to Press Start 2P's size (see assets); used for Vietnamese text, which Press Start 2P can't draw
+export const VIETNAMESE_PIXEL_FONT = "'Pixel Vietnamese', cursive";
+export const READABLE_FONT = "Verdana, 'Segoe UI', Arial, sans-serif";
+
+export const DEFAULT_RENDER_THEME: RenderTheme = { font: PIXEL_FONT, textScale: 1, highContrast: false, reducedMotion: false };
+export const HIGH_CONTRAST_SIGN = { background: '#000', border: '#fff' };
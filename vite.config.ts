@@ -1,7 +1,25 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import fs from 'fs';
+import crypto from 'crypto';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Emits sw.js with every built file (plus public/) precached, so the game runs offline
+const serviceWorker = (): Plugin => ({
+  name: 'magic-math-service-worker',
+  apply: 'build',
+  enforce: 'post',
+  generateBundle(_options, bundle) {
+    const publicFiles = fs.readdirSync(path.resolve(__dirname, 'public'));
+    const files = ['./', ...Object.keys(bundle), ...publicFiles].map(file => file === './' ? file : `./${file}`);
+    const version = crypto.createHash('sha256').update(files.join('\n')).digest('hex').slice(0, 8);
+    const source = fs.readFileSync(path.resolve(__dirname, 'pwa/sw.js'), 'utf-8')
+      .replace('__VERSION__', version)
+      .replace('__PRECACHE__', JSON.stringify(files, null, 2));
+    this.emitFile({ type: 'asset', fileName: 'sw.js', source });
+  }
+});
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
@@ -10,7 +28,7 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), serviceWorker()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)